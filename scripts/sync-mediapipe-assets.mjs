@@ -0,0 +1,49 @@
+/**
+ * Copies the pinned MediaPipe WASM runtime into public/mediapipe and downloads the gesture and face models once,
+ * so the app can be served with `VITE_MEDIAPIPE_ASSET_BASE_URL=public` on networks without internet access.
+ */
+import { copyFile, mkdir, stat, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), "..");
+const wasmSource = resolve(root, "node_modules/@mediapipe/tasks-vision/wasm");
+const target = resolve(root, "public/mediapipe");
+
+const MODEL_URLS = {
+	"gesture_recognizer.task":
+		"https://storage.googleapis.com/mediapipe-models/gesture_recognizer/gesture_recognizer/float16/1/gesture_recognizer.task",
+	"blaze_face_short_range.tflite":
+		"https://storage.googleapis.com/mediapipe-models/face_detector/blaze_face_short_range/float16/1/blaze_face_short_range.tflite",
+};
+
+async function exists(path) {
+	try {
+		await stat(path);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+await mkdir(resolve(target, "wasm"), { recursive: true });
+await mkdir(resolve(target, "models"), { recursive: true });
+
+for (const file of ["vision_wasm_internal.js", "vision_wasm_internal.wasm"]) {
+	await copyFile(resolve(wasmSource, file), resolve(target, "wasm", file));
+	console.log(`Copied wasm/${file}`);
+}
+
+for (const [file, url] of Object.entries(MODEL_URLS)) {
+	const modelPath = resolve(target, "models", file);
+	if (await exists(modelPath)) {
+		console.log(`models/${file} already present, skipping download`);
+		continue;
+	}
+	const response = await fetch(url);
+	if (!response.ok) {
+		throw new Error(`Failed to download ${file}: ${response.status} ${response.statusText}`);
+	}
+	await writeFile(modelPath, new Uint8Array(await response.arrayBuffer()));
+	console.log(`Downloaded models/${file}`);
+}
@@ -4,23 +4,144 @@ import {
 	InputIcon,
 } from "@radix-ui/react-icons";
 import { useAnimate } from "framer-motion";
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import Webcam from "react-webcam";
 import useCanvas from "./hooks/useCanvas";
+import useGestureClassification from "./hooks/useGestureClassification";
+import useGestureRecorder from "./hooks/useGestureRecorder";
+import useGestureStabilizer from "./hooks/useGestureStabilizer";
+import useAnalytics from "./hooks/useAnalytics";
+import useAnimations from "./hooks/useAnimations";
+import useAvatarStateMachine from "./hooks/useAvatarStateMachine";
+import useEmotionModel from "./hooks/useEmotionModel";
+import useGaze from "./hooks/useGaze";
+import useLocale from "./hooks/useLocale";
+import useNotices from "./hooks/useNotices";
+import usePersonality from "./hooks/usePersonality";
+import usePresence from "./hooks/usePresence";
+import useProximity from "./hooks/useProximity";
+import useSpeech from "./hooks/useSpeech";
+import useVisitorSession from "./hooks/useVisitorSession";
+import useWasmFileset from "./hooks/useWasmFileset";
+import { TranslatorContext } from "./hooks/useTranslation";
 import useRecognizer from "./hooks/useRecognizer";
+import useReplay from "./hooks/useReplay";
+import AnalyticsPanel from "./components/analytics/AnalyticsPanel";
 import Avatar from "./components/avatar/Avatar";
-import type { GestureType } from "./types/avatar";
+import { getEmotionalResponse, getResponseMessage } from "./components/avatar/AvatarStates";
+import PersonalitySelect from "./components/avatar/PersonalitySelect";
+import SpeechToggle from "./components/avatar/SpeechToggle";
+import LocaleSelect from "./components/i18n/LocaleSelect";
+import NoticeBoard from "./components/notices/NoticeBoard";
+import RecordingPanel from "./components/recording/RecordingPanel";
+import ReplayPanel from "./components/recording/ReplayPanel";
+import { GESTURE_EMOJIS } from "./lib/constants";
 
 
 function App() {
 	const [scope, animate] = useAnimate();
 	const [isMediaStreamReady, setIsMediaStreamReady] = useState(false);
-	const { videoRef, results, recognizerRef } = useRecognizer();
+	// The Recognizer and the PresenceDetector run on the same frames, with one copy of the WASM runtime.
+	const vision = useWasmFileset();
+	const {
+		videoRef,
+		setVideoElement: setRecognizerVideoElement,
+		results: liveResults,
+		timestamp: liveTimestamp,
+		recognizerRef,
+	} = useRecognizer({
+		worker: import.meta.env.VITE_RECOGNIZER_WORKER === "true",
+		numHands: Number(import.meta.env.VITE_NUM_HANDS) || undefined,
+		vision,
+	});
+	const { presence: livePresence, setVideoElement: setPresenceVideoElement } = usePresence({
+		enabled: import.meta.env.VITE_FACE_PRESENCE !== "false",
+		vision,
+	});
+	// Hands and faces are detected in the same video, the webcam or a replayed video.
+	const setVideoElement = useCallback(
+		(videoElement: HTMLVideoElement | null) => {
+			setRecognizerVideoElement(videoElement);
+			setPresenceVideoElement(videoElement);
+		},
+		[setRecognizerVideoElement, setPresenceVideoElement],
+	);
+	const replay = useReplay();
+	const webcamVideoRef = useRef<HTMLVideoElement | null>(null);
+	// Replayed recordings bypass the Recognizer, replayed videos go through it in place of the webcam.
+	const results = replay.mode === "recording" ? replay.results : liveResults;
+	const frameTimestamp = replay.mode === "recording" ? replay.timestamp : liveTimestamp;
+	// Recordings hold hand landmarks only, the faces in front of the webcam are not part of them.
+	const presence = replay.mode === "recording" ? null : livePresence;
 	const { canvasRef } = useCanvas(results?.landmarks);
+	const { gaze } = useGaze(results?.landmarks);
 
-	const emojiLabel = results?.gestures[0]?.[0].categoryName ?? "None";
-	const gestureType: GestureType = emojiLabel as GestureType;
-	const isPersonDetected = results?.landmarks && results.landmarks.length > 0;
+	const analytics = useAnalytics();
+	const { classification, hands, people } = useGestureClassification(results, frameTimestamp);
+	const locale = useLocale();
+	const { t } = locale.translator;
+	const personality = usePersonality();
+	// Recordings are made from the webcam video, the same frame size as the live video.
+	const video = videoRef.current;
+	const frameAspectRatio = video?.videoWidth ? video.videoHeight / video.videoWidth : undefined;
+	const proximity = useProximity(
+		results?.landmarks,
+		presence,
+		personality.personality.thresholds?.proximity,
+		frameAspectRatio,
+	);
+	// Someone facing the screen is there too with their hands down, people merely passing by are not. Visits start once
+	// they approach, until then they are beckoned closer.
+	const isPersonDetected =
+		((results?.landmarks?.length ?? 0) > 0 || (presence?.facing ?? 0) > 0) && proximity.zone !== "far";
+	// Sessions bridge the frames a hand leaves the picture, so the avatar greets and says goodbye once per visitor.
+	const visitor = useVisitorSession(isPersonDetected, Math.max(people, presence?.people ?? 0), undefined, (event) =>
+		analytics.recordSession(event),
+	);
+	const { gesture: gestureType } = useGestureStabilizer(
+		classification,
+		frameTimestamp,
+		undefined,
+		(event) => {
+			visitor.recordGesture(event);
+			analytics.recordGesture(event);
+		},
+		replay.mode !== "recording",
+	);
+	const gestureHand = hands.find((hand) => hand.gesture === gestureType)?.handedness;
+	const recorder = useGestureRecorder(results);
+	const animations = useAnimations(personality.personality);
+	const notices = useNotices();
+	const avatar = useAvatarStateMachine({
+		gestureType,
+		isPersonDetected: visitor.isPresent,
+		handedness: gestureHand,
+		people,
+		zone: proximity.zone,
+		personality: personality.personality,
+		promotion: notices.promotion,
+	});
+	const { emotion, mood } = useEmotionModel(
+		gestureType,
+		visitor.isPresent,
+		personality.personality.thresholds?.emotion,
+	);
+	const avatarResponse = getEmotionalResponse(avatar.response, mood, avatar.phase);
+	// Every new response is recorded as a reaction, in the phase it changed in, without re-running on the phase.
+	const { recordReaction } = analytics;
+	const avatarPhaseRef = useRef(avatar.phase);
+	avatarPhaseRef.current = avatar.phase;
+	useEffect(() => {
+		recordReaction(avatar.response, avatarPhaseRef.current);
+	}, [avatar.response, recordReaction]);
+	// Nobody is there to hear the idle behaviors.
+	const isAvatarAlone = avatar.phase === "idle" || avatar.phase === "sleeping";
+	const speech = useSpeech(
+		isAvatarAlone ? null : getResponseMessage(avatar.response, locale.translator),
+		visitor.isPresent,
+		locale.translator.locale,
+		personality.personality.voice,
+	);
 
 	// Debug logging
 	useEffect(() => {
@@ -31,11 +152,17 @@ function App() {
 			hasResults: !!results,
 			landmarksCount: results?.landmarks?.length || 0,
 			gesturesCount: results?.gestures?.length || 0,
-			emojiLabel,
 			gestureType,
 			isPersonDetected
 		});
-	}, [isMediaStreamReady, videoRef.current, recognizerRef.current, results, emojiLabel, gestureType, isPersonDetected]);
+	}, [isMediaStreamReady, videoRef.current, recognizerRef.current, results, gestureType, isPersonDetected]);
+
+	// Hand the webcam back to the Recognizer once a replayed video is stopped.
+	useEffect(() => {
+		if (replay.mode !== "video") {
+			setVideoElement(webcamVideoRef.current);
+		}
+	}, [replay.mode, setVideoElement]);
 
 	const onUserMediaError = (error: string | DOMException) => {
 		setIsMediaStreamReady(false);
@@ -43,7 +170,7 @@ function App() {
 	};
 
 	useEffect(() => {
-		if (emojiLabel !== "None") {
+		if (gestureType !== "None") {
 			animate(scope.current, {
 				opacity: [0, 1],
 				rotate: [180, 0],
@@ -51,195 +178,289 @@ function App() {
 				transition: { type: "spring", stiffness: 260, damping: 20, duration: 5 },
 			});
 		}
-	}, [emojiLabel, animate, scope.current]);
+	}, [gestureType, animate, scope.current]);
 
 	return (
-		<main className="min-h-screen bg-white p-8">
-			<div className="max-w-7xl mx-auto">
-				{/* Header */}
-				<div className="text-center mb-12">
-					<h1 className="text-4xl font-bold text-gray-900 mb-4">
-						BusinessGPT Buddy
-					</h1>
-					<p className="text-lg text-gray-600">
-						v0.1 POC Playground
-					</p>
-				</div>
+		<TranslatorContext.Provider value={locale.translator}>
+			<main className="min-h-screen bg-white p-8">
+				<div className="max-w-7xl mx-auto">
+					{/* Header */}
+					<div className="text-center mb-12">
+						<h1 className="text-4xl font-bold text-gray-900 mb-4">
+							BusinessGPT Buddy
+						</h1>
+						<p className="text-lg text-gray-600">
+							{t("app.subtitle")}
+						</p>
+						<LocaleSelect locale={locale} className="mt-4" />
+					</div>
 
-				{/* Custom Grid Layout */}
-				<div className="grid grid-cols-1 lg:grid-cols-3 gap-6 auto-rows-[250px]">
-					{/* Gesture Camera Card */}
-					<div className="lg:col-start-1 lg:col-end-2 lg:row-start-1 lg:row-end-3">
-						<div className="h-full bg-white rounded-xl border border-gray-200/50 shadow-lg relative overflow-hidden">
-							{/* Header */}
-							<div className="absolute top-0 left-0 right-0 p-6 pb-2 z-20">
-								<div className="flex items-center gap-3 mb-2">
-									<InputIcon className="h-6 w-6 text-gray-700" />
-									<h3 className="text-lg font-semibold text-gray-900">Gesture Camera</h3>
+					{/* Custom Grid Layout */}
+					<div className="grid grid-cols-1 lg:grid-cols-3 gap-6 auto-rows-[250px]">
+						{/* Gesture Camera Card */}
+						<div className="lg:col-start-1 lg:col-end-2 lg:row-start-1 lg:row-end-3">
+							<div className="h-full bg-white rounded-xl border border-gray-200/50 shadow-lg relative overflow-hidden">
+								{/* Header */}
+								<div className="absolute top-0 inset-x-0 p-6 pb-2 z-20">
+									<div className="flex items-center gap-3 mb-2">
+										<InputIcon className="h-6 w-6 text-gray-700" />
+										<h3 className="text-lg font-semibold text-gray-900">{t("camera.title")}</h3>
+									</div>
+									<p className="text-sm text-gray-600">{t("camera.description")}</p>
 								</div>
-								<p className="text-sm text-gray-600">Webcam feed with hand gesture detection overlay</p>
-							</div>
-							
-							{/* Video Content */}
-							<div className="absolute inset-0 pt-16 pb-4 px-6">
-								<div className="relative w-full h-full flex items-center justify-center">
-									<div
-										className={`relative rounded-lg overflow-hidden shadow-lg max-w-full ${
-											isMediaStreamReady ? "videoContainer" : ""
-										} ${
-											results?.gestures.length ? "active" : "inactive"
-										}`}
-										style={{ aspectRatio: '4/3', maxHeight: 'calc(100% - 4rem)' }}
-									>
-										<Webcam
-											videoConstraints={{ width: 640, height: 480, facingMode: "user" }}
-											width={640}
-											height={480}
-											ref={(webCamRef) => {
-												if (webCamRef?.video) {
-													videoRef.current = webCamRef.video;
-												}
-											}}
-											audio={false}
-											playsInline
-											muted
-											onUserMedia={() => setIsMediaStreamReady(true)}
-											onUserMediaError={onUserMediaError}
-											className="w-full h-full object-cover rounded-lg"
-										/>
-										<canvas 
-											ref={canvasRef} 
-											width={640} 
-											height={480}
-											className="absolute top-0 left-0 z-10 pointer-events-none rounded-lg"
-											style={{ 
-												width: '100%', 
-												height: '100%'
-											}}
-										/>
+								
+								{/* Video Content */}
+								<div className="absolute inset-0 pt-16 pb-4 px-6">
+									<div className="relative w-full h-full flex items-center justify-center">
+										<div
+											className={`relative rounded-lg overflow-hidden shadow-lg max-w-full ${
+												isMediaStreamReady ? "videoContainer" : ""
+											} ${
+												results?.gestures.length ? "active" : "inactive"
+											}`}
+											style={{ aspectRatio: '4/3', maxHeight: 'calc(100% - 4rem)' }}
+										>
+											<Webcam
+												videoConstraints={{ width: 640, height: 480, facingMode: "user" }}
+												width={640}
+												height={480}
+												ref={(webCamRef) => {
+													webcamVideoRef.current = webCamRef?.video ?? null;
+													if (replay.mode !== "video") setVideoElement(webcamVideoRef.current);
+												}}
+												audio={false}
+												playsInline
+												muted
+												onUserMedia={() => setIsMediaStreamReady(true)}
+												onUserMediaError={onUserMediaError}
+												className="w-full h-full object-cover rounded-lg"
+											/>
+											{replay.videoUrl && (
+												<video
+													ref={(videoElement) => {
+														replay.videoRef(videoElement);
+														setVideoElement(videoElement);
+													}}
+													src={replay.videoUrl}
+													autoPlay
+													loop
+													muted
+													playsInline
+													className="absolute top-0 left-0 w-full h-full object-cover rounded-lg"
+												/>
+											)}
+											<canvas 
+												ref={canvasRef} 
+												width={640} 
+												height={480}
+												className="absolute top-0 left-0 z-10 pointer-events-none rounded-lg"
+												style={{ 
+													width: '100%', 
+													height: '100%'
+												}}
+											/>
+										</div>
 									</div>
 								</div>
 							</div>
 						</div>
-					</div>
 
-					{/* Interactive Avatar Card - Large */}
-					<div className="lg:col-start-2 lg:col-end-3 lg:row-start-1 lg:row-end-4">
-						<div className="h-full bg-white rounded-xl border border-gray-200/50 shadow-lg p-6 flex flex-col overflow-hidden">
-							<div className="flex items-center gap-3 mb-4">
-								<FileTextIcon className="h-6 w-6 text-gray-700" />
-								<h3 className="text-lg font-semibold text-gray-900">Interactive Avatar</h3>
-							</div>
-							<p className="text-sm text-gray-600 mb-6">Your AI avatar responds to hand gestures in real-time</p>
-							<div className="flex-1 flex items-center justify-center relative p-4">
-								<div className="w-full max-w-sm relative">
-									<Avatar
-										gestureType={gestureType}
-										isPersonDetected={!!isPersonDetected}
-										className="w-full h-full"
-									/>
+						{/* Interactive Avatar Card - Large */}
+						<div className="lg:col-start-2 lg:col-end-3 lg:row-start-1 lg:row-end-4">
+							<div className="h-full bg-white rounded-xl border border-gray-200/50 shadow-lg p-6 flex flex-col overflow-hidden">
+								<div className="flex items-center gap-3 mb-4">
+									<FileTextIcon className="h-6 w-6 text-gray-700" />
+									<h3 className="text-lg font-semibold text-gray-900">{t("avatar.title")}</h3>
+									<PersonalitySelect personality={personality} className="ms-auto" />
+									<SpeechToggle speech={speech} />
+								</div>
+								<p className="text-sm text-gray-600 mb-6">{t("avatar.description")}</p>
+								{(animations.error || animations.missing.length > 0) && (
+									<p className="text-xs text-red-600 -mt-4 mb-2" title={animations.error ?? undefined}>
+										{animations.error
+											? t("animation.loadFailed")
+											: t("animation.missing", { names: animations.missing.join(", ") })}
+									</p>
+								)}
+								<div className="flex-1 flex items-center justify-center relative p-4">
+									<div className="w-full max-w-sm relative">
+										<Avatar
+											response={avatarResponse}
+											isPersonDetected={visitor.isPresent}
+											people={people}
+											appearance={personality.personality.appearance}
+											lipSync={speech.lipSync}
+											isSpeaking={!!speech.speaking}
+											gaze={gaze}
+											animations={animations.animations}
+											className="w-full h-full"
+										/>
+									</div>
 								</div>
 							</div>
 						</div>
-					</div>
 
-					{/* Gesture Status Card */}
-					<div className="lg:col-start-1 lg:col-end-2 lg:row-start-3 lg:row-end-4">
-						<div className="h-full bg-white rounded-xl border border-gray-200/50 shadow-lg p-6 flex flex-col">
-							<div className="flex items-center gap-3 mb-3">
-								<GlobeIcon className="h-6 w-6 text-gray-700" />
-								<h3 className="text-lg font-semibold text-gray-900">Gesture Status</h3>
-							</div>
-							<p className="text-sm text-gray-600 mb-6">Current gesture detection and feedback</p>
-							<div className="flex-1 flex items-center justify-center">
-								<div className="text-center">
-									<div 
-										className="text-6xl mb-3"
-										ref={scope}
-									>
-										{emojiLabel === "None" ? "🤷" : 
-										 emojiLabel === "Thumb_Up" ? "👍" : 
-										 emojiLabel === "Thumb_Down" ? "👎" : 
-										 emojiLabel === "Closed_Fist" ? "✊" : 
-										 emojiLabel === "Open_Palm" ? "🖐️" : 
-										 emojiLabel === "Pointing_Up" ? "😍" : 
-										 emojiLabel === "Victory" ? "✌️" : 
-										 emojiLabel === "OK" ? "👌" : 
-										 emojiLabel === "ILoveYou" ? "🤟" : "🤷"}
+						{/* Gesture Status Card */}
+						<div className="lg:col-start-1 lg:col-end-2 lg:row-start-3 lg:row-end-4">
+							<div className="h-full bg-white rounded-xl border border-gray-200/50 shadow-lg p-6 flex flex-col">
+								<div className="flex items-center gap-3 mb-3">
+									<GlobeIcon className="h-6 w-6 text-gray-700" />
+									<h3 className="text-lg font-semibold text-gray-900">{t("gestureStatus.title")}</h3>
+								</div>
+								<p className="text-sm text-gray-600 mb-6">{t("gestureStatus.description")}</p>
+								<div className="flex-1 flex items-center justify-center">
+									<div className="text-center">
+										<div className="text-6xl mb-3" ref={scope}>
+											{GESTURE_EMOJIS[gestureType]}
+										</div>
+										<p className="text-sm font-medium text-gray-600">
+											{gestureType === "None"
+												? t("gestureStatus.none")
+												: gestureType === "ILoveYou"
+													? t("gestureStatus.iLoveYou")
+													: t("gestureStatus.detected", { gesture: gestureType })}
+										</p>
 									</div>
-									<p className="text-sm font-medium text-gray-600">
-										{emojiLabel === "None" 
-											? "No gesture detected" 
-											: emojiLabel === "Pointing_Up"
-											? "We love you Andre 💕"
-											: emojiLabel === "ILoveYou"
-											? "I love you too! 💕"
-											: `${emojiLabel} detected`
-										}
-									</p>
 								</div>
 							</div>
 						</div>
-					</div>
 
-					{/* Notice Board Card */}
-					<div className="lg:col-start-3 lg:col-end-4 lg:row-start-1 lg:row-end-2">
-						<div className="h-full bg-white rounded-xl border border-gray-200/50 shadow-lg p-6 flex flex-col">
-							<div className="flex items-center gap-3 mb-4">
-								<FileTextIcon className="h-6 w-6 text-gray-700" />
-								<h3 className="text-lg font-semibold text-gray-900">Notice Board</h3>
+						{/* Notice Board Card */}
+						<div className="lg:col-start-3 lg:col-end-4 lg:row-start-1 lg:row-end-2">
+							<div className="h-full bg-white rounded-xl border border-gray-200/50 shadow-lg p-6 flex flex-col">
+								<div className="flex items-center gap-3 mb-4">
+									<FileTextIcon className="h-6 w-6 text-gray-700" />
+									<h3 className="text-lg font-semibold text-gray-900">{t("noticeBoard.title")}</h3>
+								</div>
+								<NoticeBoard notices={notices} className="flex-1 min-h-0 overflow-y-auto" />
 							</div>
-							<p className="text-sm text-gray-600">Upcoming events and announcements</p>
 						</div>
-					</div>
 
-					{/* Log Card */}
-					<div className="lg:col-start-3 lg:col-end-4 lg:row-start-2 lg:row-end-4">
-						<div className="h-full bg-white rounded-xl border border-gray-200/50 shadow-lg p-6 flex flex-col">
-							<div className="flex items-center gap-3 mb-4">
-								<GlobeIcon className="h-6 w-6 text-gray-700" />
-								<h3 className="text-lg font-semibold text-gray-900">Log</h3>
-							</div>
-							<p className="text-sm text-gray-600 mb-6">Avatar status and system information</p>
-							<div className="flex-1 flex items-center justify-center">
-								<div className="bg-gray-50 rounded-lg p-4 w-full">
-									<div className="space-y-2 text-sm">
-										<div className="flex justify-between">
-											<span className="font-medium text-gray-700">State:</span>
-											<span className="text-gray-900">
-												{isPersonDetected ? "active" : "idle"}
-											</span>
-										</div>
-										<div className="flex justify-between">
-											<span className="font-medium text-gray-700">Mood:</span>
-											<span className="text-gray-900">
-												{gestureType === "Thumb_Up" ? "happy" : 
-												 gestureType === "Thumb_Down" ? "sad" : 
-												 gestureType === "Victory" ? "excited" : 
-												 gestureType === "Closed_Fist" ? "angry" : 
-												 gestureType === "Open_Palm" ? "calm" : 
-												 gestureType === "Pointing_Up" ? "loving" : 
-												 gestureType === "OK" ? "loving" : "bored"}
-											</span>
-										</div>
-										<div className="flex justify-between">
-											<span className="font-medium text-gray-700">Animation:</span>
-											<span className="text-gray-900">lookAround</span>
-										</div>
-										<div className="flex justify-between">
-											<span className="font-medium text-gray-700">Gesture:</span>
-											<span className="text-gray-900">
-												{emojiLabel === "None" ? "None" : emojiLabel}
-											</span>
+						{/* Log Card */}
+						<div className="lg:col-start-3 lg:col-end-4 lg:row-start-2 lg:row-end-4">
+							<div className="h-full bg-white rounded-xl border border-gray-200/50 shadow-lg p-6 flex flex-col">
+								<div className="flex items-center gap-3 mb-4">
+									<GlobeIcon className="h-6 w-6 text-gray-700" />
+									<h3 className="text-lg font-semibold text-gray-900">{t("log.title")}</h3>
+								</div>
+								<p className="text-sm text-gray-600 mb-6">{t("log.description")}</p>
+								<div className="flex-1 flex items-center justify-center">
+									<div className="bg-gray-50 rounded-lg p-4 w-full">
+										<div className="space-y-2 text-sm">
+											<div className="flex justify-between">
+												<span className="font-medium text-gray-700">{t("log.state")}</span>
+												<span className="text-gray-900">
+													{avatar.phase}
+													{avatar.queued.length > 0 && ` ${t("log.queued", { count: avatar.queued.length })}`}
+												</span>
+											</div>
+											<div className="flex justify-between">
+												<span className="font-medium text-gray-700">{t("log.mood")}</span>
+												<span className="text-gray-900">
+													{t("log.emotion", {
+														mood: avatarResponse.mood,
+														valence: emotion.valence.toFixed(2),
+														arousal: emotion.arousal.toFixed(2),
+													})}
+												</span>
+											</div>
+											<div className="flex justify-between">
+												<span className="font-medium text-gray-700">{t("log.animation")}</span>
+												<span className="text-gray-900">{avatarResponse.animation}</span>
+											</div>
+											<div className="flex justify-between">
+												<span className="font-medium text-gray-700">{t("log.gesture")}</span>
+												<span className="text-gray-900">
+													{gestureType === "None" ? t("log.none") : gestureType}
+												</span>
+											</div>
+											<div className="flex justify-between">
+												<span className="font-medium text-gray-700">{t("log.hands")}</span>
+												<span className="text-gray-900">
+													{hands.length === 0
+														? t("log.none")
+														: hands.map((hand) => `${hand.handedness}: ${hand.gesture}`).join(", ")}
+													{people > 1 && ` ${t("log.people", { count: people })}`}
+												</span>
+											</div>
+											<div className="flex justify-between">
+												<span className="font-medium text-gray-700">{t("log.faces")}</span>
+												<span className="text-gray-900">
+													{presence && presence.people > 0
+														? t("log.facesDetail", {
+																count: presence.people,
+																facing: presence.facing,
+																distance: presence.nearestDistance?.toFixed(1) ?? "?",
+															})
+														: t("log.none")}
+												</span>
+											</div>
+											<div className="flex justify-between">
+												<span className="font-medium text-gray-700">{t("log.zone")}</span>
+												<span className="text-gray-900">
+													{proximity.zone && proximity.distance !== null
+														? t("log.zoneDetail", {
+																zone: t(`zone.${proximity.zone}`),
+																distance: proximity.distance.toFixed(1),
+															})
+														: t("log.none")}
+												</span>
+											</div>
+											<div className="flex justify-between">
+												<span className="font-medium text-gray-700">{t("log.visitor")}</span>
+												<span className="text-gray-900">
+													{visitor.session
+														? `${t(`engagement.${visitor.session.engagement}`)} · ${t("log.visitorGestures", {
+																count: visitor.session.gestureCount,
+															})}`
+														: t("log.none")}
+												</span>
+											</div>
+											<div className="flex justify-between gap-3">
+												<span className="font-medium text-gray-700">{t("log.speech")}</span>
+												<span className="text-gray-900 truncate">
+													{speech.muted
+														? t("speech.muted")
+														: speech.speaking
+														? t("speech.speaking", { text: speech.speaking })
+														: t("speech.silent")}
+													{speech.queued.length > 0 && ` ${t("log.queued", { count: speech.queued.length })}`}
+												</span>
+											</div>
+											<div>
+												<span className="font-medium text-gray-700">{t("log.transitions")}</span>
+												<ul className="mt-1 space-y-0.5 text-xs text-gray-600">
+													{avatar.history
+														.slice(-4)
+														.reverse()
+														.map((transition) => (
+															<li key={`${transition.timestamp}-${transition.from}-${transition.to}`}>
+																{new Date(transition.timestamp).toLocaleTimeString(locale.translator.locale)} · {transition.from} →{" "}
+																{transition.to} ({transition.event})
+															</li>
+														))}
+												</ul>
+											</div>
 										</div>
+										<AnalyticsPanel analytics={analytics} className="mt-4 pt-3 border-t border-gray-200" />
 									</div>
 								</div>
 							</div>
 						</div>
+
+						{/* Recording Card */}
+						<div className="lg:col-start-1 lg:col-end-4 lg:row-start-4 lg:row-end-5">
+							<RecordingPanel recorder={recorder} />
+						</div>
+
+						{/* Replay Card */}
+						<div className="lg:col-start-1 lg:col-end-4 lg:row-start-5 lg:row-end-6">
+							<ReplayPanel replay={replay} recordings={recorder.recordings} />
+						</div>
 					</div>
 				</div>
-			</div>
-		</main>
+			</main>
+		</TranslatorContext.Provider>
 	);
 }
 
@@ -0,0 +1,109 @@
+import { DownloadIcon } from "@radix-ui/react-icons";
+import type useAnalytics from "../../hooks/useAnalytics";
+import useTranslation from "../../hooks/useTranslation";
+import { Button } from "../ui/button";
+
+interface AnalyticsPanelProps {
+	analytics: ReturnType<typeof useAnalytics>;
+	className?: string;
+}
+
+/**
+ * Aggregates of the recorded interactions: visitors, visit length, gestures and visitors per hour of the day, with
+ * the export and clear controls
+ */
+export default function AnalyticsPanel({ analytics, className = "" }: AnalyticsPanelProps) {
+	const { t, locale } = useTranslation();
+	const { summary, events } = analytics;
+	const busiestHour = Math.max(1, ...summary.engagementsByHour);
+	const formatDuration = (ms: number) => {
+		const seconds = Math.round(ms / 1000);
+		return t("analytics.duration", { minutes: Math.floor(seconds / 60), seconds: seconds % 60 });
+	};
+
+	return (
+		<div className={`text-sm ${className}`}>
+			<div className="flex items-center justify-between gap-2">
+				<span className="font-medium text-gray-700">{t("analytics.title")}</span>
+				{summary.since !== null && (
+					<span className="text-xs text-gray-500">
+						{t("analytics.since", { date: new Date(summary.since).toLocaleDateString(locale) })}
+					</span>
+				)}
+			</div>
+
+			{events.length === 0 ? (
+				<p className="mt-1 text-xs text-gray-500">{t("analytics.empty")}</p>
+			) : (
+				<div className="mt-1 space-y-1">
+					<div className="flex justify-between">
+						<span className="text-gray-700">{t("analytics.sessions")}</span>
+						<span className="text-gray-900">{summary.sessions}</span>
+					</div>
+					<div className="flex justify-between">
+						<span className="text-gray-700">{t("analytics.averageSession")}</span>
+						<span className="text-gray-900">
+							{summary.averageSessionMs === null ? t("log.none") : formatDuration(summary.averageSessionMs)}
+						</span>
+					</div>
+					<div className="flex justify-between gap-3">
+						<span className="text-gray-700">{t("analytics.gestures")}</span>
+						<span className="text-gray-900 truncate">
+							{summary.gestures}
+							{summary.topGestures.length > 0 &&
+								` (${summary.topGestures
+									.slice(0, 3)
+									.map(({ gesture, count }) => `${gesture} ${count}`)
+									.join(", ")})`}
+						</span>
+					</div>
+					<div className="flex justify-between gap-3">
+						<span className="text-gray-700">{t("analytics.engagement")}</span>
+						<span className="text-gray-900 truncate">
+							{(["passive", "interacting", "highlyEngaged"] as const)
+								.map((level) => `${t(`engagement.${level}`)} ${summary.engagement[level]}`)
+								.join(", ")}
+						</span>
+					</div>
+					<div>
+						<span className="text-xs text-gray-600">{t("analytics.byHour")}</span>
+						<div className="mt-1 flex items-end gap-px h-10" dir="ltr">
+							{summary.engagementsByHour.map((count, hour) => (
+								<div
+									// biome-ignore lint/suspicious/noArrayIndexKey: the hours are fixed
+									key={hour}
+									className="flex-1 bg-sky-400 rounded-t-sm min-h-px"
+									style={{ height: `${(count / busiestHour) * 100}%` }}
+									title={t("analytics.hour", { hour, count })}
+								/>
+							))}
+						</div>
+					</div>
+				</div>
+			)}
+
+			<div className="mt-2 flex flex-wrap items-center gap-2">
+				<Button
+					size="sm"
+					variant="outline"
+					disabled={events.length === 0}
+					onClick={() => analytics.exportEvents("csv")}
+				>
+					<DownloadIcon className="me-2 h-4 w-4" /> CSV
+				</Button>
+				<Button
+					size="sm"
+					variant="outline"
+					disabled={events.length === 0}
+					onClick={() => analytics.exportEvents("json")}
+				>
+					<DownloadIcon className="me-2 h-4 w-4" /> JSON
+				</Button>
+				<Button size="sm" variant="ghost" disabled={events.length === 0} onClick={analytics.clear}>
+					{t("analytics.clear")}
+				</Button>
+			</div>
+			<p className="mt-1 text-xs text-gray-500">{t("analytics.privacy")}</p>
+		</div>
+	);
+}
@@ -1,83 +1,90 @@
-import { motion, AnimatePresence } from 'framer-motion';
-import { useEffect, useState } from 'react';
+import { motion, useAnimationFrame, useMotionValue } from 'framer-motion';
 import type { AvatarProps, AvatarState, AvatarMood } from '../../types/avatar';
-import { getAvatarResponse, getRandomIdleAnimation } from './AvatarStates';
+import useTranslation from '../../hooks/useTranslation';
 import { 
-	getAnimationVariant, 
+	BUILT_IN_ANIMATIONS,
 	getMoodColor, 
 	getStateBackground 
 } from './AvatarAnimations';
+import AvatarCharacter from './AvatarCharacter';
+import { getResponseMessage } from './AvatarStates';
+import SpriteAnimation from './SpriteAnimation';
 
 /**
  * Interactive Avatar Component
- * Responds to MediaPipe gesture detection with animations and state changes
+ * Renders the response chosen by the avatar state machine with animations and state changes
  */
-export default function Avatar({ gestureType, isPersonDetected, className = '' }: AvatarProps) {
-	const [currentAnimation, setCurrentAnimation] = useState('idle');
-	const [currentMessage, setCurrentMessage] = useState('Hello! I\'m your interactive avatar 👋');
-	const [isAnimating, setIsAnimating] = useState(false);
-
-	// Get avatar response based on gesture and person detection
-	const response = getAvatarResponse(gestureType, isPersonDetected);
-
-	// Update animation when gesture changes
-	useEffect(() => {
-		if (isAnimating) return; // Prevent animation interruption
-
-		setIsAnimating(true);
-		setCurrentAnimation(response.animation);
-		setCurrentMessage(response.message);
-
-		// Reset animation state after duration
-		const timer = setTimeout(() => {
-			setIsAnimating(false);
-			// If no person detected, cycle through idle animations
-			if (!isPersonDetected) {
-				const randomIdle = getRandomIdleAnimation();
-				setCurrentAnimation(randomIdle);
-			}
-		}, response.duration);
-
-		return () => clearTimeout(timer);
-	}, [gestureType, isPersonDetected, response, isAnimating]);
+export default function Avatar({
+	response,
+	isPersonDetected,
+	people = 1,
+	appearance,
+	lipSync,
+	isSpeaking = false,
+	gaze,
+	animations = BUILT_IN_ANIMATIONS,
+	className = ''
+}: AvatarProps) {
+	const translator = useTranslation();
+	const clip = animations.resolve(response.animation);
+	const currentMessage = getResponseMessage(response, translator);
 
 	// Get current state and mood
 	const currentState: AvatarState = response.state;
 	const currentMood: AvatarMood = response.mood;
 
+	// The speaking pulse follows the mouth through motion values, so it never competes with the gesture animations
+	const speakingOpacity = useMotionValue(0);
+	const speakingScale = useMotionValue(1);
+	useAnimationFrame(() => {
+		if (!isSpeaking && speakingOpacity.get() === 0) return;
+		const openness = isSpeaking && lipSync ? lipSync.getFrame(performance.now()).openness : 0;
+		speakingOpacity.set(openness * 0.6);
+		speakingScale.set(1 + openness * 0.08);
+	});
+
 	return (
 		<div className={`flex flex-col items-center justify-center p-4 w-full h-full ${className}`}>
 			{/* Avatar Character */}
 			<motion.div
 				className={`
-					relative w-40 h-40 rounded-full flex items-center justify-center text-8xl
+					relative w-40 h-40 rounded-full flex items-center justify-center
 					${getStateBackground(currentState)}
 					shadow-lg border-4 border-white
 					transition-all duration-300
 				`}
-				variants={getAnimationVariant(currentAnimation)}
-				animate={currentAnimation}
+				variants={animations.getPartVariants('body')}
+				animate={clip.name}
 				whileHover={{ scale: 1.05 }}
 				whileTap={{ scale: 0.95 }}
 			>
-				{/* Avatar Face/Character */}
-				<AnimatePresence mode="wait">
-					<motion.div
-						key={`${currentState}-${currentMood}`}
-						initial={{ opacity: 0, scale: 0.8 }}
-						animate={{ opacity: 1, scale: 1 }}
-						exit={{ opacity: 0, scale: 0.8 }}
-						transition={{ duration: 0.3 }}
-						className={`${getMoodColor(currentMood)}`}
-					>
-						{getAvatarEmoji(currentState, currentMood)}
-					</motion.div>
-				</AnimatePresence>
+				{/* Speaking Pulse */}
+				<motion.div
+					className="absolute inset-0 rounded-full border-4 border-sky-300 pointer-events-none"
+					style={{ opacity: speakingOpacity, scale: speakingScale }}
+				/>
+
+				{/* Avatar Character, or the sprite sheet playing in its place */}
+				{clip.type === 'sprite' ? (
+					<SpriteAnimation key={clip.name} clip={clip} className="w-full" />
+				) : (
+					<AvatarCharacter
+						state={currentState}
+						mood={currentMood}
+						animation={clip.name}
+						animations={animations}
+						appearance={appearance}
+						lipSync={lipSync}
+						isSpeaking={isSpeaking}
+						gaze={gaze}
+						className="w-full h-full"
+					/>
+				)}
 
 				{/* Status Indicator */}
 				<motion.div
 					className={`
-						absolute -top-2 -right-2 w-6 h-6 rounded-full
+						absolute -top-2 -end-2 w-6 h-6 rounded-full
 						${getStatusIndicatorColor(currentState)}
 						border-2 border-white
 					`}
@@ -124,9 +131,9 @@ export default function Avatar({ gestureType, isPersonDetected, className = '' }
 					transition={{ delay: 0.5 }}
 				>
 					{isPersonDetected ? (
-						<span className="text-green-600">👤 Person detected</span>
+						<span className="text-green-600">{translator.t('avatar.status.people', { count: people })}</span>
 					) : (
-						<span className="text-gray-500">💤 Sleeping...</span>
+						<span className="text-gray-500">{translator.t('avatar.status.sleeping')}</span>
 					)}
 				</motion.div>
 			</motion.div>
@@ -135,48 +142,6 @@ export default function Avatar({ gestureType, isPersonDetected, className = '' }
 	);
 }
 
-/**
- * Get avatar emoji based on state and mood
- */
-function getAvatarEmoji(state: AvatarState, mood: AvatarMood): string {
-	const emojiMap = {
-		idle: {
-			happy: '😊',
-			neutral: '😐',
-			sad: '😔',
-			excited: '🤩',
-			defensive: '😠',
-			bored: '😴'
-		},
-		active: {
-			happy: '😄',
-			neutral: '🙂',
-			sad: '😢',
-			excited: '🤗',
-			defensive: '😤',
-			bored: '😑'
-		},
-		defensive: {
-			happy: '😅',
-			neutral: '😐',
-			sad: '😰',
-			excited: '😳',
-			defensive: '😡',
-			bored: '😒'
-		},
-		thinking: {
-			happy: '🤔',
-			neutral: '🤔',
-			sad: '😔',
-			excited: '🤯',
-			defensive: '😠',
-			bored: '😑'
-		}
-	};
-
-	return emojiMap[state]?.[mood] || '🤖';
-}
-
 /**
  * Get status indicator color based on state
  */
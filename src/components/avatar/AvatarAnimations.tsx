@@ -1,3 +1,6 @@
+import type { Transition } from 'framer-motion';
+import AnimationRegistry from '../../lib/AnimationRegistry';
+import type { AnimationParts, VariantClip } from '../../types/animation';
 import type { AnimationVariants } from '../../types/avatar';
 
 /**
@@ -56,6 +59,27 @@ export const avatarVariants: AnimationVariants = {
 		}
 	},
 
+	// Sleep after a long time without anyone around
+	sleep: {
+		scale: [1, 0.95, 1],
+		rotate: [10, 12, 10],
+		transition: {
+			duration: 4,
+			repeat: Number.POSITIVE_INFINITY,
+			ease: 'easeInOut'
+		}
+	},
+
+	// Wake up when someone shows up while sleeping
+	wake: {
+		scale: [0.95, 1.25, 1],
+		rotate: [10, -10, 0],
+		transition: {
+			duration: 1.2,
+			ease: 'easeOut'
+		}
+	},
+
 	// Active gesture responses
 	wave: {
 		rotate: [0, 20, -20, 15, -15, 0],
@@ -122,6 +146,16 @@ export const avatarVariants: AnimationVariants = {
 		}
 	},
 
+	// Lean in to draw passers-by closer
+	beckon: {
+		scale: [1, 1.1, 1, 1.1, 1],
+		rotate: [0, -6, 0, -6, 0],
+		transition: {
+			duration: 2,
+			ease: 'easeInOut'
+		}
+	},
+
 	// Defensive animations
 	defensive: {
 		scale: [1, 0.95, 1],
@@ -160,6 +194,65 @@ export const avatarVariants: AnimationVariants = {
 	}
 };
 
+/**
+ * Arm poses per animation, in degrees from hanging down, positive angles swinging the hand toward the
+ * viewer's left. Animations without a pose keep the arms at rest.
+ */
+const armPoses: Record<string, { left: number | number[]; right: number | number[]; transition?: Transition }> = {
+	stretch: { left: [25, 170, 170, 25], right: [-25, -170, -170, -25], transition: { duration: 2.5 } },
+	yawn: { left: 25, right: [-25, 160, 160, -25], transition: { duration: 2 } },
+	wake: { left: [25, 90, 25], right: [-25, -90, -25], transition: { duration: 0.6 } },
+	wave: { left: 25, right: [-150, -115, -150, -115, -150], transition: { duration: 2, ease: 'easeInOut' } },
+	thumbsUp: { left: 25, right: -135 },
+	thumbsDown: { left: 25, right: -45 },
+	victory: { left: 150, right: -150 },
+	pointAcknowledge: { left: 25, right: -100 },
+	excited: { left: [60, 130, 60], right: [-60, -130, -60], transition: { duration: 0.6, repeat: 2 } },
+	hearts: { left: 160, right: -160 },
+	beckon: { left: 25, right: [-90, -150, -90, -150, -90], transition: { duration: 2, ease: 'easeInOut' } },
+	defensive: { left: -40, right: 40 },
+	shield: { left: -60, right: 60 },
+	backAway: { left: [-30, -20, -30], right: [30, 20, 30], transition: { duration: 0.5, repeat: 3 } },
+	concerned: { left: -25, right: 25 }
+};
+
+/**
+ * The parts at rest, while a clip does not animate them
+ */
+export const REST_PARTS: AnimationParts = {
+	body: { scale: 1, rotate: 0, x: 0, y: 0, transition: { duration: 0.4 } },
+	leftArm: { rotate: 25, transition: { duration: 0.4 } },
+	rightArm: { rotate: -25, transition: { duration: 0.4 } },
+	pupils: { x: 0, transition: { duration: 0.3 } }
+};
+
+/**
+ * The built-in clips: the avatar variants, with the arm poses and, while looking around, the pupils darting around
+ */
+export const BUILT_IN_CLIPS: VariantClip[] = Object.entries(avatarVariants).map(([name, variant]) => {
+	const pose = armPoses[name];
+	const transition = pose?.transition ?? { duration: 0.4 };
+	return {
+		type: 'variant',
+		name,
+		parts: {
+			body: variant,
+			...(pose && {
+				leftArm: { rotate: pose.left, transition },
+				rightArm: { rotate: pose.right, transition }
+			}),
+			...(name === 'lookAround' && {
+				pupils: { x: [0, -5, 5, -3, 0], transition: { duration: 3, ease: 'easeInOut' } }
+			})
+		}
+	};
+});
+
+/**
+ * The built-in animations, before the clips in `public/animations` are loaded
+ */
+export const BUILT_IN_ANIMATIONS = new AnimationRegistry(BUILT_IN_CLIPS, REST_PARTS);
+
 /**
  * Mood-based color variants
  */
@@ -167,6 +260,7 @@ export const moodColors = {
 	happy: 'text-green-500',
 	neutral: 'text-blue-500',
 	sad: 'text-gray-500',
+	wary: 'text-orange-500',
 	excited: 'text-yellow-500',
 	defensive: 'text-red-500',
 	bored: 'text-gray-400'
@@ -182,13 +276,6 @@ export const stateBackgrounds = {
 	thinking: 'bg-gradient-to-br from-purple-100 to-purple-200'
 };
 
-/**
- * Get animation variant by name
- */
-export function getAnimationVariant(animationName: string) {
-	return avatarVariants[animationName] || avatarVariants.idle;
-}
-
 /**
  * Get mood color class
  */
@@ -0,0 +1,255 @@
+import { type Variants, motion, useAnimationFrame, useMotionValue } from "framer-motion";
+import { useEffect, useState } from "react";
+import type AnimationRegistry from "../../lib/AnimationRegistry";
+import type { AvatarAppearance, AvatarMood, AvatarState, Gaze, GazeSource } from "../../types/avatar";
+import type { LipSyncFrame, LipSyncSource } from "../../types/speech";
+
+interface AvatarCharacterProps {
+	state: AvatarState;
+	mood: AvatarMood;
+	/**
+	 * The clip being played, and the clips its part variants come from. The parts pick it up from the parent's
+	 * animation.
+	 */
+	animation: string;
+	animations: AnimationRegistry;
+	appearance?: AvatarAppearance;
+	lipSync?: LipSyncSource;
+	isSpeaking?: boolean;
+	gaze?: GazeSource;
+	className?: string;
+}
+
+/**
+ * Face parameters of a mood: how open the eyes are, the angle of the brows (positive frowns) and their lift, and
+ * how much the mouth curves up.
+ */
+interface FaceParams {
+	eyeOpenness: number;
+	browAngle: number;
+	browLift: number;
+	smile: number;
+}
+
+const MOOD_FACES: Record<AvatarMood, FaceParams> = {
+	happy: { eyeOpenness: 1, browAngle: 0, browLift: 2, smile: 10 },
+	neutral: { eyeOpenness: 1, browAngle: 0, browLift: 0, smile: 2 },
+	sad: { eyeOpenness: 0.8, browAngle: -14, browLift: 1, smile: -8 },
+	wary: { eyeOpenness: 0.6, browAngle: 8, browLift: 0, smile: -2 },
+	excited: { eyeOpenness: 1.15, browAngle: 0, browLift: 6, smile: 14 },
+	defensive: { eyeOpenness: 0.7, browAngle: 20, browLift: -2, smile: -6 },
+	bored: { eyeOpenness: 0.45, browAngle: -4, browLift: -3, smile: 0 },
+};
+
+const DEFAULT_APPEARANCE: Required<AvatarAppearance> = { skin: "#fcd34d", body: "#60a5fa" };
+const OUTLINE = "#1f2937";
+
+const EYES = [
+	{ cx: 78, browRotation: 1 },
+	{ cx: 122, browRotation: -1 },
+];
+const EYE_Y = 86;
+const MOUTH_Y = 120;
+
+const CLOSED_MOUTH: LipSyncFrame = { shape: "closed", openness: 0 };
+
+/**
+ * Thinking looks up and away.
+ */
+const THINKING_GAZE: Gaze = { x: 0.6, y: -0.8 };
+
+/**
+ * How far the pupils move within the eyes, and the face turns and tilts with the head, at the limits of the gaze.
+ */
+const PUPIL_RANGE = { x: 5, y: 6 };
+const HEAD_RANGE = { x: 8, y: 5, rotate: 6 };
+
+/**
+ * Blinks every 2 to 6 seconds.
+ */
+const BLINK_MIN_MS = 2000;
+const BLINK_MAX_MS = 6000;
+const BLINK_MS = 150;
+
+/**
+ * The avatar character, drawn in layers so the eyes, brows, mouth and arms animate separately: the arms and pupils
+ * follow the avatar's animation, the eyes and brows its mood, and the mouth the message being spoken.
+ */
+export default function AvatarCharacter({
+	state,
+	mood,
+	animation,
+	animations,
+	appearance,
+	lipSync,
+	isSpeaking = false,
+	gaze,
+	className = "",
+}: AvatarCharacterProps) {
+	const { skin, body } = { ...DEFAULT_APPEARANCE, ...appearance };
+	const face = MOOD_FACES[mood] ?? MOOD_FACES.neutral;
+	const asleep = animation === "sleep";
+	const blinking = useBlink(!asleep) || animation === "blink";
+
+	const eyeScale = asleep || blinking ? 0.1 : face.eyeOpenness;
+
+	// The mouth, pupils and head follow the speech and the gaze through motion values, without re-rendering
+	const mouth = useMotionValue(getMouthPath(getRestMouth(animation), face.smile));
+	const pupilX = useMotionValue(0);
+	const pupilY = useMotionValue(0);
+	const headX = useMotionValue(0);
+	const headY = useMotionValue(0);
+	const headRotate = useMotionValue(0);
+	useAnimationFrame(() => {
+		const now = performance.now();
+		const frame = isSpeaking && lipSync ? lipSync.getFrame(now) : getRestMouth(animation);
+		mouth.set(getMouthPath(frame, isSpeaking ? face.smile / 2 : face.smile));
+
+		// Read the gaze even while thinking, so it keeps following in the background
+		const tracked = gaze?.getGaze(now) ?? { x: 0, y: 0 };
+		const look = state === "thinking" ? THINKING_GAZE : tracked;
+		pupilX.set(look.x * PUPIL_RANGE.x);
+		pupilY.set(look.y * PUPIL_RANGE.y);
+		headX.set(tracked.x * HEAD_RANGE.x);
+		headY.set(tracked.y * HEAD_RANGE.y);
+		headRotate.set(tracked.x * HEAD_RANGE.rotate);
+	});
+
+	return (
+		<svg viewBox="0 0 200 200" className={className} aria-hidden="true">
+			{/* Body */}
+			<ellipse cx={100} cy={168} rx={42} ry={26} fill={body} stroke={OUTLINE} strokeWidth={3} />
+
+			{/* Head, the face turns toward where the avatar looks */}
+			<motion.g style={{ rotate: headRotate, originX: 0.5, originY: 1 }}>
+				<circle cx={100} cy={90} r={54} fill={skin} stroke={OUTLINE} strokeWidth={3} />
+				<motion.g style={{ x: headX, y: headY }}>
+					{/* Cheeks */}
+					<motion.g
+						initial={false}
+						animate={{ opacity: mood === "happy" || mood === "excited" ? 0.5 : 0 }}
+						transition={{ duration: 0.4 }}
+					>
+						<circle cx={68} cy={110} r={8} fill="#f472b6" />
+						<circle cx={132} cy={110} r={8} fill="#f472b6" />
+					</motion.g>
+
+					{EYES.map(({ cx, browRotation }) => (
+						<g key={cx}>
+							{/* Eye */}
+							<motion.g initial={false} animate={{ scaleY: eyeScale }} transition={{ duration: blinking ? 0.06 : 0.3 }}>
+								<ellipse cx={cx} cy={EYE_Y} rx={11} ry={13} fill="white" stroke={OUTLINE} strokeWidth={2} />
+								<motion.g variants={animations.getPartVariants("pupils")}>
+									<motion.circle cx={cx} cy={EYE_Y} r={6} fill={OUTLINE} style={{ x: pupilX, y: pupilY }} />
+								</motion.g>
+							</motion.g>
+
+							{/* Brow */}
+							<motion.path
+								d={`M ${cx - 10} ${EYE_Y - 20} L ${cx + 10} ${EYE_Y - 20}`}
+								stroke={OUTLINE}
+								strokeWidth={4}
+								strokeLinecap="round"
+								initial={false}
+								animate={{ rotate: face.browAngle * browRotation, y: -face.browLift }}
+								transition={{ duration: 0.3 }}
+							/>
+						</g>
+					))}
+
+					{/* Mouth */}
+					<motion.path d={mouth} fill="#7f1d1d" stroke={OUTLINE} strokeWidth={3} strokeLinejoin="round" />
+				</motion.g>
+			</motion.g>
+
+			{/* Arms, in front of the body so they can shield the face */}
+			<Arm shoulderX={62} color={skin} variants={animations.getPartVariants("leftArm")} />
+			<Arm shoulderX={138} color={skin} variants={animations.getPartVariants("rightArm")} />
+		</svg>
+	);
+}
+
+interface ArmProps {
+	shoulderX: number;
+	color: string;
+	variants: Variants;
+}
+
+/**
+ * An arm hanging from the shoulder, rotated around it by the arm variants.
+ */
+function Arm({ shoulderX, color, variants }: ArmProps) {
+	return (
+		<motion.g variants={variants} style={{ originX: 0.5, originY: 0 }}>
+			<line x1={shoulderX} y1={150} x2={shoulderX} y2={188} stroke={OUTLINE} strokeWidth={12} strokeLinecap="round" />
+			<line x1={shoulderX} y1={150} x2={shoulderX} y2={188} stroke={color} strokeWidth={7} strokeLinecap="round" />
+			<circle cx={shoulderX} cy={190} r={8} fill={color} stroke={OUTLINE} strokeWidth={2.5} />
+		</motion.g>
+	);
+}
+
+/**
+ * Blinks at random intervals while enabled.
+ * @returns Whether the eyes are closed for a blink.
+ */
+function useBlink(enabled: boolean): boolean {
+	const [blinking, setBlinking] = useState(false);
+
+	useEffect(() => {
+		if (!enabled) return;
+		let timeoutId: ReturnType<typeof setTimeout>;
+		const scheduleBlink = () => {
+			timeoutId = setTimeout(
+				() => {
+					setBlinking(true);
+					timeoutId = setTimeout(() => {
+						setBlinking(false);
+						scheduleBlink();
+					}, BLINK_MS);
+				},
+				BLINK_MIN_MS + Math.random() * (BLINK_MAX_MS - BLINK_MIN_MS),
+			);
+		};
+		scheduleBlink();
+		return () => {
+			clearTimeout(timeoutId);
+			setBlinking(false);
+		};
+	}, [enabled]);
+
+	return blinking;
+}
+
+/**
+ * Get the mouth while not speaking: wide open while yawning, closed otherwise.
+ */
+function getRestMouth(animation: string): LipSyncFrame {
+	return animation === "yawn" ? { shape: "round", openness: 1 } : CLOSED_MOUTH;
+}
+
+/**
+ * Get the SVG path of the mouth: the corners curve up by the smile, and the lips part by the openness, a wide
+ * mouth stretching and a round one narrowing.
+ * @param frame The mouth shape and openness.
+ * @param smile How far the corners are above the middle of the mouth.
+ */
+function getMouthPath({ shape, openness }: LipSyncFrame, smile: number): string {
+	let width = 36;
+	let height = 22;
+	if (shape === "wide") {
+		width += 10 * openness;
+		height = 12;
+	} else if (shape === "round") {
+		width -= 16 * openness;
+		height = 24;
+	}
+
+	const left = 100 - width / 2;
+	const right = 100 + width / 2;
+	const corners = MOUTH_Y - smile / 2;
+	const middle = MOUTH_Y + smile / 2;
+	// Quadratic curves reach halfway to their control point, hence the doubled offsets
+	const upper = middle * 2 - corners - height * openness * 0.3;
+	const lower = middle * 2 - corners + height * openness * 1.7;
+	return `M ${left} ${corners} Q 100 ${upper.toFixed(1)} ${right} ${corners} Q 100 ${lower.toFixed(1)} ${left} ${corners} Z`;
+}
@@ -0,0 +1,72 @@
+import { defaultProximityOptions } from "../../lib/constants";
+import { type JsonSchema, validateJsonSchema } from "../../lib/jsonSchema";
+import { fetchJson, isObject } from "../../lib/utils";
+import type { PersonalityIndexEntry, PersonalityProfile } from "../../types/avatar";
+import schema from "./personality.schema.json";
+
+/**
+ * Personality profiles loaded at runtime from `public/personalities`, validated against `personality.schema.json`
+ */
+
+/**
+ * Base URL of the personality index and profiles
+ */
+export const PERSONALITY_BASE_URL = `${import.meta.env.BASE_URL}personalities/`;
+
+/**
+ * Fetch the index of the available personality profiles
+ */
+export async function loadPersonalityIndex(baseUrl: string = PERSONALITY_BASE_URL): Promise<PersonalityIndexEntry[]> {
+	const index = await fetchJson(`${baseUrl}index.json`);
+	if (!Array.isArray(index)) {
+		throw new Error("Invalid personality index: expected an array");
+	}
+	return index.map((entry, i) => {
+		if (
+			!isObject(entry) ||
+			typeof entry.id !== "string" ||
+			typeof entry.name !== "string" ||
+			typeof entry.file !== "string"
+		) {
+			throw new Error(`Invalid personality index entry ${i}: missing id, name or file`);
+		}
+		return { id: entry.id, name: entry.name, file: entry.file };
+	});
+}
+
+/**
+ * Fetch and validate a personality profile, bypassing the HTTP cache so edited files apply without rebuilding
+ */
+export async function loadPersonality(
+	entry: PersonalityIndexEntry,
+	baseUrl: string = PERSONALITY_BASE_URL,
+): Promise<PersonalityProfile> {
+	return parsePersonality(await fetchJson(`${baseUrl}${entry.file}`));
+}
+
+/**
+ * Validate a personality profile against the schema, plus the constraints between fields it cannot express
+ * @throws If the profile is invalid, listing every problem
+ */
+export function parsePersonality(value: unknown): PersonalityProfile {
+	if (!isObject(value)) {
+		throw new Error("Invalid personality: expected an object");
+	}
+	const errors: string[] = [];
+	validateJsonSchema(value, schema as JsonSchema, errors);
+
+	const { thresholds, idle } = value as unknown as PersonalityProfile;
+	const { approachDistance, interactDistance } = { ...defaultProximityOptions, ...thresholds?.proximity };
+	if (interactDistance > approachDistance) {
+		errors.push("thresholds.proximity.interactDistance must not exceed approachDistance");
+	}
+	const { minIntervalMs, maxIntervalMs } = idle?.scheduler ?? {};
+	if (typeof minIntervalMs === "number" && typeof maxIntervalMs === "number" && minIntervalMs > maxIntervalMs) {
+		errors.push("idle.scheduler.minIntervalMs must not exceed maxIntervalMs");
+	}
+
+	if (errors.length > 0) {
+		throw new Error(`Invalid personality ${String(value.id ?? "")}: ${errors.join("; ")}`);
+	}
+	return value as unknown as PersonalityProfile;
+}
@@ -0,0 +1,156 @@
+import StateMachine from "../../lib/StateMachine";
+import type { AvatarContext, AvatarEvent, AvatarPhase, PersonalityProfile } from "../../types/avatar";
+import type { Notice } from "../../types/notice";
+import type { TransitionDefinition } from "../../types/stateMachine";
+import {
+	DEFAULT_PERSONALITY,
+	getAvatarResponse,
+	getIdleResponse,
+	getPromotionResponse,
+	getSpecialResponse,
+} from "./AvatarStates";
+
+/**
+ * Avatar interaction flow: idle (→ sleeping → waking) → greeting → engaged ⇄ reacting → farewell → idle
+ * Passers-by in the far zone are beckoned (idle or sleeping → attracting) until they approach and are greeted
+ * While idle or beckoning, the avatar calls out the current promotion of the notice board
+ */
+
+export type AvatarStateMachine = StateMachine<AvatarPhase, AvatarContext, AvatarEvent>;
+
+/**
+ * A visitor leaving interrupts any reaction
+ */
+const LEAVE_PRIORITY = 10;
+
+const react: TransitionDefinition<AvatarPhase, AvatarContext, AvatarEvent> = {
+	target: "reacting",
+	guard: (_context, event) => event.type === "GESTURE" && event.gesture !== "None",
+	action: (context, event) => {
+		if (event.type !== "GESTURE") return;
+		context.gesture = event.gesture;
+		context.response = event.response;
+		context.priority = event.priority;
+	},
+	priority: (_context, event) => (event.type === "GESTURE" ? event.priority : 0),
+};
+
+const arrive: TransitionDefinition<AvatarPhase, AvatarContext, AvatarEvent> = {
+	target: "greeting",
+	action: (context, event) => {
+		if (event.type === "PERSON_ARRIVED") context.people = event.people;
+	},
+};
+
+const leave: TransitionDefinition<AvatarPhase, AvatarContext, AvatarEvent> = {
+	target: "farewell",
+	priority: LEAVE_PRIORITY,
+};
+
+const attract: TransitionDefinition<AvatarPhase, AvatarContext, AvatarEvent> = {
+	target: "attracting",
+	guard: (_context, event) => event.type === "ZONE_CHANGED" && event.zone === "far",
+};
+
+/**
+ * Create the avatar state machine. Reactions to gestures of the same or lower priority wait for the current
+ * reaction to finish instead of being dropped, higher priority ones interrupt it.
+ * @param getPersonality Get the current personality, read whenever a state picks its response.
+ * @param getPromotion Get the promotion to call out, null if there is none.
+ */
+export function createAvatarStateMachine(
+	getPersonality: () => PersonalityProfile = () => DEFAULT_PERSONALITY,
+	getPromotion: () => Notice | null = () => null,
+): AvatarStateMachine {
+	return new StateMachine<AvatarPhase, AvatarContext, AvatarEvent>({
+		initial: "idle",
+		context: { response: getSpecialResponse("noPerson", getPersonality()), gesture: "None", priority: 0, people: 1 },
+		states: {
+			idle: {
+				entry: (context, event) => {
+					const promotion = getPromotion();
+					if (event?.type === "PROMOTION" && promotion) {
+						context.response = getPromotionResponse(promotion, getPersonality());
+						return;
+					}
+					context.response =
+						event?.type === "IDLE_BEHAVIOR"
+							? getIdleResponse(event.behavior, getPersonality())
+							: getSpecialResponse("noPerson", getPersonality());
+				},
+				on: {
+					PERSON_ARRIVED: arrive,
+					ZONE_CHANGED: attract,
+					PROMOTION: { target: "idle", guard: () => getPromotion() !== null },
+					IDLE_BEHAVIOR: [
+						{
+							target: "sleeping",
+							guard: (_context, event) => event.type === "IDLE_BEHAVIOR" && event.behavior === "sleep",
+						},
+						{ target: "idle" },
+					],
+				},
+			},
+			sleeping: {
+				entry: (context) => {
+					context.response = getIdleResponse("sleep", getPersonality());
+				},
+				on: { PERSON_ARRIVED: { ...arrive, target: "waking" }, ZONE_CHANGED: attract },
+			},
+			attracting: {
+				entry: (context) => {
+					const promotion = getPromotion();
+					context.response = promotion
+						? getPromotionResponse(promotion, getPersonality())
+						: getSpecialResponse("beckon", getPersonality());
+				},
+				// Beckons once per passer-by, the idle behaviors take over if they don't come closer
+				timeout: { after: (context) => context.response.duration, target: "idle" },
+				on: {
+					PERSON_ARRIVED: arrive,
+					ZONE_CHANGED: {
+						target: "idle",
+						guard: (_context, event) => event.type === "ZONE_CHANGED" && event.zone === null,
+					},
+				},
+			},
+			waking: {
+				entry: (context) => {
+					context.response = getSpecialResponse("wake", getPersonality());
+				},
+				timeout: { after: (context) => context.response.duration, target: "greeting" },
+				on: { PERSON_LEFT: { target: "idle" } },
+			},
+			greeting: {
+				entry: (context) => {
+					context.response =
+						context.people > 1
+							? getSpecialResponse("group", getPersonality(), { count: context.people })
+							: getSpecialResponse("greeting", getPersonality());
+				},
+				timeout: { after: (context) => context.response.duration, target: "engaged" },
+				on: { GESTURE: react, PERSON_LEFT: leave },
+			},
+			engaged: {
+				entry: (context) => {
+					context.gesture = "None";
+					context.response = getAvatarResponse("None", true, undefined, 1, getPersonality());
+					context.priority = 0;
+				},
+				on: { GESTURE: react, PERSON_LEFT: leave },
+			},
+			reacting: {
+				priority: (context) => context.priority + 1,
+				timeout: { after: (context) => context.response.duration, target: "engaged" },
+				on: { GESTURE: react, PERSON_LEFT: leave },
+			},
+			farewell: {
+				entry: (context) => {
+					context.response = getSpecialResponse("farewell", getPersonality());
+				},
+				timeout: { after: (context) => context.response.duration, target: "idle" },
+				on: { PERSON_ARRIVED: arrive },
+			},
+		},
+	});
+}
@@ -1,4 +1,20 @@
-import type { GestureType, GestureResponse } from '../../types/avatar';
+import type Translator from '../../lib/Translator';
+import type {
+	AvatarMood,
+	AvatarPhase,
+	AvatarState,
+	GestureResponse,
+	GestureSentiment,
+	GestureType,
+	IdleBehavior,
+	PersonalityProfile,
+	ResponseTemplate,
+	SpecialResponse
+} from '../../types/avatar';
+import type { Handedness } from '../../types/gesture';
+import type { TranslationParams } from '../../types/i18n';
+import type { Notice } from '../../types/notice';
+import type { ProximityZone } from '../../types/proximity';
 
 /**
  * Avatar state management and gesture response mapping
@@ -28,17 +44,17 @@ export const GESTURE_RESPONSES: Record<GestureType, GestureResponse> = {
 	},
 	Open_Palm: {
 		state: 'active',
-		mood: 'excited',
-		animation: 'wave',
-		duration: 2500,
-		message: 'Hello there! 👋'
+		mood: 'happy',
+		animation: 'pointAcknowledge',
+		duration: 1800,
+		message: 'I see you! 🖐️'
 	},
 	Pointing_Up: {
 		state: 'active',
 		mood: 'excited',
 		animation: 'hearts',
 		duration: 3000,
-		message: 'We love you Andre! 💕💕💕'
+		message: 'You point, I follow! ☝️💕'
 	},
 	Victory: {
 		state: 'active',
@@ -52,7 +68,7 @@ export const GESTURE_RESPONSES: Record<GestureType, GestureResponse> = {
 		mood: 'excited',
 		animation: 'hearts',
 		duration: 3000,
-		message: 'We love you Andre! 💕💕💕'
+		message: 'Everything is OK! 👌💕'
 	},
 	ILoveYou: {
 		state: 'active',
@@ -61,6 +77,97 @@ export const GESTURE_RESPONSES: Record<GestureType, GestureResponse> = {
 		duration: 3000,
 		message: 'I love you too! 🤟💕'
 	},
+	Wave: {
+		state: 'active',
+		mood: 'excited',
+		animation: 'wave',
+		duration: 2500,
+		message: 'Hello there! 👋'
+	},
+	Swipe_Left: {
+		state: 'active',
+		mood: 'neutral',
+		animation: 'lookAround',
+		duration: 1500,
+		message: 'Whoosh! 👈'
+	},
+	Swipe_Right: {
+		state: 'active',
+		mood: 'neutral',
+		animation: 'lookAround',
+		duration: 1500,
+		message: 'Whoosh! 👉'
+	},
+	Push: {
+		state: 'defensive',
+		mood: 'neutral',
+		animation: 'backAway',
+		duration: 2000,
+		message: 'Okay, okay, giving you some space!'
+	},
+	Pull: {
+		state: 'active',
+		mood: 'excited',
+		animation: 'excited',
+		duration: 1500,
+		message: 'Coming closer! 🤗'
+	},
+	Circle: {
+		state: 'active',
+		mood: 'excited',
+		animation: 'excited',
+		duration: 1500,
+		message: "Wheee, I'm getting dizzy! 🔄"
+	},
+	Middle_Finger: {
+		state: 'defensive',
+		mood: 'defensive',
+		animation: 'shield',
+		duration: 2500,
+		message: "Hey, that's not very nice! 🛡️"
+	},
+	Pinch: {
+		state: 'thinking',
+		mood: 'neutral',
+		animation: 'pointAcknowledge',
+		duration: 1800,
+		message: 'Just a tiny bit? 🤏'
+	},
+	Call_Me: {
+		state: 'active',
+		mood: 'happy',
+		animation: 'thumbsUp',
+		duration: 2000,
+		message: 'Call me maybe? 🤙'
+	},
+	Rock: {
+		state: 'active',
+		mood: 'excited',
+		animation: 'excited',
+		duration: 1500,
+		message: 'Rock on! 🤘'
+	},
+	Double_Thumbs_Up: {
+		state: 'active',
+		mood: 'excited',
+		animation: 'victory',
+		duration: 2500,
+		message: 'Double thumbs up?! You made my day! 👍👍'
+	},
+	Heart: {
+		state: 'active',
+		mood: 'excited',
+		animation: 'hearts',
+		duration: 3000,
+		message: 'Aww, right back at you! 🫶💕'
+	},
+	Clap: {
+		state: 'active',
+		mood: 'happy',
+		animation: 'excited',
+		duration: 1500,
+		message: 'Thank you, thank you! 👏'
+	},
 	None: {
 		state: 'idle',
 		mood: 'bored',
@@ -70,12 +177,182 @@ export const GESTURE_RESPONSES: Record<GestureType, GestureResponse> = {
 	}
 };
 
+/**
+ * Messages replacing the default one when a one-handed gesture is made with a specific hand
+ */
+export const HANDEDNESS_MESSAGES: Partial<Record<GestureType, Record<Handedness, string>>> = {
+	Thumb_Up: {
+		Left: 'A left-handed thumbs up, even better! 👍',
+		Right: 'Great job! 👍'
+	},
+	Open_Palm: {
+		Left: 'I see your left hand! 🖐️',
+		Right: 'I see your right hand! 🖐️'
+	},
+	Wave: {
+		Left: 'Hello there, lefty! 👋',
+		Right: 'Hello there! 👋'
+	}
+};
+
+/**
+ * Response while nobody is in view
+ */
+export const NO_PERSON_RESPONSE: GestureResponse = {
+	state: 'idle',
+	mood: 'bored',
+	animation: 'lookAround',
+	duration: 3000,
+	message: 'Looking for someone to interact with...'
+};
+
+/**
+ * Response when a visitor arrives
+ */
+export const GREETING_RESPONSE: GestureResponse = {
+	state: 'active',
+	mood: 'happy',
+	animation: 'wave',
+	duration: 2500,
+	message: 'Good {timeOfDay}! I\'m your interactive avatar 👋'
+};
+
+/**
+ * Response when the visitor leaves
+ */
+export const FAREWELL_RESPONSE: GestureResponse = {
+	state: 'active',
+	mood: 'neutral',
+	animation: 'wave',
+	duration: 2000,
+	message: 'Thanks for visiting {storeName}! Come back soon 👋'
+};
+
+/**
+ * Response when the visible hands belong to more than one person
+ */
+export const GROUP_RESPONSE: GestureResponse = {
+	state: 'active',
+	mood: 'excited',
+	animation: 'wave',
+	duration: 2500,
+	message: 'Oh, there are {count} of you! Hi everyone! 👋👋'
+};
+
+/**
+ * Responses to the idle behaviors picked by the idle scheduler
+ */
+export const IDLE_RESPONSES: Record<IdleBehavior, GestureResponse> = {
+	blink: {
+		state: 'idle',
+		mood: 'neutral',
+		animation: 'blink',
+		duration: 300,
+		message: 'Looking for someone to interact with...'
+	},
+	lookAround: {
+		state: 'idle',
+		mood: 'neutral',
+		animation: 'lookAround',
+		duration: 3000,
+		message: 'Anyone there? 👀'
+	},
+	yawn: {
+		state: 'idle',
+		mood: 'bored',
+		animation: 'yawn',
+		duration: 2000,
+		message: '*yawn* 🥱'
+	},
+	stretch: {
+		state: 'idle',
+		mood: 'bored',
+		animation: 'stretch',
+		duration: 2500,
+		message: 'Time for a little stretch... 🙆'
+	},
+	sleep: {
+		state: 'idle',
+		mood: 'bored',
+		animation: 'sleep',
+		duration: 4000,
+		message: 'Zzz... 💤'
+	}
+};
+
+/**
+ * Response when someone shows up while the avatar is asleep
+ */
+export const WAKE_RESPONSE: GestureResponse = {
+	state: 'thinking',
+	mood: 'excited',
+	animation: 'wake',
+	duration: 1200,
+	message: 'Huh? Oh! Someone\'s here! 😳'
+};
+
+/**
+ * Response while someone is in view but still far away, to draw them closer
+ */
+export const BECKON_RESPONSE: GestureResponse = {
+	state: 'active',
+	mood: 'excited',
+	animation: 'beckon',
+	duration: 3000,
+	message: 'Hey there! Come on over, I don\'t bite! 👋'
+};
+
+/**
+ * Response to a gesture made before the visitor is close enough to interact
+ */
+export const COME_CLOSER_RESPONSE: GestureResponse = {
+	state: 'thinking',
+	mood: 'happy',
+	animation: 'beckon',
+	duration: 2000,
+	message: 'Come a little closer so I can see your hands! 🤗'
+};
+
+/**
+ * Response calling out the current promotion of the notice board, while nobody interacts
+ */
+export const PROMOTION_RESPONSE: GestureResponse = {
+	state: 'active',
+	mood: 'excited',
+	animation: 'pointAcknowledge',
+	duration: 4000,
+	message: 'Psst! Have you heard? {title} ✨'
+};
+
+/**
+ * Built-in responses outside of gesture reactions
+ */
+export const SPECIAL_RESPONSES: Record<SpecialResponse, GestureResponse> = {
+	noPerson: NO_PERSON_RESPONSE,
+	greeting: GREETING_RESPONSE,
+	farewell: FAREWELL_RESPONSE,
+	group: GROUP_RESPONSE,
+	wake: WAKE_RESPONSE,
+	beckon: BECKON_RESPONSE,
+	comeCloser: COME_CLOSER_RESPONSE,
+	promotion: PROMOTION_RESPONSE
+};
+
+/**
+ * The built-in personality, every response falls back to the built-in defaults
+ */
+export const DEFAULT_PERSONALITY: PersonalityProfile = {
+	id: 'default',
+	name: 'Built-in'
+};
+
 export const IDLE_ANIMATIONS = [
 	'idle',
 	'lookAround',
 	'yawn',
 	'stretch',
-	'blink'
+	'blink',
+	'sleep'
 ] as const;
 
 export const DEFENSIVE_ANIMATIONS = [
@@ -91,42 +368,171 @@ export const ACTIVE_ANIMATIONS = [
 	'victory',
 	'pointAcknowledge',
 	'excited',
-	'hearts'
+	'hearts',
+	'beckon'
 ] as const;
 
 /**
- * Get avatar response based on gesture and person detection
+ * Turn a response template into a response, picking one of its messages at random.
+ * Built-in responses are localized by key, personality responses only when they set a `messageKey`.
+ */
+export function resolveResponse(template: ResponseTemplate, random: () => number = Math.random): GestureResponse {
+	const { messages, message = '', ...response } = template;
+	if (!messages?.length) return { ...response, message };
+	return { ...response, message: messages[Math.floor(random() * messages.length)] };
+}
+
+/**
+ * Get avatar response based on gesture, person detection, the hand making the gesture,
+ * how many people's hands are visible, the personality and the proximity zone of the visitor.
+ * Only visitors in the interact zone get the full gesture reactions, the others are asked to come closer.
  */
 export function getAvatarResponse(
 	gestureType: GestureType,
-	isPersonDetected: boolean
+	isPersonDetected: boolean,
+	handedness?: Handedness,
+	people = 1,
+	personality: PersonalityProfile = DEFAULT_PERSONALITY,
+	zone: ProximityZone | null = 'interact'
 ): GestureResponse {
 	if (!isPersonDetected) {
-		return {
-			state: 'idle',
-			mood: 'bored',
-			animation: 'lookAround',
-			duration: 3000,
-			message: 'Looking for someone to interact with...'
-		};
+		return getSpecialResponse('noPerson', personality);
+	}
+
+	if (gestureType !== 'None' && (zone === 'far' || zone === 'approach')) {
+		return getSpecialResponse('comeCloser', personality);
+	}
+
+	if (gestureType === 'None' && people > 1) {
+		return getSpecialResponse('group', personality, { count: people });
+	}
+
+	const template = personality.responses?.[gestureType];
+	const response = template
+		? resolveResponse(template)
+		: { ...GESTURE_RESPONSES[gestureType], messageKey: `avatar.gesture.${gestureType}` };
+	const handMessages = handedness && personality.handedMessages?.[gestureType]?.[handedness];
+	if (handMessages?.length) {
+		return resolveResponse({ ...response, messageKey: undefined, messages: handMessages });
+	}
+	const handMessage = handedness && !template && HANDEDNESS_MESSAGES[gestureType]?.[handedness];
+	return handMessage
+		? { ...response, message: handMessage, messageKey: `avatar.handed.${gestureType}.${handedness}` }
+		: response;
+}
+
+/**
+ * Get a response outside of gesture reactions from the personality, with the parameters of its message
+ */
+export function getSpecialResponse(
+	kind: SpecialResponse,
+	personality: PersonalityProfile = DEFAULT_PERSONALITY,
+	params?: TranslationParams
+): GestureResponse {
+	const template = personality.special?.[kind];
+	const response = template
+		? resolveResponse(template)
+		: { ...SPECIAL_RESPONSES[kind], messageKey: `avatar.special.${kind}` };
+	return params ? { ...response, messageParams: params } : response;
+}
+
+/**
+ * Get the response calling out a promotion from the personality, naming its title.
+ * The promotion's own callout replaces the message as written in the feed, it may name the title as well.
+ */
+export function getPromotionResponse(
+	promotion: Notice,
+	personality: PersonalityProfile = DEFAULT_PERSONALITY
+): GestureResponse {
+	const response = getSpecialResponse('promotion', personality, { title: promotion.title });
+	return promotion.callout ? { ...response, message: promotion.callout, messageKey: undefined } : response;
+}
+
+/**
+ * Get the response to an idle behavior from the personality
+ */
+export function getIdleResponse(
+	behavior: IdleBehavior,
+	personality: PersonalityProfile = DEFAULT_PERSONALITY
+): GestureResponse {
+	const template = personality.idle?.responses?.[behavior];
+	return template ? resolveResponse(template) : { ...IDLE_RESPONSES[behavior], messageKey: `avatar.idle.${behavior}` };
+}
+
+/**
+ * Get the names of every animation the responses can play: the built-in responses' and the personality's,
+ * e.g. to check that every one of them has a clip
+ */
+export function getResponseAnimations(personality: PersonalityProfile = DEFAULT_PERSONALITY): string[] {
+	const responses: Pick<GestureResponse, 'animation'>[] = [
+		...Object.values(GESTURE_RESPONSES),
+		...Object.values(SPECIAL_RESPONSES),
+		...Object.values(IDLE_RESPONSES),
+		...Object.values(personality.responses ?? {}),
+		...Object.values(personality.special ?? {}),
+		...Object.values(personality.idle?.responses ?? {})
+	];
+	return [
+		...new Set([
+			...responses.map((response) => response.animation),
+			...IDLE_ANIMATIONS,
+			...DEFENSIVE_ANIMATIONS,
+			...ACTIVE_ANIMATIONS
+		])
+	];
+}
+
+/**
+ * Get the response message in the current locale, falling back to the response's own message
+ */
+export function getResponseMessage(response: GestureResponse, translator: Translator): string {
+	if (response.messageKey && translator.has(response.messageKey)) {
+		return translator.t(response.messageKey, response.messageParams);
 	}
+	return translator.format(response.message, response.messageParams);
+}
+
+/**
+ * Show a response in the avatar's mood. While someone is around, the mood replaces the response's,
+ * and only an avatar defensive from repeated rude gestures takes a defensive stance.
+ */
+export function getEmotionalResponse(
+	response: GestureResponse,
+	mood: AvatarMood,
+	phase: AvatarPhase
+): GestureResponse {
+	// Nobody is around, the idle behaviors and the beckoning set the mood
+	if (phase === 'idle' || phase === 'sleeping' || phase === 'attracting') return response;
 
-	return GESTURE_RESPONSES[gestureType];
+	let state: AvatarState = response.state === 'defensive' ? 'thinking' : response.state;
+	if (mood === 'defensive') state = 'defensive';
+	else if (mood === 'wary') state = 'thinking';
+
+	return { ...response, state, mood };
+}
+
+/**
+ * Get the interrupt priority of a gesture reaction: defensive reactions interrupt friendly ones, never the other way
+ */
+export function getResponsePriority(gestureType: GestureType): number {
+	if (gestureType === 'None') return 0;
+	return isNegativeGesture(gestureType) ? 2 : 1;
 }
 
 /**
- * Get random idle animation for variety
+ * Get whether a gesture is friendly, rude or neither
  */
-export function getRandomIdleAnimation(): string {
-	const animations = IDLE_ANIMATIONS;
-	return animations[Math.floor(Math.random() * animations.length)];
+export function getGestureSentiment(gestureType: GestureType): GestureSentiment {
+	if (isPositiveGesture(gestureType)) return 'positive';
+	if (isNegativeGesture(gestureType)) return 'negative';
+	return 'neutral';
 }
 
 /**
  * Check if gesture is positive/friendly
  */
 export function isPositiveGesture(gestureType: GestureType): boolean {
-	const positiveGestures: GestureType[] = ['Thumb_Up', 'Open_Palm', 'Pointing_Up', 'Victory', 'ILoveYou'];
+	const positiveGestures: GestureType[] = ['Thumb_Up', 'Open_Palm', 'Pointing_Up', 'Victory', 'ILoveYou', 'Wave', 'Pull', 'Circle', 'Call_Me', 'Rock', 'Double_Thumbs_Up', 'Heart', 'Clap'];
 	return positiveGestures.includes(gestureType);
 }
 
@@ -134,6 +540,6 @@ export function isPositiveGesture(gestureType: GestureType): boolean {
  * Check if gesture is negative/aggressive
  */
 export function isNegativeGesture(gestureType: GestureType): boolean {
-	const negativeGestures: GestureType[] = ['Thumb_Down', 'Closed_Fist'];
+	const negativeGestures: GestureType[] = ['Thumb_Down', 'Closed_Fist', 'Middle_Finger'];
 	return negativeGestures.includes(gestureType);
 }
@@ -0,0 +1,46 @@
+import { ReloadIcon } from "@radix-ui/react-icons";
+import type usePersonality from "../../hooks/usePersonality";
+import useTranslation from "../../hooks/useTranslation";
+import { Button } from "../ui/button";
+import { DEFAULT_PERSONALITY } from "./AvatarStates";
+
+interface PersonalitySelectProps {
+	personality: ReturnType<typeof usePersonality>;
+	className?: string;
+}
+
+/**
+ * Switches the avatar personality, and reloads the profiles after editing them
+ */
+export default function PersonalitySelect({ personality, className = "" }: PersonalitySelectProps) {
+	const { t } = useTranslation();
+	const { profiles, selectedId, error } = personality;
+
+	return (
+		<div className={`flex flex-col gap-1 ${className}`}>
+			<div className="flex items-center gap-2">
+				<select
+					value={selectedId}
+					onChange={(event) => personality.select(event.target.value)}
+					title={personality.personality.description}
+					className="h-9 rounded-md border border-gray-300 px-3 text-sm"
+				>
+					<option value={DEFAULT_PERSONALITY.id}>{t("personality.builtIn")}</option>
+					{profiles.map((profile) => (
+						<option key={profile.id} value={profile.id}>
+							{profile.name}
+						</option>
+					))}
+				</select>
+				<Button size="sm" variant="outline" onClick={personality.reload} title={t("personality.reload")}>
+					<ReloadIcon className="h-4 w-4" />
+				</Button>
+			</div>
+			{error && (
+				<p className="text-xs text-red-600 max-w-xs truncate" title={error}>
+					{error}
+				</p>
+			)}
+		</div>
+	);
+}
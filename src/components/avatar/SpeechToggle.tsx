@@ -0,0 +1,31 @@
+import { SpeakerLoudIcon, SpeakerOffIcon } from "@radix-ui/react-icons";
+import type useSpeech from "../../hooks/useSpeech";
+import useTranslation from "../../hooks/useTranslation";
+import { Button } from "../ui/button";
+
+interface SpeechToggleProps {
+	speech: ReturnType<typeof useSpeech>;
+	className?: string;
+}
+
+/**
+ * Mutes and unmutes the avatar's voice
+ */
+export default function SpeechToggle({ speech, className = "" }: SpeechToggleProps) {
+	const { t } = useTranslation();
+	const label = speech.muted ? t("speech.unmute") : t("speech.mute");
+
+	return (
+		<Button
+			size="sm"
+			variant="outline"
+			onClick={() => speech.setMuted(!speech.muted)}
+			title={label}
+			aria-label={label}
+			aria-pressed={!speech.muted}
+			className={className}
+		>
+			{speech.muted ? <SpeakerOffIcon className="h-4 w-4" /> : <SpeakerLoudIcon className="h-4 w-4" />}
+		</Button>
+	);
+}
@@ -0,0 +1,50 @@
+import { motion, useAnimationFrame, useMotionValue } from "framer-motion";
+import type { SpriteClip } from "../../types/animation";
+
+interface SpriteAnimationProps {
+	clip: SpriteClip;
+	className?: string;
+}
+
+/**
+ * Plays a sprite sheet clip from its first frame, looping or holding the last frame. Remount it, e.g. by key, to
+ * play it again.
+ */
+export default function SpriteAnimation({ clip, className = "" }: SpriteAnimationProps) {
+	const { src, frameWidth, frameHeight, frameCount, fps, loop = false } = clip;
+	const columns = Math.min(clip.columns ?? frameCount, frameCount);
+	const rows = Math.ceil(frameCount / columns);
+
+	const backgroundPosition = useMotionValue(getFramePosition(0, columns, rows));
+	useAnimationFrame((time) => {
+		const frame = Math.floor((time / 1000) * fps);
+		const index = loop ? frame % frameCount : Math.min(frame, frameCount - 1);
+		backgroundPosition.set(getFramePosition(index, columns, rows));
+	});
+
+	return (
+		<motion.div
+			role="img"
+			aria-label={clip.description ?? clip.name}
+			className={className}
+			style={{
+				aspectRatio: `${frameWidth} / ${frameHeight}`,
+				backgroundImage: `url("${src}")`,
+				backgroundSize: `${columns * 100}% ${rows * 100}%`,
+				backgroundRepeat: "no-repeat",
+				backgroundPosition,
+			}}
+		/>
+	);
+}
+
+/**
+ * Get the CSS background position of a frame, in percent of the free space around the frame.
+ */
+function getFramePosition(index: number, columns: number, rows: number): string {
+	const column = index % columns;
+	const row = Math.floor(index / columns);
+	const x = columns > 1 ? (column / (columns - 1)) * 100 : 0;
+	const y = rows > 1 ? (row / (rows - 1)) * 100 : 0;
+	return `${x}% ${y}%`;
+}
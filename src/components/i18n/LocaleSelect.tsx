@@ -0,0 +1,48 @@
+import { GlobeIcon, ReloadIcon } from "@radix-ui/react-icons";
+import type useLocale from "../../hooks/useLocale";
+import useTranslation from "../../hooks/useTranslation";
+import { DEFAULT_LOCALE } from "../../lib/locales";
+import { Button } from "../ui/button";
+
+interface LocaleSelectProps {
+	locale: ReturnType<typeof useLocale>;
+	className?: string;
+}
+
+/**
+ * Switches the language of the avatar and the dashboard, and reloads the locales after editing them
+ */
+export default function LocaleSelect({ locale, className = "" }: LocaleSelectProps) {
+	const { t } = useTranslation();
+	const { locales, selectedCode, error } = locale;
+	const hasBuiltIn = !locales.some(({ code }) => code === DEFAULT_LOCALE.code);
+
+	return (
+		<div className={`flex flex-col items-center gap-1 ${className}`}>
+			<div className="flex items-center gap-2">
+				<GlobeIcon className="h-4 w-4 text-gray-600" />
+				<select
+					value={selectedCode}
+					onChange={(event) => locale.select(event.target.value)}
+					aria-label={t("locale.label")}
+					className="h-9 rounded-md border border-gray-300 px-3 text-sm"
+				>
+					{hasBuiltIn && <option value={DEFAULT_LOCALE.code}>{DEFAULT_LOCALE.name}</option>}
+					{locales.map(({ code, name }) => (
+						<option key={code} value={code}>
+							{name}
+						</option>
+					))}
+				</select>
+				<Button size="sm" variant="outline" onClick={locale.reload} title={t("locale.reload")}>
+					<ReloadIcon className="h-4 w-4" />
+				</Button>
+			</div>
+			{error && (
+				<p className="text-xs text-red-600 max-w-xs truncate" title={error}>
+					{error}
+				</p>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,82 @@
+import { ReloadIcon } from "@radix-ui/react-icons";
+import { AnimatePresence, motion } from "framer-motion";
+import type useNotices from "../../hooks/useNotices";
+import useTranslation from "../../hooks/useTranslation";
+import { Button } from "../ui/button";
+
+interface NoticeBoardProps {
+	notices: ReturnType<typeof useNotices>;
+	className?: string;
+}
+
+/**
+ * Rotates through the announcements and promotions scheduled for now, and reloads the feed after editing it
+ */
+export default function NoticeBoard({ notices, className = "" }: NoticeBoardProps) {
+	const translator = useTranslation();
+	const { t } = translator;
+	const { current, error } = notices;
+	const dateFormat = new Intl.DateTimeFormat(translator.locale, { dateStyle: "medium", timeStyle: "short" });
+
+	return (
+		<div className={`flex flex-col gap-3 ${className}`}>
+			<div className="flex items-center gap-2">
+				<p className="text-sm text-gray-600">{t("noticeBoard.description")}</p>
+				<Button
+					size="sm"
+					variant="outline"
+					onClick={notices.reload}
+					title={t("noticeBoard.reload")}
+					className="ms-auto"
+				>
+					<ReloadIcon className="h-4 w-4" />
+				</Button>
+			</div>
+			{error && (
+				<p className="text-xs text-red-600 truncate" title={error}>
+					{t("noticeBoard.loadFailed")}
+				</p>
+			)}
+			<AnimatePresence mode="wait">
+				{current ? (
+					<motion.div
+						key={current.id}
+						initial={{ opacity: 0, y: 8 }}
+						animate={{ opacity: 1, y: 0 }}
+						exit={{ opacity: 0, y: -8 }}
+						transition={{ duration: 0.3 }}
+						className="flex flex-col gap-2"
+					>
+						{current.kind === "promotion" && (
+							<span className="self-start rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800">
+								{t("noticeBoard.promotion")}
+							</span>
+						)}
+						{current.image && <img src={current.image} alt="" className="max-h-32 rounded-md object-cover" />}
+						<h4 className="font-semibold text-gray-900">{current.title}</h4>
+						{current.body && <p className="text-sm text-gray-700">{current.body}</p>}
+						{current.endsAt && (
+							<p className="text-xs text-gray-500">
+								{t("noticeBoard.until", { date: dateFormat.format(new Date(current.endsAt)) })}
+							</p>
+						)}
+					</motion.div>
+				) : (
+					<motion.p key="empty" initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="text-sm text-gray-500">
+						{t("noticeBoard.empty")}
+					</motion.p>
+				)}
+			</AnimatePresence>
+			{notices.notices.length > 1 && (
+				<div className="flex justify-center gap-1.5">
+					{notices.notices.map((notice) => (
+						<span
+							key={notice.id}
+							className={`h-1.5 w-1.5 rounded-full ${notice.id === current?.id ? "bg-gray-700" : "bg-gray-300"}`}
+						/>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
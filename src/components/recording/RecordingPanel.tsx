@@ -0,0 +1,113 @@
+import { DownloadIcon, UploadIcon, VideoIcon } from "@radix-ui/react-icons";
+import { useRef, useState } from "react";
+import type useGestureRecorder from "../../hooks/useGestureRecorder";
+import useTranslation from "../../hooks/useTranslation";
+import { Button } from "../ui/button";
+
+interface RecordingPanelProps {
+	recorder: ReturnType<typeof useGestureRecorder>;
+	className?: string;
+}
+
+/**
+ * Recording controls for capturing labeled gesture samples into a dataset
+ */
+export default function RecordingPanel({ recorder, className = "" }: RecordingPanelProps) {
+	const { t, locale } = useTranslation();
+	const [label, setLabel] = useState("");
+	const fileInputRef = useRef<HTMLInputElement>(null);
+	const { isRecording, frameCount, recordings, error } = recorder;
+	const totalFrames = recordings.reduce((sum, recording) => sum + recording.frames.length, 0);
+
+	return (
+		<div className={`h-full bg-white rounded-xl border border-gray-200/50 shadow-lg p-6 flex flex-col ${className}`}>
+			<div className="flex items-center gap-3 mb-4">
+				<VideoIcon className="h-6 w-6 text-gray-700" />
+				<h3 className="text-lg font-semibold text-gray-900">{t("recording.title")}</h3>
+			</div>
+			<p className="text-sm text-gray-600 mb-4">{t("recording.description")}</p>
+
+			<div className="flex flex-wrap items-center gap-3">
+				<input
+					type="text"
+					value={label}
+					onChange={(event) => setLabel(event.target.value)}
+					placeholder={t("recording.labelPlaceholder")}
+					disabled={isRecording}
+					className="h-9 rounded-md border border-gray-300 px-3 text-sm flex-1 min-w-[12rem]"
+				/>
+				{isRecording ? (
+					<Button size="sm" variant="destructive" onClick={recorder.stop}>
+						{t("recording.stop", { count: frameCount })}
+					</Button>
+				) : (
+					<Button size="sm" onClick={() => recorder.start(label)}>
+						{t("recording.record")}
+					</Button>
+				)}
+				<Button
+					size="sm"
+					variant="outline"
+					disabled={recordings.length === 0}
+					onClick={() => recorder.exportDataset("json")}
+				>
+					<DownloadIcon className="me-2 h-4 w-4" /> JSON
+				</Button>
+				<Button
+					size="sm"
+					variant="outline"
+					disabled={recordings.length === 0}
+					onClick={() => recorder.exportDataset("ndjson")}
+				>
+					<DownloadIcon className="me-2 h-4 w-4" /> NDJSON
+				</Button>
+				<Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()}>
+					<UploadIcon className="me-2 h-4 w-4" /> {t("recording.import")}
+				</Button>
+				<input
+					ref={fileInputRef}
+					type="file"
+					accept=".json,.ndjson,application/json,application/x-ndjson"
+					className="hidden"
+					onChange={(event) => {
+						const file = event.target.files?.[0];
+						if (file) recorder.importDataset(file);
+						event.target.value = "";
+					}}
+				/>
+				<Button size="sm" variant="ghost" disabled={recordings.length === 0} onClick={recorder.clear}>
+					{t("recording.clear")}
+				</Button>
+			</div>
+
+			{error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+
+			<div className="mt-4 flex-1 overflow-y-auto text-sm">
+				<p className="font-medium text-gray-700 mb-2">
+					{t("recording.summary", {
+						recordings: t("recording.recordings", { count: recordings.length }),
+						frames: t("recording.frames", { count: totalFrames }),
+					})}
+				</p>
+				<ul className="space-y-1">
+					{recordings.map((recording) => (
+						<li key={recording.id} className="flex justify-between items-center bg-gray-50 rounded px-3 py-1">
+							<span className="text-gray-900">{recording.label}</span>
+							<span className="text-gray-500">
+								{t("recording.frames", { count: recording.frames.length })} ·{" "}
+								{new Date(recording.startedAt).toLocaleTimeString(locale)}
+								<button
+									type="button"
+									className="ms-3 text-gray-400 hover:text-red-500"
+									onClick={() => recorder.remove(recording.id)}
+								>
+									✕
+								</button>
+							</span>
+						</li>
+					))}
+				</ul>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,102 @@
+import { PauseIcon, PlayIcon, StopIcon, UploadIcon } from "@radix-ui/react-icons";
+import { useRef } from "react";
+import type useReplay from "../../hooks/useReplay";
+import useTranslation from "../../hooks/useTranslation";
+import type { Recording } from "../../types/recording";
+import { Button } from "../ui/button";
+
+interface ReplayPanelProps {
+	replay: ReturnType<typeof useReplay>;
+	recordings: Recording[];
+	className?: string;
+}
+
+const SPEEDS = [0.25, 0.5, 1, 1.5, 2];
+
+/**
+ * Playback controls for replaying recorded sessions or video files through the avatar without a webcam
+ */
+export default function ReplayPanel({ replay, recordings, className = "" }: ReplayPanelProps) {
+	const { t } = useTranslation();
+	const fileInputRef = useRef<HTMLInputElement>(null);
+	const { mode, state } = replay;
+
+	return (
+		<div className={`h-full bg-white rounded-xl border border-gray-200/50 shadow-lg p-6 flex flex-col ${className}`}>
+			<div className="flex items-center gap-3 mb-4">
+				<PlayIcon className="h-6 w-6 text-gray-700" />
+				<h3 className="text-lg font-semibold text-gray-900">{t("replay.title")}</h3>
+			</div>
+			<p className="text-sm text-gray-600 mb-4">{t("replay.description")}</p>
+
+			<div className="flex flex-wrap items-center gap-3">
+				<select
+					value=""
+					onChange={(event) => {
+						const recording = recordings.find(({ id }) => id === event.target.value);
+						if (recording) replay.playRecording(recording);
+					}}
+					disabled={recordings.length === 0}
+					className="h-9 rounded-md border border-gray-300 px-3 text-sm flex-1 min-w-[12rem]"
+				>
+					<option value="" disabled>
+						{recordings.length === 0 ? t("replay.noRecordings") : t("replay.selectRecording")}
+					</option>
+					{recordings.map((recording) => (
+						<option key={recording.id} value={recording.id}>
+							{recording.label} · {t("recording.frames", { count: recording.frames.length })}
+						</option>
+					))}
+				</select>
+				<Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()}>
+					<UploadIcon className="me-2 h-4 w-4" /> {t("replay.video")}
+				</Button>
+				<input
+					ref={fileInputRef}
+					type="file"
+					accept="video/*"
+					className="hidden"
+					onChange={(event) => {
+						const file = event.target.files?.[0];
+						if (file) replay.playVideo(file);
+						event.target.value = "";
+					}}
+				/>
+			</div>
+
+			{mode !== "off" && (
+				<div className="mt-4 flex flex-wrap items-center gap-3 text-sm">
+					<Button size="sm" variant="outline" onClick={state.isPlaying ? replay.pause : replay.play}>
+						{state.isPlaying ? <PauseIcon className="h-4 w-4" /> : <PlayIcon className="h-4 w-4" />}
+					</Button>
+					<input
+						type="range"
+						min={0}
+						max={state.duration}
+						step={10}
+						value={state.position}
+						onChange={(event) => replay.seek(Number(event.target.value))}
+						className="flex-1 min-w-[12rem]"
+					/>
+					<span className="text-gray-500 tabular-nums">
+						{(state.position / 1000).toFixed(1)}s / {(state.duration / 1000).toFixed(1)}s
+					</span>
+					<select
+						value={state.speed}
+						onChange={(event) => replay.setSpeed(Number(event.target.value))}
+						className="h-9 rounded-md border border-gray-300 px-2 text-sm"
+					>
+						{SPEEDS.map((speed) => (
+							<option key={speed} value={speed}>
+								{speed}×
+							</option>
+						))}
+					</select>
+					<Button size="sm" variant="ghost" onClick={replay.stop}>
+						<StopIcon className="me-2 h-4 w-4" /> {t("replay.backToCamera")}
+					</Button>
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import AnalyticsLogger from "../lib/AnalyticsLogger";
+import { downloadAnalytics, summarizeAnalytics } from "../lib/analytics";
+import type { AnalyticsEvent, AnalyticsExportFormat } from "../types/analytics";
+import type { AvatarPhase, GestureResponse } from "../types/avatar";
+import type { GestureEvent } from "../types/gesture";
+import type { SessionEvent } from "../types/session";
+
+/**
+ * A custom React hook that records the interactions into the local analytics log and aggregates them.
+ * @returns {{
+ *   events: AnalyticsEvent[],
+ *   summary: AnalyticsSummary,
+ *   recordGesture: (event: GestureEvent) => void,
+ *   recordSession: (event: SessionEvent) => void,
+ *   recordReaction: (response: GestureResponse, phase: AvatarPhase) => void,
+ *   exportEvents: (format: AnalyticsExportFormat) => void,
+ *   clear: () => void
+ * }} The kept events and their aggregates, stable event handlers for the gesture stabilizer, the visitor sessions and
+ * the avatar's responses, and the export and clear functions.
+ */
+export default function useAnalytics() {
+	const loggerRef = useRef<AnalyticsLogger>();
+	if (!loggerRef.current) {
+		loggerRef.current = new AnalyticsLogger();
+	}
+	const [events, setEvents] = useState<AnalyticsEvent[]>([]);
+
+	useEffect(() => {
+		const logger = loggerRef.current;
+		if (!logger) return;
+
+		logger.onChange(setEvents);
+		logger.start().catch((error) => console.error("Failed to load analytics:", error));
+		return () => logger.dispose();
+	}, []);
+
+	const recordGesture = useCallback((event: GestureEvent) => loggerRef.current?.gesture(event), []);
+
+	const recordSession = useCallback((event: SessionEvent) => loggerRef.current?.session(event), []);
+
+	const recordReaction = useCallback(
+		(response: GestureResponse, phase: AvatarPhase) => loggerRef.current?.reaction(response, phase),
+		[],
+	);
+
+	const exportEvents = useCallback((format: AnalyticsExportFormat) => {
+		downloadAnalytics(loggerRef.current?.getEvents() ?? [], format);
+	}, []);
+
+	const clear = useCallback(() => {
+		loggerRef.current?.clear().catch((error) => console.error("Failed to clear analytics:", error));
+	}, []);
+
+	const summary = useMemo(() => summarizeAnalytics(events), [events]);
+
+	return { events, summary, recordGesture, recordSession, recordReaction, exportEvents, clear };
+}
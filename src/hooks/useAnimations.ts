@@ -0,0 +1,48 @@
+import { useEffect, useMemo, useState } from "react";
+import { BUILT_IN_ANIMATIONS } from "../components/avatar/AvatarAnimations";
+import { getResponseAnimations } from "../components/avatar/AvatarStates";
+import type AnimationRegistry from "../lib/AnimationRegistry";
+import { loadAnimationClips } from "../lib/animations";
+import type { PersonalityProfile } from "../types/avatar";
+
+/**
+ * A custom React hook that adds the clips listed in `public/animations/index.json` to the built-in animations,
+ * and checks that every animation the responses play has a clip. Clips that fail to load or validate leave the
+ * built-in animations in place.
+ * @param personality The current personality, its responses' animations are checked too.
+ * @returns {{
+ *   animations: AnimationRegistry,
+ *   missing: string[],
+ *   error: string | null
+ * }} The animations, the names of the animations without a clip, and why the clips failed to load.
+ */
+export default function useAnimations(personality?: PersonalityProfile) {
+	const [animations, setAnimations] = useState<AnimationRegistry>(BUILT_IN_ANIMATIONS);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		let cancelled = false;
+		loadAnimationClips()
+			.then((clips) => {
+				if (!cancelled) setAnimations(BUILT_IN_ANIMATIONS.extend(clips));
+			})
+			.catch((error) => {
+				if (cancelled) return;
+				console.error("Failed to load animations:", error);
+				setError(error instanceof Error ? error.message : String(error));
+			});
+		return () => {
+			cancelled = true;
+		};
+	}, []);
+
+	const missing = useMemo(() => animations.findMissing(getResponseAnimations(personality)), [animations, personality]);
+
+	useEffect(() => {
+		if (missing.length > 0) {
+			console.warn("Animations without a clip, the idle animation plays instead:", missing);
+		}
+	}, [missing]);
+
+	return { animations, missing, error };
+}
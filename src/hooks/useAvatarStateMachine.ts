@@ -0,0 +1,167 @@
+import { useEffect, useRef, useState } from "react";
+import { type AvatarStateMachine, createAvatarStateMachine } from "../components/avatar/AvatarStateMachine";
+import { DEFAULT_PERSONALITY, getAvatarResponse, getResponsePriority } from "../components/avatar/AvatarStates";
+import IdleScheduler from "../lib/IdleScheduler";
+import { defaultNoticeOptions } from "../lib/constants";
+import type { AvatarEvent, AvatarPhase, GestureResponse, GestureType, PersonalityProfile } from "../types/avatar";
+import type { Handedness } from "../types/gesture";
+import type { Notice } from "../types/notice";
+import type { ProximityZone } from "../types/proximity";
+import type { TransitionRecord } from "../types/stateMachine";
+
+/**
+ * Phases without a visitor to interact with.
+ */
+const UNATTENDED_PHASES: AvatarPhase[] = ["idle", "sleeping", "attracting"];
+
+interface AvatarSnapshot {
+	phase: AvatarPhase;
+	response: GestureResponse;
+	history: TransitionRecord<AvatarPhase, AvatarEvent>[];
+	queued: AvatarEvent[];
+}
+
+function getSnapshot(machine: AvatarStateMachine): AvatarSnapshot {
+	return {
+		phase: machine.getState(),
+		response: machine.getContext().response,
+		history: machine.getHistory(),
+		queued: machine.getQueue(),
+	};
+}
+
+/**
+ * A custom React hook that drives the avatar state machine from the detected person and gestures,
+ * and from the idle scheduler while nobody is around.
+ * @param input The stable gesture, whether a person is detected, the hand making the gesture, the number of people,
+ * the proximity zone of the nearest one, the personality picking the responses and idle behaviors, which applies
+ * from the next response on, and the promotion called out every `calloutMs` while idle.
+ * @returns {{
+ *   phase: AvatarPhase,
+ *   response: GestureResponse,
+ *   history: TransitionRecord<AvatarPhase, AvatarEvent>[],
+ *   queued: AvatarEvent[]
+ * }} The current phase and response, the recent transitions and the reactions waiting for their turn.
+ */
+export default function useAvatarStateMachine({
+	gestureType,
+	isPersonDetected,
+	handedness,
+	people = 1,
+	zone = null,
+	personality = DEFAULT_PERSONALITY,
+	promotion = null,
+	calloutMs = defaultNoticeOptions.calloutMs,
+}: {
+	gestureType: GestureType;
+	isPersonDetected: boolean;
+	handedness?: Handedness;
+	people?: number;
+	zone?: ProximityZone | null;
+	personality?: PersonalityProfile;
+	promotion?: Notice | null;
+	calloutMs?: number;
+}) {
+	// The machine reads the personality and promotion whenever it picks a response, so changing them needs no new
+	// machine.
+	const personalityRef = useRef(personality);
+	personalityRef.current = personality;
+	const promotionRef = useRef(promotion);
+	promotionRef.current = promotion;
+
+	const machineRef = useRef<AvatarStateMachine>();
+	if (!machineRef.current) {
+		machineRef.current = createAvatarStateMachine(
+			() => personalityRef.current,
+			() => promotionRef.current,
+		);
+	}
+	const idleSchedulerRef = useRef<IdleScheduler>();
+	if (!idleSchedulerRef.current) {
+		idleSchedulerRef.current = new IdleScheduler(personality.idle?.scheduler);
+	}
+
+	const [snapshot, setSnapshot] = useState(() => getSnapshot(machineRef.current as AvatarStateMachine));
+
+	// The gesture effect reads the hands of the frame the gesture changed in, without re-running when they change.
+	const latestRef = useRef({ isPersonDetected, handedness, people, zone });
+	latestRef.current = { isPersonDetected, handedness, people, zone };
+
+	useEffect(() => {
+		const machine = machineRef.current;
+		if (!machine) return;
+
+		machine.onTransition(() => setSnapshot(getSnapshot(machine)));
+		machine.start();
+		return () => machine.dispose();
+	}, []);
+
+	useEffect(() => {
+		idleSchedulerRef.current?.setOptions(personality.idle?.scheduler);
+	}, [personality]);
+
+	// When the last interaction ended, so beckoning a passer-by doesn't restart the idle escalation.
+	const interactionEndedAtRef = useRef(Date.now());
+	useEffect(() => {
+		if (UNATTENDED_PHASES.includes(snapshot.phase)) return;
+		return () => {
+			interactionEndedAtRef.current = Date.now();
+		};
+	}, [snapshot.phase]);
+
+	// Idle behaviors escalate from the end of the last interaction, and stop once the avatar is asleep or someone
+	// arrives.
+	useEffect(() => {
+		const machine = machineRef.current;
+		const idleScheduler = idleSchedulerRef.current;
+		if (!machine || !idleScheduler || snapshot.phase !== "idle") return;
+
+		idleScheduler.onBehavior((behavior) => machine.send({ type: "IDLE_BEHAVIOR", behavior }));
+		idleScheduler.start(interactionEndedAtRef.current);
+		return () => idleScheduler.stop();
+	}, [snapshot.phase]);
+
+	// Call-outs repeat while the avatar stays idle, the idle behaviors in between them go on as scheduled.
+	const hasPromotion = promotion !== null;
+	useEffect(() => {
+		const machine = machineRef.current;
+		if (!machine || !hasPromotion || snapshot.phase !== "idle") return;
+
+		const interval = setInterval(() => machine.send({ type: "PROMOTION" }), calloutMs);
+		return () => clearInterval(interval);
+	}, [snapshot.phase, hasPromotion, calloutMs]);
+
+	useEffect(() => {
+		const machine = machineRef.current;
+		if (!machine) return;
+
+		machine.send(
+			isPersonDetected ? { type: "PERSON_ARRIVED", people: latestRef.current.people } : { type: "PERSON_LEFT" },
+		);
+		setSnapshot(getSnapshot(machine));
+	}, [isPersonDetected]);
+
+	useEffect(() => {
+		const machine = machineRef.current;
+		if (!machine) return;
+
+		machine.send({ type: "ZONE_CHANGED", zone });
+		setSnapshot(getSnapshot(machine));
+	}, [zone]);
+
+	useEffect(() => {
+		const machine = machineRef.current;
+		const { isPersonDetected, handedness, people, zone } = latestRef.current;
+		if (!machine || gestureType === "None" || !isPersonDetected) return;
+
+		machine.send({
+			type: "GESTURE",
+			gesture: gestureType,
+			response: getAvatarResponse(gestureType, true, handedness, people, personalityRef.current, zone),
+			priority: getResponsePriority(gestureType),
+		});
+		setSnapshot(getSnapshot(machine));
+	}, [gestureType]);
+
+	return snapshot;
+}
@@ -0,0 +1,71 @@
+import { useEffect, useRef, useState } from "react";
+import { getGestureSentiment } from "../components/avatar/AvatarStates";
+import EmotionModel from "../lib/EmotionModel";
+import type { AvatarMood, Emotion, EmotionOptions, GestureType } from "../types/avatar";
+
+/**
+ * Interval at which the decaying emotion is refreshed, in milliseconds.
+ */
+const DECAY_INTERVAL_MS = 1000;
+
+function getSnapshot(model: EmotionModel): { emotion: Emotion; mood: AvatarMood } {
+	const timestamp = Date.now();
+	return { emotion: model.getEmotion(timestamp), mood: model.getMood(timestamp) };
+}
+
+/**
+ * A custom React hook that accumulates the avatar's emotion from the gestures it sees.
+ * @param gestureType The stable gesture, every new gesture is fed into the model.
+ * @param isPersonDetected Whether a person is detected, an arriving visitor stirs the avatar a little.
+ * @param options The emotion model options, e.g. the thresholds of the current personality.
+ * @returns {{
+ *   emotion: Emotion,
+ *   mood: AvatarMood
+ * }} The decaying emotion and the mood derived from it.
+ */
+export default function useEmotionModel(
+	gestureType: GestureType,
+	isPersonDetected: boolean,
+	options?: Partial<EmotionOptions>,
+) {
+	const modelRef = useRef<EmotionModel>();
+	if (!modelRef.current) {
+		modelRef.current = new EmotionModel(options);
+	}
+
+	const [snapshot, setSnapshot] = useState(() => getSnapshot(modelRef.current as EmotionModel));
+
+	useEffect(() => {
+		const model = modelRef.current;
+		if (!model) return;
+
+		model.setOptions(options);
+		setSnapshot(getSnapshot(model));
+	}, [options]);
+
+	useEffect(() => {
+		const model = modelRef.current;
+		if (!model) return;
+
+		const interval = setInterval(() => setSnapshot(getSnapshot(model)), DECAY_INTERVAL_MS);
+		return () => clearInterval(interval);
+	}, []);
+
+	useEffect(() => {
+		const model = modelRef.current;
+		if (!model || !isPersonDetected) return;
+
+		model.apply("neutral");
+		setSnapshot(getSnapshot(model));
+	}, [isPersonDetected]);
+
+	useEffect(() => {
+		const model = modelRef.current;
+		if (!model || gestureType === "None") return;
+
+		model.apply(getGestureSentiment(gestureType));
+		setSnapshot(getSnapshot(model));
+	}, [gestureType]);
+
+	return snapshot;
+}
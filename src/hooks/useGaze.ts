@@ -0,0 +1,29 @@
+import type { NormalizedLandmark } from "@mediapipe/tasks-vision";
+import { useEffect, useRef } from "react";
+import GazeTracker from "../lib/GazeTracker";
+import type { GazeOptions } from "../types/avatar";
+
+/**
+ * A custom React hook that makes the avatar look at the visible hands.
+ * @param landmarks The landmarks of every visible hand in the latest frame.
+ * @param options The gaze tracker options.
+ * @returns {{
+ *   gaze: GazeTracker
+ * }} The gaze tracker, read by the avatar on every animation frame.
+ */
+export default function useGaze(landmarks: NormalizedLandmark[][] | undefined, options?: Partial<GazeOptions>) {
+	const trackerRef = useRef<GazeTracker>();
+	if (!trackerRef.current) {
+		trackerRef.current = new GazeTracker(options);
+	}
+
+	useEffect(() => {
+		trackerRef.current?.setOptions(options);
+	}, [options]);
+
+	useEffect(() => {
+		trackerRef.current?.update(landmarks, performance.now());
+	}, [landmarks]);
+
+	return { gaze: trackerRef.current };
+}
@@ -0,0 +1,116 @@
+import type { GestureRecognizerResult } from "@mediapipe/tasks-vision";
+import { useRef } from "react";
+import MotionGestureDetector from "../lib/MotionGestureDetector";
+import PoseClassifier from "../lib/PoseClassifier";
+import TwoHandGestureDetector from "../lib/TwoHandGestureDetector";
+import type { GestureType } from "../types/avatar";
+import type {
+	FrameClassification,
+	GestureClassification,
+	HandClassification,
+	Handedness,
+	MotionGestureOptions,
+	PoseDefinition,
+	TwoHandGestureOptions,
+} from "../types/gesture";
+
+const EMPTY_FRAME: FrameClassification = { classification: null, hands: [], people: 0 };
+
+/**
+ * A custom React hook that classifies the gesture of every hand in every frame of recognition results,
+ * combining MediaPipe's static categories with custom landmark poses and motion gestures detected over time.
+ * Per hand, motion gestures take precedence while they are being reported, and a custom pose wins over
+ * MediaPipe's category when it scores higher or MediaPipe sees no gesture. The frame's gesture is a two-hand
+ * gesture if there is one, else a hand's motion gesture, else the highest scoring gesture of a hand.
+ * @param results The latest recognition results.
+ * @param timestamp The timestamp of their frame in milliseconds, recorded frames keep their recorded timing.
+ * @param options The motion gesture and two-hand gesture detector options and custom pose definitions, read once on mount.
+ * @returns The classification of the latest frame, with a null classification before the first results.
+ */
+export default function useGestureClassification(
+	results: GestureRecognizerResult | null,
+	timestamp: number = performance.now(),
+	options: {
+		motion?: Partial<MotionGestureOptions>;
+		twoHand?: Partial<TwoHandGestureOptions>;
+		poses?: PoseDefinition[];
+	} = {},
+): FrameClassification {
+	// Motion is tracked per side, hands are not guaranteed to keep their index in the results between frames.
+	const motionDetectorsRef = useRef<Record<Handedness, MotionGestureDetector>>();
+	if (!motionDetectorsRef.current) {
+		motionDetectorsRef.current = {
+			Left: new MotionGestureDetector(options.motion),
+			Right: new MotionGestureDetector(options.motion),
+		};
+	}
+	const poseClassifierRef = useRef<PoseClassifier>();
+	if (!poseClassifierRef.current) {
+		poseClassifierRef.current = new PoseClassifier(options.poses);
+	}
+	const twoHandDetectorRef = useRef<TwoHandGestureDetector>();
+	if (!twoHandDetectorRef.current) {
+		twoHandDetectorRef.current = new TwoHandGestureDetector(options.twoHand);
+	}
+
+	// Frames are cached by results identity, StrictMode may run this twice per render and the detectors are stateful.
+	const lastFrameRef = useRef<{ results: GestureRecognizerResult | null; frame: FrameClassification }>({
+		results: null,
+		frame: EMPTY_FRAME,
+	});
+	if (lastFrameRef.current.results === results) {
+		return lastFrameRef.current.frame;
+	}
+
+	let frame = EMPTY_FRAME;
+	if (results) {
+		const twoHandDetector = twoHandDetectorRef.current;
+		const hands: HandClassification[] = [];
+		let motionHand: HandClassification | undefined;
+
+		results.landmarks.forEach((landmarks, index) => {
+			const handedness = twoHandDetector.getHandedness(results.handedness[index]?.[0]);
+			const category = results.gestures[index]?.[0];
+			const mediaPipe: GestureClassification = {
+				gesture: (category?.categoryName as GestureType) ?? "None",
+				score: category?.score ?? 0,
+			};
+			// World landmarks are metric 3D coordinates, giving undistorted finger angles.
+			const pose = poseClassifierRef.current?.classify(results.worldLandmarks?.[index] ?? landmarks);
+			// A second hand of the same side belongs to another person, feeding it in would look like a jump.
+			const isFirstOfSide = !hands.some((hand) => hand.handedness === handedness);
+			const motion = isFirstOfSide ? motionDetectorsRef.current?.[handedness].update(landmarks, timestamp) : null;
+
+			const classification =
+				motion ?? (pose && (mediaPipe.gesture === "None" || pose.score > mediaPipe.score) ? pose : mediaPipe);
+			const hand = { ...classification, handedness, index };
+			hands.push(hand);
+			if (motion && !motionHand) motionHand = hand;
+		});
+
+		// A side without a visible hand interrupts its motion.
+		for (const side of ["Left", "Right"] as Handedness[]) {
+			if (!hands.some((hand) => hand.handedness === side)) {
+				motionDetectorsRef.current[side].update(undefined, timestamp);
+			}
+		}
+
+		const twoHand = twoHandDetector.update(hands, results.landmarks, timestamp);
+		const bestHand = hands
+			.filter((hand) => hand.gesture !== "None")
+			.reduce<HandClassification | undefined>(
+				(best, hand) => (!best || hand.score > best.score ? hand : best),
+				undefined,
+			);
+		const combined = twoHand ?? motionHand ?? bestHand;
+
+		frame = {
+			classification: combined ? { gesture: combined.gesture, score: combined.score } : { gesture: "None", score: 0 },
+			hands,
+			people: twoHandDetector.countPeople(hands, results.landmarks),
+		};
+	}
+
+	lastFrameRef.current = { results, frame };
+	return frame;
+}
@@ -0,0 +1,76 @@
+import type { GestureRecognizerResult } from "@mediapipe/tasks-vision";
+import { useCallback, useEffect, useRef, useState } from "react";
+import GestureRecorder from "../lib/GestureRecorder";
+import { downloadDataset, parseDataset } from "../lib/dataset";
+import type { DatasetFormat, Recording } from "../types/recording";
+
+/**
+ * A custom React hook that records labeled recognition results into a downloadable dataset.
+ * @param results The latest recognition results, recorded while a recording is in progress.
+ * @returns The recording state and controls.
+ */
+export default function useGestureRecorder(results: GestureRecognizerResult | null) {
+	const recorderRef = useRef(new GestureRecorder());
+	const [isRecording, setIsRecording] = useState(false);
+	const [frameCount, setFrameCount] = useState(0);
+	const [recordings, setRecordings] = useState<Recording[]>([]);
+	const [error, setError] = useState<string>();
+
+	useEffect(() => {
+		const recorder = recorderRef.current;
+		if (!results || !recorder.isRecording()) return;
+
+		recorder.addFrame(results);
+		setFrameCount(recorder.getFrameCount());
+	}, [results]);
+
+	const start = useCallback((label: string) => {
+		recorderRef.current.start(label.trim() || "unlabeled");
+		setIsRecording(true);
+		setFrameCount(0);
+	}, []);
+
+	const stop = useCallback(() => {
+		recorderRef.current.stop();
+		setIsRecording(false);
+		setRecordings([...recorderRef.current.getRecordings()]);
+	}, []);
+
+	const remove = useCallback((id: string) => {
+		recorderRef.current.removeRecording(id);
+		setRecordings([...recorderRef.current.getRecordings()]);
+	}, []);
+
+	const clear = useCallback(() => {
+		recorderRef.current.clear();
+		setRecordings([]);
+	}, []);
+
+	const exportDataset = useCallback((format: DatasetFormat) => {
+		downloadDataset(recorderRef.current.getRecordings(), format);
+	}, []);
+
+	const importDataset = useCallback(async (file: File) => {
+		try {
+			recorderRef.current.addRecordings(parseDataset(await file.text()));
+			setRecordings([...recorderRef.current.getRecordings()]);
+			setError(undefined);
+		} catch (error) {
+			console.error("Failed to import dataset:", error);
+			setError(`Failed to import ${file.name}`);
+		}
+	}, []);
+
+	return {
+		isRecording,
+		frameCount,
+		recordings,
+		error,
+		start,
+		stop,
+		remove,
+		clear,
+		exportDataset,
+		importDataset,
+	};
+}
@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import GestureStabilizer from "../lib/GestureStabilizer";
+import type { GestureType } from "../types/avatar";
+import type { GestureClassification, GestureEvent, GestureStabilizerOptions } from "../types/gesture";
+
+/**
+ * Interval at which the active gesture is checked for release without new frames, so it ends when the frames stop.
+ */
+const TICK_MS = 250;
+
+/**
+ * A custom React hook that stabilizes the per-frame gesture classifications,
+ * so a single misclassified frame doesn't flip the gesture shown to the UI.
+ * @param classification The classification of the latest frame.
+ * @param timestamp The timestamp of the latest frame in milliseconds, recorded time while replaying.
+ * @param options The stabilizer options, read once on mount.
+ * @param onEvent Called for every "started", "held" and "ended" event.
+ * @param isLive Whether the frames are live, timed by `performance.now()`. Only then is the gesture released when
+ * the frames stop: replayed frames run on their recorded clock, which stands still while paused.
+ * @returns {{
+ *   gesture: GestureType,
+ *   lastEvent: GestureEvent | null
+ * }} The stable gesture and the most recent gesture event.
+ */
+export default function useGestureStabilizer(
+	classification: GestureClassification | null,
+	timestamp: number = performance.now(),
+	options?: Partial<GestureStabilizerOptions>,
+	onEvent?: (event: GestureEvent) => void,
+	isLive = true,
+) {
+	const stabilizerRef = useRef<GestureStabilizer>();
+	if (!stabilizerRef.current) {
+		stabilizerRef.current = new GestureStabilizer(options);
+	}
+	const onEventRef = useRef(onEvent);
+	onEventRef.current = onEvent;
+
+	const [gesture, setGesture] = useState<GestureType>("None");
+	const [lastEvent, setLastEvent] = useState<GestureEvent | null>(null);
+
+	const handleEvents = useCallback((events: GestureEvent[]) => {
+		for (const event of events) {
+			onEventRef.current?.(event);
+		}
+		if (events.length > 0) {
+			setLastEvent(events[events.length - 1]);
+		}
+		setGesture(stabilizerRef.current?.getGesture() ?? "None");
+	}, []);
+
+	// The classification effect reads the timestamp of the frame it changed in, without re-running on it.
+	const latestRef = useRef({ timestamp });
+	latestRef.current = { timestamp };
+
+	useEffect(() => {
+		const stabilizer = stabilizerRef.current;
+		if (!stabilizer || !classification) return;
+
+		handleEvents(stabilizer.update(classification.gesture, classification.score, latestRef.current.timestamp));
+	}, [classification, handleEvents]);
+
+	// Releases the gesture when the live frames stop, e.g. the camera is covered or the recognizer stalls.
+	useEffect(() => {
+		if (!isLive) return;
+
+		const intervalId = setInterval(() => {
+			const events = stabilizerRef.current?.tick() ?? [];
+			if (events.length > 0) handleEvents(events);
+		}, TICK_MS);
+		return () => clearInterval(intervalId);
+	}, [handleEvents, isLive]);
+
+	return { gesture, lastEvent };
+}
@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import Translator from "../lib/Translator";
+import { DEFAULT_LOCALE, DEFAULT_MESSAGES, loadLocaleIndex, loadLocaleMessages } from "../lib/locales";
+import type { LocaleIndexEntry, LocaleMessages } from "../types/i18n";
+
+interface LoadedLocale {
+	locale: LocaleIndexEntry;
+	messages: LocaleMessages;
+}
+
+/**
+ * Fetch the locale index and the messages of the locale with the given code. The built-in locale needs no
+ * messages, unless the index overrides it.
+ */
+async function fetchLocale(code: string): Promise<{ locales: LocaleIndexEntry[]; loaded: LoadedLocale }> {
+	const locales = await loadLocaleIndex();
+	const entry = locales.find((locale) => locale.code === code);
+	if (!entry) {
+		if (code === DEFAULT_LOCALE.code) {
+			return { locales, loaded: { locale: DEFAULT_LOCALE, messages: {} } };
+		}
+		throw new Error(`Unknown locale ${code}`);
+	}
+	return { locales, loaded: { locale: entry, messages: await loadLocaleMessages(entry) } };
+}
+
+/**
+ * A custom React hook that loads the locales listed in `public/locales/index.json` and switches between them
+ * at runtime, setting the language and text direction of the document. Reloading fetches the files again,
+ * so edits apply without rebuilding. A locale that fails to load or validate leaves the current one in place.
+ * @param initialCode The code of the locale to start with, defaults to `VITE_LOCALE` or English.
+ * @returns {{
+ *   translator: Translator,
+ *   locales: LocaleIndexEntry[],
+ *   selectedCode: string,
+ *   error: string | null,
+ *   select: (code: string) => void,
+ *   reload: () => void
+ * }} The translator of the current locale, the available locales, and functions to switch and reload them.
+ */
+export default function useLocale(initialCode: string = import.meta.env.VITE_LOCALE || DEFAULT_LOCALE.code) {
+	const [loaded, setLoaded] = useState<LoadedLocale>({ locale: DEFAULT_LOCALE, messages: {} });
+	const [locales, setLocales] = useState<LocaleIndexEntry[]>([]);
+	const [selectedCode, setSelectedCode] = useState(initialCode);
+	const [error, setError] = useState<string | null>(null);
+	// Only the latest request applies, in case an earlier one resolves after it.
+	const requestRef = useRef(0);
+
+	const translator = useMemo(
+		() =>
+			new Translator(loaded.locale.code, loaded.messages, {
+				dir: loaded.locale.dir ?? "ltr",
+				fallback: DEFAULT_MESSAGES,
+				storeName: import.meta.env.VITE_STORE_NAME,
+			}),
+		[loaded],
+	);
+
+	const select = useCallback((code: string) => {
+		const request = ++requestRef.current;
+		setSelectedCode(code);
+		setError(null);
+
+		fetchLocale(code)
+			.then((result) => {
+				if (request !== requestRef.current) return;
+				setLocales(result.locales);
+				setLoaded(result.loaded);
+			})
+			.catch((error) => {
+				if (request !== requestRef.current) return;
+				console.error("Failed to load locale:", error);
+				setError(error instanceof Error ? error.message : String(error));
+			});
+	}, []);
+
+	const reload = useCallback(() => select(selectedCode), [select, selectedCode]);
+
+	useEffect(() => {
+		select(initialCode);
+	}, [select, initialCode]);
+
+	useEffect(() => {
+		document.documentElement.lang = translator.locale;
+		document.documentElement.dir = translator.dir;
+	}, [translator]);
+
+	return { translator, locales, selectedCode, error, select, reload };
+}
@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { defaultNoticeOptions } from "../lib/constants";
+import { getActiveNotices, loadNotices } from "../lib/notices";
+import type { Notice, NoticeOptions } from "../types/notice";
+
+/**
+ * A custom React hook that loads the notice feed in `public/notices/feed.json` and rotates through the notices
+ * scheduled for the current time. The feed is fetched again periodically and on reload, so edits apply without
+ * restarting the kiosk. A feed that fails to load or validate leaves the current notices in place.
+ * @param options The rotation and reload intervals, merged over the defaults.
+ * @returns {{
+ *   notices: Notice[],
+ *   current: Notice | null,
+ *   promotion: Notice | null,
+ *   error: string | null,
+ *   reload: () => void
+ * }} The notices shown now by priority, the one in the card, the promotion to call out, and a function to reload
+ * the feed.
+ */
+export default function useNotices(options?: Partial<NoticeOptions>) {
+	const { rotateMs, reloadMs } = { ...defaultNoticeOptions, ...options };
+	const [feed, setFeed] = useState<Notice[]>([]);
+	const [error, setError] = useState<string | null>(null);
+	const [now, setNow] = useState(Date.now);
+	const [rotation, setRotation] = useState(0);
+	// Only the latest request applies, in case an earlier one resolves after it.
+	const requestRef = useRef(0);
+
+	const reload = useCallback(() => {
+		const request = ++requestRef.current;
+		setError(null);
+
+		loadNotices()
+			.then((notices) => {
+				if (request !== requestRef.current) return;
+				setFeed(notices);
+				setNow(Date.now());
+			})
+			.catch((error) => {
+				if (request !== requestRef.current) return;
+				console.error("Failed to load notices:", error);
+				setError(error instanceof Error ? error.message : String(error));
+			});
+	}, []);
+
+	useEffect(() => {
+		reload();
+		const interval = setInterval(reload, reloadMs);
+		return () => clearInterval(interval);
+	}, [reload, reloadMs]);
+
+	// Each rotation also picks up notices that started or ended since the last one.
+	useEffect(() => {
+		const interval = setInterval(() => {
+			setNow(Date.now());
+			setRotation((rotation) => rotation + 1);
+		}, rotateMs);
+		return () => clearInterval(interval);
+	}, [rotateMs]);
+
+	const notices = useMemo(() => getActiveNotices(feed, now), [feed, now]);
+	const current = notices.length > 0 ? notices[rotation % notices.length] : null;
+	const promotion = notices.find((notice) => notice.kind === "promotion") ?? null;
+
+	return { notices, current, promotion, error, reload };
+}
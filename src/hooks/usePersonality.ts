@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { loadPersonality, loadPersonalityIndex } from "../components/avatar/AvatarPersonality";
+import { DEFAULT_PERSONALITY } from "../components/avatar/AvatarStates";
+import type { PersonalityIndexEntry, PersonalityProfile } from "../types/avatar";
+
+/**
+ * Fetch the personality index and the profile with the given id, the built-in personality needs no profile.
+ */
+async function fetchPersonality(
+	id: string,
+): Promise<{ profiles: PersonalityIndexEntry[]; personality: PersonalityProfile }> {
+	const profiles = await loadPersonalityIndex();
+	if (id === DEFAULT_PERSONALITY.id) {
+		return { profiles, personality: DEFAULT_PERSONALITY };
+	}
+
+	const entry = profiles.find((profile) => profile.id === id);
+	if (!entry) {
+		throw new Error(`Unknown personality ${id}`);
+	}
+	return { profiles, personality: await loadPersonality(entry) };
+}
+
+/**
+ * A custom React hook that loads the personality profiles listed in `public/personalities/index.json`
+ * and switches between them at runtime. Reloading fetches the files again, so edits apply without rebuilding.
+ * A profile that fails to load or validate leaves the current personality in place.
+ * @param initialId The id of the personality to start with, defaults to `VITE_PERSONALITY` or the built-in one.
+ * @returns {{
+ *   personality: PersonalityProfile,
+ *   profiles: PersonalityIndexEntry[],
+ *   selectedId: string,
+ *   error: string | null,
+ *   select: (id: string) => void,
+ *   reload: () => void
+ * }} The current personality, the available profiles, and functions to switch and reload them.
+ */
+export default function usePersonality(initialId: string = import.meta.env.VITE_PERSONALITY || DEFAULT_PERSONALITY.id) {
+	const [personality, setPersonality] = useState<PersonalityProfile>(DEFAULT_PERSONALITY);
+	const [profiles, setProfiles] = useState<PersonalityIndexEntry[]>([]);
+	const [selectedId, setSelectedId] = useState(initialId);
+	const [error, setError] = useState<string | null>(null);
+	// Only the latest request applies, in case an earlier one resolves after it.
+	const requestRef = useRef(0);
+
+	const select = useCallback((id: string) => {
+		const request = ++requestRef.current;
+		setSelectedId(id);
+		setError(null);
+
+		fetchPersonality(id)
+			.then((loaded) => {
+				if (request !== requestRef.current) return;
+				setProfiles(loaded.profiles);
+				setPersonality(loaded.personality);
+			})
+			.catch((error) => {
+				if (request !== requestRef.current) return;
+				console.error("Failed to load personality:", error);
+				setError(error instanceof Error ? error.message : String(error));
+			});
+	}, []);
+
+	const reload = useCallback(() => select(selectedId), [select, selectedId]);
+
+	useEffect(() => {
+		select(initialId);
+	}, [select, initialId]);
+
+	return { personality, profiles, selectedId, error, select, reload };
+}
@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import PresenceDetector from "../lib/PresenceDetector";
+import type { WasmFileset } from "../lib/types";
+import type { PresenceResult } from "../types/presence";
+
+/**
+ * A custom React hook that detects the people in front of the display by their faces, alongside the Recognizer.
+ * The PresenceDetector is disposed on unmount or when disabled.
+ * @param {{ enabled?: boolean, vision?: WasmFileset | null }} options Set `enabled` to false to not load the face
+ * detector at all, and `vision` to the WASM runtime shared with the Recognizer. The detector waits while it is
+ * undefined, and loads its own when it is null.
+ * @returns {{
+ *   presence: PresenceResult | null,
+ *   setVideoElement: (videoElement: HTMLVideoElement | null) => void,
+ *   error: string | undefined
+ * }} The people in view in the latest detected frame, and a setter for the video element to detect them in.
+ */
+export default function usePresence({
+	enabled = true,
+	vision = null,
+}: { enabled?: boolean; vision?: WasmFileset | null } = {}) {
+	const [error, setError] = useState<string>();
+	const [presence, setPresence] = useState<PresenceResult | null>(null);
+	const detectorRef = useRef<PresenceDetector | null>(null);
+	const videoRef = useRef<HTMLVideoElement>();
+
+	/**
+	 * Updates the video element, handing it over to a running PresenceDetector.
+	 */
+	const setVideoElement = useCallback((videoElement: HTMLVideoElement | null) => {
+		if (!videoElement || videoElement === videoRef.current) return;
+		videoRef.current = videoElement;
+		detectorRef.current?.setVideoElement(videoElement);
+	}, []);
+
+	useEffect(() => {
+		if (!enabled || vision === undefined) return;
+
+		let cancelled = false;
+		let detector: PresenceDetector | null = null;
+
+		/**
+		 * Initializes the PresenceDetector once the video element is ready.
+		 */
+		const initializeDetector = async () => {
+			try {
+				const videoElement = await new Promise<HTMLVideoElement | null>((resolve) => {
+					const checkVideo = () => {
+						if (cancelled) {
+							resolve(null);
+						} else if (videoRef.current && videoRef.current.readyState >= 2) {
+							resolve(videoRef.current);
+						} else {
+							setTimeout(checkVideo, 100);
+						}
+					};
+					checkVideo();
+				});
+				if (!videoElement) return;
+
+				detector = await PresenceDetector.create({ videoElement, vision: vision ?? undefined, autoStart: false });
+
+				// Unmounted while the model was loading
+				if (cancelled) {
+					detector.dispose();
+					return;
+				}
+
+				detectorRef.current = detector;
+				// The video element may have been swapped while the model was loading
+				if (videoRef.current) {
+					detector.setVideoElement(videoRef.current);
+				}
+
+				detector.onResults(setPresence);
+				await detector.start();
+			} catch (error) {
+				console.error("Failed to initialize PresenceDetector:", error);
+				setError("Failed to initialize PresenceDetector");
+			}
+		};
+
+		initializeDetector();
+
+		return () => {
+			cancelled = true;
+			detector?.dispose();
+			detectorRef.current = null;
+			setPresence(null);
+		};
+	}, [enabled, vision]);
+
+	return { presence, setVideoElement, error };
+}
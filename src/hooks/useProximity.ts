@@ -0,0 +1,67 @@
+import type { NormalizedLandmark } from "@mediapipe/tasks-vision";
+import { useCallback, useEffect, useRef, useState } from "react";
+import ProximityTracker from "../lib/ProximityTracker";
+import { defaultProximityOptions } from "../lib/constants";
+import { getHandDistance } from "../lib/proximity";
+import type { PresenceResult } from "../types/presence";
+import type { ProximityOptions, ProximityZone } from "../types/proximity";
+
+/**
+ * Interval at which the tracker is checked without new frames, so the zone is lost while the camera sees nobody.
+ */
+const TICK_MS = 250;
+
+/**
+ * A custom React hook that sorts the nearest visitor into a proximity zone, by the size of their hands and face.
+ * @param landmarks The landmarks of every visible hand in the latest frame.
+ * @param presence The faces in the latest frame of the presence detector.
+ * @param options The zone options, e.g. the thresholds of the current personality.
+ * @param aspectRatio The height of the video frames divided by their width, defaults to the 640×480 webcam video.
+ * @returns {{
+ *   zone: ProximityZone | null,
+ *   distance: number | null
+ * }} The zone of the nearest visitor and their distance in meters, null once nobody has been in view for the grace
+ * period.
+ */
+export default function useProximity(
+	landmarks: NormalizedLandmark[][] | undefined,
+	presence: PresenceResult | null,
+	options?: Partial<ProximityOptions>,
+	aspectRatio = 3 / 4,
+) {
+	const trackerRef = useRef<ProximityTracker>();
+	if (!trackerRef.current) {
+		trackerRef.current = new ProximityTracker(options);
+	}
+	const [zone, setZone] = useState<ProximityZone | null>(null);
+	const [distance, setDistance] = useState<number | null>(null);
+
+	useEffect(() => {
+		trackerRef.current?.setOptions(options);
+	}, [options]);
+
+	// The interval reads the distance of the latest frame without restarting on it.
+	const nearestRef = useRef<number | null>(null);
+
+	const update = useCallback(() => {
+		const tracker = trackerRef.current;
+		if (!tracker) return;
+
+		setZone(tracker.update(nearestRef.current));
+		setDistance(tracker.getDistance());
+	}, []);
+
+	useEffect(() => {
+		const intervalId = setInterval(update, TICK_MS);
+		return () => clearInterval(intervalId);
+	}, [update]);
+
+	useEffect(() => {
+		const handDistance = getHandDistance(landmarks, { ...defaultProximityOptions, ...options }, aspectRatio);
+		const distances = [handDistance, presence?.nearestDistance ?? null].filter((value) => value !== null);
+		nearestRef.current = distances.length > 0 ? Math.min(...distances) : null;
+		update();
+	}, [landmarks, presence, options, aspectRatio, update]);
+
+	return { zone, distance };
+}
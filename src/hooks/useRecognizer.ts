@@ -1,66 +1,129 @@
 import type { GestureRecognizerResult } from "@mediapipe/tasks-vision";
-import { useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import Recognizer from "../lib/Recognizer";
-import { useEffectOnce } from "./useEffectOnce";
+import WorkerRecognizer from "../lib/WorkerRecognizer";
+import type { RecognizerInstance, WasmFileset } from "../lib/types";
 
 /**
  * A custom React hook for integrating the Recognizer class into React applications.
- * Manages initialization of the Recognizer instance and provides access to inference results.
+ * Manages the lifecycle of the Recognizer instance and provides access to inference results.
+ * The Recognizer is disposed on unmount, so StrictMode remounts and long-running kiosks do not leak GPU/WASM memory.
+ * @param {{ worker?: boolean, numHands?: number, vision?: WasmFileset | null }} options Set `worker` to run inference
+ * in a Web Worker instead of the main thread, falling back to the main thread if the worker fails to start, `numHands`
+ * to the maximum number of hands to track, and `vision` to the WASM runtime shared with the other tasks on the main
+ * thread. The Recognizer waits while it is undefined, and loads its own when it is null.
  * @returns {{
  *   results: GestureRecognizerResult | null,
- *   videoRef: React.MutableRefObject<HTMLVideoElement | undefined>
- * }} An object containing inference results and a reference to the video element.
+ *   timestamp: number,
+ *   videoRef: React.MutableRefObject<HTMLVideoElement | undefined>,
+ *   setVideoElement: (videoElement: HTMLVideoElement | null) => void,
+ *   recognizerRef: React.MutableRefObject<RecognizerInstance | null>,
+ *   error: string | undefined
+ * }} An object containing inference results and the timestamp of their frame, a reference to the video element and a
+ * setter to swap it.
  */
-export default function useRecognizer() {
+export default function useRecognizer({
+	worker = false,
+	numHands,
+	vision = null,
+}: { worker?: boolean; numHands?: number; vision?: WasmFileset | null } = {}) {
 	const [error, setError] = useState<string>();
 	const [results, setResults] = useState<GestureRecognizerResult | null>(null);
-	const recognizerRef = useRef<Recognizer | null>(null);
+	const [timestamp, setTimestamp] = useState(0);
+	const recognizerRef = useRef<RecognizerInstance | null>(null);
 	const videoRef = useRef<HTMLVideoElement>();
 
 	/**
-	 * Initializes the Recognizer instance when the video element becomes available.
+	 * Updates the video element, handing it over to a running Recognizer (e.g. after switching cameras).
 	 */
-	const initializeRecognizer = async () => {
-		try {
-			// Early return if a Recognizer instance already exists or video element is not available
-			if (!videoRef.current || recognizerRef.current) return;
+	const setVideoElement = useCallback((videoElement: HTMLVideoElement | null) => {
+		if (!videoElement || videoElement === videoRef.current) return;
+		videoRef.current = videoElement;
+		recognizerRef.current?.setVideoElement(videoElement);
+	}, []);
 
-			// Wait for video element to be ready
-			const waitForVideo = () => {
-				return new Promise<HTMLVideoElement>((resolve) => {
-					const checkVideo = () => {
-						if (videoRef.current && videoRef.current.readyState >= 2) {
-							resolve(videoRef.current);
-						} else {
-							setTimeout(checkVideo, 100);
-						}
-					};
-					checkVideo();
-				});
-			};
+	useEffect(() => {
+		if (vision === undefined) return;
+
+		let cancelled = false;
+		let recognizer: RecognizerInstance | null = null;
+
+		/**
+		 * Initializes the Recognizer instance when the video element becomes available.
+		 */
+		const initializeRecognizer = async () => {
+			try {
+				// Wait for video element to be ready
+				const waitForVideo = () => {
+					return new Promise<HTMLVideoElement | null>((resolve) => {
+						const checkVideo = () => {
+							if (cancelled) {
+								resolve(null);
+							} else if (videoRef.current && videoRef.current.readyState >= 2) {
+								resolve(videoRef.current);
+							} else {
+								setTimeout(checkVideo, 100);
+							}
+						};
+						checkVideo();
+					});
+				};
+
+				const videoElement = await waitForVideo();
+				if (!videoElement) return;
+				console.log("Video element ready, initializing recognizer...");
 
-			const videoElement = await waitForVideo();
-			console.log("Video element ready, initializing recognizer...");
+				const createOptions = {
+					videoElement: videoElement,
+					options: numHands ? { numHands } : undefined,
+					autoStart: false,
+				};
+				if (worker) {
+					try {
+						recognizer = await WorkerRecognizer.create(createOptions);
+					} catch (error) {
+						// e.g. a browser without module workers, recognition still works on the main thread
+						console.warn("Failed to start the recognizer worker, falling back to the main thread:", error);
+					}
+				}
+				if (!recognizer && !cancelled) {
+					recognizer = await Recognizer.create({ ...createOptions, vision: vision ?? undefined });
+				}
+				if (!recognizer) return;
 
-			const recognizer = await Recognizer.create({
-				videoElement: videoElement,
-			});
-			recognizerRef.current = recognizer;
+				// Unmounted while the model was loading
+				if (cancelled) {
+					recognizer.dispose();
+					return;
+				}
+
+				recognizerRef.current = recognizer;
+				// The video element may have been swapped while the model was loading
+				if (videoRef.current) {
+					recognizer.setVideoElement(videoRef.current);
+				}
+
+				recognizer.onResults((results, timestamp) => {
+					setResults(results);
+					setTimestamp(timestamp);
+				});
+				await recognizer.start();
 
-			recognizer.onResults((results) => {
-				console.log("Gesture recognition results:", results);
-				setResults(results);
-			});
+				console.log("Recognizer initialized successfully");
+			} catch (error) {
+				console.error("Failed to initialize Recognizer:", error);
+				setError("Failed to initialize Recognizer");
+			}
+		};
 
-			console.log("Recognizer initialized successfully");
-		} catch (error) {
-			console.error("Failed to initialize Recognizer:", error);
-			setError("Failed to initialize Recognizer");
-			throw new Error("Failed to initialize Recognizer");
-		}
-	};
+		initializeRecognizer();
 
-	useEffectOnce(initializeRecognizer);
+		return () => {
+			cancelled = true;
+			recognizer?.dispose();
+			recognizerRef.current = null;
+		};
+	}, [worker, numHands, vision]);
 
-	return { results, videoRef, recognizerRef, error };
+	return { results, timestamp, videoRef, setVideoElement, recognizerRef, error };
 }
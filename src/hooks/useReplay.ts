@@ -0,0 +1,150 @@
+import type { GestureRecognizerResult } from "@mediapipe/tasks-vision";
+import { useCallback, useEffect, useRef, useState } from "react";
+import ReplaySource from "../lib/ReplaySource";
+import type { Recording, ReplayState } from "../types/recording";
+
+const STOPPED_STATE: ReplayState = { isPlaying: false, position: 0, duration: 0, speed: 1 };
+
+/**
+ * A custom React hook that replays a recorded landmark session, or a local video file, in place of the webcam.
+ * Recordings are emitted as recognition results directly, video files play in a video element the Recognizer
+ * is pointed at, so both feed the same results pipeline.
+ * @returns {{
+ *   mode: "off" | "recording" | "video",
+ *   results: GestureRecognizerResult | null,
+ *   timestamp: number,
+ *   state: ReplayState,
+ *   videoUrl: string | undefined,
+ *   videoRef: (videoElement: HTMLVideoElement | null) => void,
+ *   playRecording: (recording: Recording) => void,
+ *   playVideo: (file: File) => void,
+ *   play: () => void,
+ *   pause: () => void,
+ *   seek: (position: number) => void,
+ *   setSpeed: (speed: number) => void,
+ *   stop: () => void
+ * }} The replay state, the replayed results and their recorded timestamp, and the playback controls.
+ */
+export default function useReplay() {
+	const [mode, setMode] = useState<"off" | "recording" | "video">("off");
+	const [results, setResults] = useState<GestureRecognizerResult | null>(null);
+	const [timestamp, setTimestamp] = useState(0);
+	const [state, setState] = useState<ReplayState>(STOPPED_STATE);
+	const [videoUrl, setVideoUrl] = useState<string>();
+	const sourceRef = useRef<ReplaySource | null>(null);
+	const videoElementRef = useRef<HTMLVideoElement | null>(null);
+
+	/**
+	 * Mirrors the state of the replay video element.
+	 */
+	const syncVideoState = useCallback(() => {
+		const video = videoElementRef.current;
+		if (!video) return;
+		setState({
+			isPlaying: !video.paused,
+			position: video.currentTime * 1000,
+			duration: Number.isFinite(video.duration) ? video.duration * 1000 : 0,
+			speed: video.playbackRate,
+		});
+	}, []);
+
+	/**
+	 * Ref callback for the video element playing the replayed video file.
+	 */
+	const videoRef = useCallback(
+		(videoElement: HTMLVideoElement | null) => {
+			const events = ["play", "pause", "timeupdate", "ratechange", "loadedmetadata"];
+			for (const event of events) {
+				videoElementRef.current?.removeEventListener(event, syncVideoState);
+			}
+			videoElementRef.current = videoElement;
+			for (const event of events) {
+				videoElement?.addEventListener(event, syncVideoState);
+			}
+		},
+		[syncVideoState],
+	);
+
+	const stop = useCallback(() => {
+		sourceRef.current?.dispose();
+		sourceRef.current = null;
+		setVideoUrl((url) => {
+			if (url) URL.revokeObjectURL(url);
+			return undefined;
+		});
+		setMode("off");
+		setResults(null);
+		setState(STOPPED_STATE);
+	}, []);
+
+	const playRecording = useCallback(
+		(recording: Recording) => {
+			stop();
+			const source = new ReplaySource(recording);
+			source.onResults((results, timestamp) => {
+				setResults(results);
+				setTimestamp(timestamp);
+			});
+			source.onStateChange(setState);
+			sourceRef.current = source;
+			setMode("recording");
+			source.play();
+		},
+		[stop],
+	);
+
+	const playVideo = useCallback(
+		(file: File) => {
+			stop();
+			setVideoUrl(URL.createObjectURL(file));
+			setMode("video");
+		},
+		[stop],
+	);
+
+	const play = useCallback(() => {
+		sourceRef.current?.play();
+		videoElementRef.current?.play().catch((error) => {
+			// Pausing or seeking interrupts the play request, which is expected.
+			if (error instanceof DOMException && error.name === "AbortError") return;
+			console.error("Failed to play the video:", error);
+		});
+	}, []);
+
+	const pause = useCallback(() => {
+		sourceRef.current?.pause();
+		videoElementRef.current?.pause();
+	}, []);
+
+	const seek = useCallback((position: number) => {
+		sourceRef.current?.seek(position);
+		if (videoElementRef.current) {
+			videoElementRef.current.currentTime = position / 1000;
+		}
+	}, []);
+
+	const setSpeed = useCallback((speed: number) => {
+		sourceRef.current?.setSpeed(speed);
+		if (videoElementRef.current) {
+			videoElementRef.current.playbackRate = speed;
+		}
+	}, []);
+
+	useEffect(() => stop, [stop]);
+
+	return {
+		mode,
+		results,
+		timestamp,
+		state,
+		videoUrl,
+		videoRef,
+		playRecording,
+		playVideo,
+		play,
+		pause,
+		seek,
+		setSpeed,
+		stop,
+	};
+}
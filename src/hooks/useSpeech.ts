@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import HttpSpeechEngine from "../lib/HttpSpeechEngine";
+import LipSync from "../lib/LipSync";
+import SpeechController from "../lib/SpeechController";
+import WebSpeechEngine from "../lib/WebSpeechEngine";
+import type { LipSyncSource, SpeechEngine, SpeechEvent, VoiceOptions } from "../types/speech";
+
+/**
+ * Use the local TTS server when one is configured, the browser's speech synthesis otherwise.
+ */
+function createSpeechEngine(): SpeechEngine {
+	const url = import.meta.env.VITE_TTS_URL;
+	return url ? new HttpSpeechEngine(url) : new WebSpeechEngine();
+}
+
+/**
+ * Drive the lip-sync from the speech, timing words by the engine's boundaries when it reports them.
+ */
+function syncLips(lipSync: LipSync, event: SpeechEvent): void {
+	if (event.type === "start") lipSync.start(event.text, event.rate);
+	else if (event.type === "boundary") lipSync.boundary(event.charIndex);
+	else lipSync.stop();
+}
+
+/**
+ * A custom React hook that speaks the avatar's messages. Speech starts muted, as browsers block audio until the
+ * page is interacted with, unless `VITE_SPEECH_MUTED` is `false`.
+ * @param message The message to speak, spoken whenever it changes. Null to stay silent.
+ * @param isPersonDetected Whether a person is detected, a new visitor hears the messages again.
+ * @param lang The BCP 47 language tag of the message.
+ * @param voice The voice options, e.g. of the current personality.
+ * @returns {{
+ *   muted: boolean,
+ *   speaking: string | null,
+ *   queued: string[],
+ *   lipSync: LipSyncSource,
+ *   setMuted: (muted: boolean) => void
+ * }} The speech state, the mouth movements synchronized to it and a function to mute or unmute it.
+ */
+export default function useSpeech(
+	message: string | null,
+	isPersonDetected: boolean,
+	lang: string,
+	voice?: Partial<VoiceOptions>,
+) {
+	const controllerRef = useRef<SpeechController>();
+	if (!controllerRef.current) {
+		controllerRef.current = new SpeechController(
+			createSpeechEngine(),
+			{},
+			import.meta.env.VITE_SPEECH_MUTED !== "false",
+		);
+	}
+
+	const lipSyncRef = useRef<LipSync>();
+	if (!lipSyncRef.current) {
+		lipSyncRef.current = new LipSync();
+	}
+
+	const [state, setState] = useState(() => (controllerRef.current as SpeechController).getState());
+
+	// The message effect reads the voice of the message's personality, without re-running when it changes.
+	const latestRef = useRef({ lang, voice });
+	latestRef.current = { lang, voice };
+
+	useEffect(() => {
+		const controller = controllerRef.current;
+		const lipSync = lipSyncRef.current;
+		if (!controller || !lipSync) return;
+
+		controller.onStateChange(setState);
+		controller.onSpeechEvent((event) => syncLips(lipSync, event));
+		return () => {
+			controller.dispose();
+			lipSync.stop();
+		};
+	}, []);
+
+	useEffect(() => {
+		if (isPersonDetected) controllerRef.current?.resetCooldowns();
+	}, [isPersonDetected]);
+
+	useEffect(() => {
+		if (!message) return;
+		controllerRef.current?.say(message, latestRef.current.lang, latestRef.current.voice);
+	}, [message]);
+
+	const setMuted = useCallback((muted: boolean) => controllerRef.current?.setMuted(muted), []);
+
+	return { ...state, lipSync: lipSyncRef.current as LipSyncSource, setMuted };
+}
@@ -0,0 +1,18 @@
+import { createContext, useContext } from "react";
+import Translator from "../lib/Translator";
+import { DEFAULT_LOCALE, DEFAULT_MESSAGES } from "../lib/locales";
+
+/**
+ * The translator of the current locale, provided by the App from `useLocale`.
+ */
+export const TranslatorContext = createContext(
+	new Translator(DEFAULT_LOCALE.code, DEFAULT_MESSAGES, { dir: DEFAULT_LOCALE.dir }),
+);
+
+/**
+ * A custom React hook that gets the translator of the current locale.
+ * @returns {Translator} The translator, whose `t` and `format` functions are bound.
+ */
+export default function useTranslation() {
+	return useContext(TranslatorContext);
+}
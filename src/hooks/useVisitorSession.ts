@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import SessionTracker from "../lib/SessionTracker";
+import type { GestureEvent } from "../types/gesture";
+import type { SessionEvent, SessionOptions, VisitorSession } from "../types/session";
+
+/**
+ * Interval at which the tracker is checked without new frames, so sessions end while the camera sees nobody.
+ */
+const TICK_MS = 250;
+
+/**
+ * A custom React hook that debounces the per-frame presence into visitor sessions.
+ * @param isPersonDetected Whether someone is in view in the latest frame.
+ * @param people How many people are in view.
+ * @param options The tracker options, read once on mount.
+ * @param onEvent Called for every "started", "engagement" and "ended" event.
+ * @returns {{
+ *   session: VisitorSession | null,
+ *   isPresent: boolean,
+ *   lastEvent: SessionEvent | null,
+ *   recordGesture: (event: GestureEvent) => void
+ * }} The current session, whether a visitor is present, the most recent session event, and a gesture event handler
+ * for the stabilizer counting the gestures of the session.
+ */
+export default function useVisitorSession(
+	isPersonDetected: boolean,
+	people = 1,
+	options?: Partial<SessionOptions>,
+	onEvent?: (event: SessionEvent) => void,
+) {
+	const trackerRef = useRef<SessionTracker>();
+	if (!trackerRef.current) {
+		trackerRef.current = new SessionTracker(options);
+	}
+	const onEventRef = useRef(onEvent);
+	onEventRef.current = onEvent;
+
+	const [session, setSession] = useState<VisitorSession | null>(null);
+	const [lastEvent, setLastEvent] = useState<SessionEvent | null>(null);
+
+	// The interval reads the presence of the latest frame without restarting on it.
+	const latestRef = useRef({ isPersonDetected, people });
+	latestRef.current = { isPersonDetected, people };
+
+	const handleEvents = useCallback((events: SessionEvent[]) => {
+		for (const event of events) {
+			onEventRef.current?.(event);
+		}
+		if (events.length > 0) {
+			setLastEvent(events[events.length - 1]);
+			setSession(trackerRef.current?.getSession() ?? null);
+		}
+	}, []);
+
+	const update = useCallback(() => {
+		const { isPersonDetected, people } = latestRef.current;
+		handleEvents(trackerRef.current?.update(isPersonDetected, people) ?? []);
+	}, [handleEvents]);
+
+	useEffect(() => {
+		const intervalId = setInterval(update, TICK_MS);
+		return () => clearInterval(intervalId);
+	}, [update]);
+
+	// biome-ignore lint/correctness/useExhaustiveDependencies: checks right away when someone appears or disappears
+	useEffect(() => {
+		update();
+	}, [isPersonDetected, update]);
+
+	const recordGesture = useCallback(
+		(event: GestureEvent) => {
+			if (event.type !== "started") return;
+			handleEvents(trackerRef.current?.gesture(event.gesture) ?? []);
+			// The gesture counts change without an event
+			setSession(trackerRef.current?.getSession() ?? null);
+		},
+		[handleEvents],
+	);
+
+	return { session, isPresent: session !== null, lastEvent, recordGesture };
+}
@@ -0,0 +1,39 @@
+import { useEffect, useState } from "react";
+import { loadWasmFileset, revokeWasmFileset } from "../lib/assets";
+import type { WasmFileset } from "../lib/types";
+
+/**
+ * A custom React hook that loads the WASM runtime of the vision tasks once, for the Recognizer and the
+ * PresenceDetector to share instead of each loading a copy. The object URLs are revoked on unmount.
+ * @returns The WasmFileset, undefined while loading and null if it failed to load, leaving the tasks to load their own.
+ */
+export default function useWasmFileset(): WasmFileset | null | undefined {
+	const [vision, setVision] = useState<WasmFileset | null>();
+
+	useEffect(() => {
+		let cancelled = false;
+		let loaded: WasmFileset | null = null;
+
+		loadWasmFileset()
+			.then((fileset) => {
+				if (cancelled) {
+					revokeWasmFileset(fileset);
+					return;
+				}
+				loaded = fileset;
+				setVision(fileset);
+			})
+			.catch((error) => {
+				console.error("Failed to load the WASM fileset:", error);
+				if (!cancelled) setVision(null);
+			});
+
+		return () => {
+			cancelled = true;
+			if (loaded) revokeWasmFileset(loaded);
+			setVision(undefined);
+		};
+	}, []);
+
+	return vision;
+}
@@ -0,0 +1,264 @@
+import type { AnalyticsEvent, AnalyticsOptions } from "../types/analytics";
+import type { AvatarPhase, GestureResponse } from "../types/avatar";
+import type { GestureEvent } from "../types/gesture";
+import type { SessionEvent, VisitorSession } from "../types/session";
+import { type AnalyticsStore, createAnalyticsStore } from "./AnalyticsStore";
+import { defaultAnalyticsOptions } from "./constants";
+
+/**
+ * An event before it is added to the session and stored.
+ */
+type NewAnalyticsEvent<Event = AnalyticsEvent> = Event extends AnalyticsEvent ? Omit<Event, "id" | "sessionId"> : never;
+
+/**
+ * Records visitor sessions, the gestures they make and the avatar's reactions into a persistent store, deleting
+ * events past the retention period. Only these facts are recorded, never camera frames or landmarks.
+ */
+export default class AnalyticsLogger {
+	/**
+	 * The persistent store.
+	 */
+	private store: AnalyticsStore;
+
+	/**
+	 * The logger options.
+	 */
+	private options: AnalyticsOptions;
+
+	/**
+	 * The kept events, oldest first, mirrored in memory for the aggregates. Updated in place, the change callback gets
+	 * a copy.
+	 */
+	private events: AnalyticsEvent[] = [];
+
+	/**
+	 * The current visitor session, null while nobody is around.
+	 */
+	private currentSession: { id: string; startedAt: number } | null = null;
+
+	/**
+	 * The interval deleting expired events.
+	 */
+	private pruneIntervalId: ReturnType<typeof setInterval> | null = null;
+
+	/**
+	 * The timeout of the pending change notification.
+	 */
+	private notifyTimeoutId: ReturnType<typeof setTimeout> | null = null;
+
+	/**
+	 * When the change callback was last called, in milliseconds since the epoch.
+	 */
+	private notifiedAt = 0;
+
+	/**
+	 * The callback function to be called when the events change.
+	 */
+	private changeCallback: ((events: AnalyticsEvent[]) => void) | null = null;
+
+	/**
+	 * Creates a new instance of the AnalyticsLogger class.
+	 * @param store The persistent store, IndexedDB where available.
+	 * @param options The logger options, merged over the defaults.
+	 */
+	constructor(store: AnalyticsStore = createAnalyticsStore(), options: Partial<AnalyticsOptions> = {}) {
+		this.store = store;
+		this.options = { ...defaultAnalyticsOptions, ...options };
+	}
+
+	/**
+	 * Deletes the expired events, loads the kept ones and keeps deleting them as they expire.
+	 */
+	async start(): Promise<void> {
+		this.stop();
+		this.pruneIntervalId = setInterval(() => this.prune(), this.options.pruneIntervalMs);
+
+		await this.prune();
+		const stored = await this.store.getAll();
+		// Events recorded while loading are not stored yet
+		this.events = [...stored, ...this.events.filter((event) => event.id === undefined)];
+		this.notify();
+	}
+
+	/**
+	 * Stops deleting expired events and drops the pending change notification.
+	 */
+	stop(): void {
+		if (this.pruneIntervalId !== null) {
+			clearInterval(this.pruneIntervalId);
+			this.pruneIntervalId = null;
+		}
+		if (this.notifyTimeoutId !== null) {
+			clearTimeout(this.notifyTimeoutId);
+			this.notifyTimeoutId = null;
+		}
+	}
+
+	/**
+	 * Records a visitor arriving, starting a session.
+	 * @param people How many people arrived.
+	 * @param timestamp When they arrived, in milliseconds since the epoch.
+	 * @param sessionId The session id, generated when not given.
+	 */
+	personArrived(
+		people: number,
+		timestamp: number = Date.now(),
+		sessionId = `${timestamp.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+	): void {
+		if (this.currentSession) {
+			this.personLeft(timestamp);
+		}
+		this.currentSession = { id: sessionId, startedAt: timestamp };
+		this.record({ type: "person_arrived", timestamp, people });
+	}
+
+	/**
+	 * Records the visitor leaving, ending the session.
+	 * @param timestamp When they left, in milliseconds since the epoch.
+	 * @param visit How engaged the visitor got and how many gestures they made, when known.
+	 */
+	personLeft(timestamp: number = Date.now(), visit?: Pick<VisitorSession, "engagement" | "gestureCount">): void {
+		if (!this.currentSession) return;
+		this.record({
+			type: "person_left",
+			timestamp,
+			dwellMs: timestamp - this.currentSession.startedAt,
+			...(visit && { engagement: visit.engagement, gestureCount: visit.gestureCount }),
+		});
+		this.currentSession = null;
+	}
+
+	/**
+	 * Records the start or end of a visitor session of the session tracker.
+	 * @param event The session event, "engagement" events are ignored.
+	 */
+	session(event: SessionEvent): void {
+		const { session } = event;
+		if (event.type === "started") {
+			this.personArrived(session.people, session.startedAt, session.id);
+		} else if (event.type === "ended") {
+			this.personLeft(session.endedAt ?? event.timestamp, session);
+		}
+	}
+
+	/**
+	 * Records a gesture once it ends, with its highest score and how long it was held.
+	 * @param event The gesture event of the stabilizer, events other than "ended" are ignored.
+	 * @param timestamp When the gesture ended, in milliseconds since the epoch.
+	 */
+	gesture(event: GestureEvent, timestamp: number = Date.now()): void {
+		if (event.type !== "ended" || event.gesture === "None") return;
+		this.record({
+			type: "gesture",
+			timestamp,
+			gesture: event.gesture,
+			confidence: event.score,
+			dwellMs: event.durationMs,
+		});
+	}
+
+	/**
+	 * Records a reaction of the avatar.
+	 * @param response The response shown.
+	 * @param phase The interaction phase it was shown in.
+	 * @param timestamp When it was shown, in milliseconds since the epoch.
+	 */
+	reaction(response: GestureResponse, phase: AvatarPhase, timestamp: number = Date.now()): void {
+		const { animation, state, mood } = response;
+		this.record({ type: "reaction", timestamp, phase, animation, state, mood });
+	}
+
+	/**
+	 * Get the kept events, oldest first.
+	 */
+	getEvents(): AnalyticsEvent[] {
+		return this.events;
+	}
+
+	/**
+	 * Deletes every event.
+	 */
+	async clear(): Promise<void> {
+		this.events = [];
+		this.notify(true);
+		await this.store.clear();
+	}
+
+	/**
+	 * Sets a callback function to be called when the events change.
+	 * @param callback The callback function to be called with the kept events.
+	 */
+	onChange(callback: (events: AnalyticsEvent[]) => void): void {
+		this.changeCallback = callback;
+	}
+
+	/**
+	 * Stops deleting expired events and releases the callback. A visitor still around is recorded as leaving.
+	 */
+	dispose(): void {
+		this.personLeft();
+		this.stop();
+		this.changeCallback = null;
+	}
+
+	/**
+	 * Adds an event to the current session and stores it.
+	 */
+	private record(event: NewAnalyticsEvent): void {
+		const pending = { ...event, sessionId: this.currentSession?.id ?? null } as AnalyticsEvent;
+		this.events.push(pending);
+		if (this.events.length > this.options.maxEvents) {
+			this.events.splice(0, this.events.length - this.options.maxEvents);
+		}
+		this.notify();
+
+		this.store
+			.add(pending)
+			.then((stored) => {
+				// The event is among the latest, unless it was dropped or pruned meanwhile.
+				const index = this.events.lastIndexOf(pending);
+				if (index !== -1) this.events[index] = stored;
+			})
+			.catch((error) => console.error("Failed to store analytics event:", error));
+	}
+
+	/**
+	 * Deletes the events past the retention period, and the oldest beyond the most events kept.
+	 */
+	private async prune(timestamp: number = Date.now()): Promise<void> {
+		const before = timestamp - this.options.retentionMs;
+		const kept = this.events.filter((event) => event.timestamp >= before);
+		if (kept.length !== this.events.length) {
+			this.events = kept;
+			this.notify();
+		}
+		try {
+			await this.store.prune(before, this.options.maxEvents);
+		} catch (error) {
+			console.error("Failed to delete expired analytics events:", error);
+		}
+	}
+
+	/**
+	 * Calls the change callback with a copy of the events, at most once every `notifyIntervalMs` unless immediately.
+	 * @param immediately Whether to call it right away, for changes the user made.
+	 */
+	private notify(immediately = false): void {
+		if (this.notifyTimeoutId !== null) {
+			if (!immediately) return;
+			clearTimeout(this.notifyTimeoutId);
+			this.notifyTimeoutId = null;
+		}
+
+		const delay = immediately ? 0 : this.notifiedAt + this.options.notifyIntervalMs - Date.now();
+		if (delay > 0) {
+			this.notifyTimeoutId = setTimeout(() => {
+				this.notifyTimeoutId = null;
+				this.notify();
+			}, delay);
+			return;
+		}
+		this.notifiedAt = Date.now();
+		this.changeCallback?.([...this.events]);
+	}
+}
@@ -0,0 +1,137 @@
+import type { AnalyticsEvent } from "../types/analytics";
+
+/**
+ * Name of the database holding the analytics events.
+ */
+const DATABASE_NAME = "interactive-avatar-analytics";
+
+/**
+ * Persistent storage for analytics events, oldest first.
+ */
+export interface AnalyticsStore {
+	add(event: AnalyticsEvent): Promise<AnalyticsEvent>;
+	getAll(): Promise<AnalyticsEvent[]>;
+	/**
+	 * Deletes the events before a timestamp, and the oldest ones beyond a count.
+	 */
+	prune(before: number, maxEvents: number): Promise<void>;
+	clear(): Promise<void>;
+}
+
+/**
+ * Analytics store backed by IndexedDB, so events survive reloads and restarts of the kiosk.
+ */
+export class IndexedDbAnalyticsStore implements AnalyticsStore {
+	private static readonly STORE_NAME = "events";
+
+	private database: Promise<IDBDatabase> | null = null;
+
+	private open(): Promise<IDBDatabase> {
+		if (!this.database) {
+			this.database = new Promise((resolve, reject) => {
+				const request = indexedDB.open(DATABASE_NAME, 1);
+				request.onupgradeneeded = () => {
+					const store = request.result.createObjectStore(IndexedDbAnalyticsStore.STORE_NAME, {
+						keyPath: "id",
+						autoIncrement: true,
+					});
+					store.createIndex("timestamp", "timestamp");
+				};
+				request.onsuccess = () => resolve(request.result);
+				request.onerror = () => reject(request.error);
+			});
+		}
+		return this.database;
+	}
+
+	private async run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+		const database = await this.open();
+		return new Promise((resolve, reject) => {
+			const transaction = database.transaction(IndexedDbAnalyticsStore.STORE_NAME, mode);
+			const request = operation(transaction.objectStore(IndexedDbAnalyticsStore.STORE_NAME));
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => reject(request.error);
+		});
+	}
+
+	async add(event: AnalyticsEvent): Promise<AnalyticsEvent> {
+		const { id: _, ...record } = event;
+		const id = await this.run("readwrite", (store) => store.add(record));
+		return { ...event, id: id as number };
+	}
+
+	async getAll(): Promise<AnalyticsEvent[]> {
+		return this.run<AnalyticsEvent[]>("readonly", (store) => store.index("timestamp").getAll());
+	}
+
+	async prune(before: number, maxEvents: number): Promise<void> {
+		const database = await this.open();
+		await new Promise<void>((resolve, reject) => {
+			const transaction = database.transaction(IndexedDbAnalyticsStore.STORE_NAME, "readwrite");
+			const store = transaction.objectStore(IndexedDbAnalyticsStore.STORE_NAME);
+			transaction.oncomplete = () => resolve();
+			transaction.onerror = () => reject(transaction.error);
+
+			const timestamps = store.index("timestamp");
+			timestamps.openCursor(IDBKeyRange.upperBound(before, true)).onsuccess = (event) => {
+				const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+				if (cursor) {
+					cursor.delete();
+					cursor.continue();
+					return;
+				}
+
+				// The expired events are gone, drop the oldest of the rest beyond the limit
+				const count = store.count();
+				count.onsuccess = () => {
+					let excess = count.result - maxEvents;
+					if (excess <= 0) return;
+					timestamps.openCursor().onsuccess = (event) => {
+						const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+						if (!cursor || excess-- <= 0) return;
+						cursor.delete();
+						cursor.continue();
+					};
+				};
+			};
+		});
+	}
+
+	async clear(): Promise<void> {
+		await this.run("readwrite", (store) => store.clear());
+	}
+}
+
+/**
+ * Analytics store kept in memory, for contexts without IndexedDB. Events are lost on reload.
+ */
+export class MemoryAnalyticsStore implements AnalyticsStore {
+	private events: AnalyticsEvent[] = [];
+
+	private nextId = 1;
+
+	async add(event: AnalyticsEvent): Promise<AnalyticsEvent> {
+		const stored = { ...event, id: this.nextId++ };
+		this.events.push(stored);
+		return stored;
+	}
+
+	async getAll(): Promise<AnalyticsEvent[]> {
+		return [...this.events];
+	}
+
+	async prune(before: number, maxEvents: number): Promise<void> {
+		this.events = this.events.filter((event) => event.timestamp >= before).slice(-maxEvents);
+	}
+
+	async clear(): Promise<void> {
+		this.events = [];
+	}
+}
+
+/**
+ * Creates the analytics store, in memory where IndexedDB is unavailable.
+ */
+export function createAnalyticsStore(): AnalyticsStore {
+	return typeof indexedDB !== "undefined" ? new IndexedDbAnalyticsStore() : new MemoryAnalyticsStore();
+}
@@ -0,0 +1,107 @@
+import type { Variants } from "framer-motion";
+import type { AnimationClip, AnimationPart, AnimationParts } from "../types/animation";
+
+/**
+ * The clip played for unknown animation names.
+ */
+const FALLBACK_CLIP = "idle";
+
+/**
+ * Animation clips by name. Responses refer to animations by name only, so a clip can be backed by Framer Motion
+ * keyframes, a sprite sheet or a vector animation file without changing them.
+ */
+export default class AnimationRegistry {
+	/**
+	 * The clips by name.
+	 */
+	private clips = new Map<string, AnimationClip>();
+
+	/**
+	 * The parts at rest, while a clip does not animate them.
+	 */
+	private rest: AnimationParts;
+
+	/**
+	 * The Framer Motion variants of every part, built on first use.
+	 */
+	private partVariants = new Map<AnimationPart, Variants>();
+
+	/**
+	 * Creates a new instance of the AnimationRegistry class.
+	 * @param clips The clips, later ones replacing earlier ones of the same name.
+	 * @param rest The parts at rest, while a clip does not animate them.
+	 */
+	constructor(clips: AnimationClip[] = [], rest: AnimationParts = {}) {
+		this.rest = rest;
+		for (const clip of clips) {
+			this.clips.set(clip.name, clip);
+		}
+	}
+
+	/**
+	 * Creates a registry with more clips, replacing the ones of the same name.
+	 * @param clips The clips to add.
+	 */
+	extend(clips: AnimationClip[]): AnimationRegistry {
+		return new AnimationRegistry([...this.clips.values(), ...clips], this.rest);
+	}
+
+	/**
+	 * Check if there is a clip with the name.
+	 */
+	has(name: string): boolean {
+		return this.clips.has(name);
+	}
+
+	/**
+	 * Get a clip by name, undefined if there is none.
+	 */
+	get(name: string): AnimationClip | undefined {
+		return this.clips.get(name);
+	}
+
+	/**
+	 * Get the names of every clip.
+	 */
+	getNames(): string[] {
+		return [...this.clips.keys()];
+	}
+
+	/**
+	 * Get the clip to play for an animation name, the idle clip for unknown names.
+	 * @throws If there is neither a clip with the name nor an idle clip.
+	 */
+	resolve(name: string): AnimationClip {
+		const clip = this.clips.get(name) ?? this.clips.get(FALLBACK_CLIP);
+		if (!clip) {
+			throw new Error(`Unknown animation ${name} and no ${FALLBACK_CLIP} animation to fall back to`);
+		}
+		return clip;
+	}
+
+	/**
+	 * Get the Framer Motion variants of a part, named after the clips, so the part follows the clip named by the
+	 * animation of its parent. Sprite clips, and clips that leave the part out, rest it.
+	 * @param part The part.
+	 */
+	getPartVariants(part: AnimationPart): Variants {
+		let variants = this.partVariants.get(part);
+		if (!variants) {
+			const rest = this.rest[part] ?? {};
+			variants = Object.fromEntries(
+				[...this.clips.values()].map((clip) => [clip.name, (clip.type !== "sprite" && clip.parts?.[part]) || rest]),
+			);
+			this.partVariants.set(part, variants);
+		}
+		return variants;
+	}
+
+	/**
+	 * Find the animation names without a clip.
+	 * @param names The animation names, e.g. of every response.
+	 * @returns The unknown names, without duplicates.
+	 */
+	findMissing(names: Iterable<string>): string[] {
+		return [...new Set(names)].filter((name) => !this.clips.has(name));
+	}
+}
@@ -0,0 +1,103 @@
+import { MEDIAPIPE_VERSION } from "./constants";
+import type { AssetCacheKind } from "./types";
+
+/**
+ * Name of the cache / database holding downloaded assets.
+ * Versioned so upgrading the pinned runtime never serves stale files.
+ */
+const CACHE_NAME = `interactive-avatar-assets-${MEDIAPIPE_VERSION}`;
+
+/**
+ * Persistent key/value storage for binary assets.
+ */
+export interface AssetCache {
+	get(key: string): Promise<ArrayBuffer | null>;
+	put(key: string, data: ArrayBuffer): Promise<void>;
+	delete(key: string): Promise<void>;
+}
+
+/**
+ * Asset cache backed by the Cache Storage API.
+ */
+export class CacheStorageAssetCache implements AssetCache {
+	async get(key: string): Promise<ArrayBuffer | null> {
+		const cache = await caches.open(CACHE_NAME);
+		const response = await cache.match(key);
+		return response ? response.arrayBuffer() : null;
+	}
+
+	async put(key: string, data: ArrayBuffer): Promise<void> {
+		const cache = await caches.open(CACHE_NAME);
+		await cache.put(key, new Response(data));
+	}
+
+	async delete(key: string): Promise<void> {
+		const cache = await caches.open(CACHE_NAME);
+		await cache.delete(key);
+	}
+}
+
+/**
+ * Asset cache backed by IndexedDB, available in contexts where Cache Storage is not.
+ */
+export class IndexedDbAssetCache implements AssetCache {
+	private static readonly STORE_NAME = "assets";
+
+	private database: Promise<IDBDatabase> | null = null;
+
+	private open(): Promise<IDBDatabase> {
+		if (!this.database) {
+			this.database = new Promise((resolve, reject) => {
+				const request = indexedDB.open(CACHE_NAME, 1);
+				request.onupgradeneeded = () => request.result.createObjectStore(IndexedDbAssetCache.STORE_NAME);
+				request.onsuccess = () => resolve(request.result);
+				request.onerror = () => reject(request.error);
+			});
+		}
+		return this.database;
+	}
+
+	private async run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+		const database = await this.open();
+		return new Promise((resolve, reject) => {
+			const transaction = database.transaction(IndexedDbAssetCache.STORE_NAME, mode);
+			const request = operation(transaction.objectStore(IndexedDbAssetCache.STORE_NAME));
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => reject(request.error);
+		});
+	}
+
+	async get(key: string): Promise<ArrayBuffer | null> {
+		const result = await this.run<ArrayBuffer | undefined>("readonly", (store) => store.get(key));
+		return result ?? null;
+	}
+
+	async put(key: string, data: ArrayBuffer): Promise<void> {
+		await this.run("readwrite", (store) => store.put(data, key));
+	}
+
+	async delete(key: string): Promise<void> {
+		await this.run("readwrite", (store) => store.delete(key));
+	}
+}
+
+/**
+ * Creates the asset cache for the requested kind, or null when caching is disabled or unsupported.
+ * @param kind The kind of cache to create.
+ */
+export function createAssetCache(kind: AssetCacheKind = "auto"): AssetCache | null {
+	const hasCacheStorage = typeof caches !== "undefined";
+	const hasIndexedDb = typeof indexedDB !== "undefined";
+
+	switch (kind) {
+		case "cache-storage":
+			return hasCacheStorage ? new CacheStorageAssetCache() : null;
+		case "indexeddb":
+			return hasIndexedDb ? new IndexedDbAssetCache() : null;
+		case "auto":
+			if (hasCacheStorage) return new CacheStorageAssetCache();
+			return hasIndexedDb ? new IndexedDbAssetCache() : null;
+		default:
+			return null;
+	}
+}
@@ -0,0 +1,115 @@
+import type { AvatarMood, Emotion, EmotionOptions, GestureSentiment } from "../types/avatar";
+import { defaultEmotionOptions } from "./constants";
+
+/**
+ * Accumulates valence and arousal from the gestures the avatar sees, decaying exponentially toward neutral,
+ * so the avatar's mood reflects the whole interaction instead of only the latest gesture.
+ */
+export default class EmotionModel {
+	/**
+	 * The model options.
+	 */
+	private options: EmotionOptions;
+
+	/**
+	 * The emotion as of `updatedAt`.
+	 */
+	private emotion: Emotion = { valence: 0, arousal: 0 };
+	private updatedAt: number;
+
+	/**
+	 * Creates a new instance of the EmotionModel class.
+	 * @param options The model options, merged over the defaults.
+	 * @param timestamp The current timestamp in milliseconds.
+	 */
+	constructor(options: Partial<EmotionOptions> = {}, timestamp: number = Date.now()) {
+		this.options = { ...defaultEmotionOptions, ...options };
+		this.updatedAt = timestamp;
+	}
+
+	/**
+	 * Applies the decay since the last update.
+	 */
+	private decay(timestamp: number): void {
+		const elapsed = Math.max(0, timestamp - this.updatedAt);
+		const factor = 0.5 ** (elapsed / this.options.halfLifeMs);
+		this.emotion = { valence: this.emotion.valence * factor, arousal: this.emotion.arousal * factor };
+		this.updatedAt = timestamp;
+	}
+
+	/**
+	 * Feeds a gesture into the model. Friendly gestures raise the valence, rude ones lower it, and any gesture
+	 * raises the arousal.
+	 * @param sentiment Whether the gesture is friendly, rude or neither.
+	 * @param timestamp The gesture timestamp in milliseconds.
+	 * @returns The emotion after the gesture.
+	 */
+	apply(sentiment: GestureSentiment, timestamp: number = Date.now()): Emotion {
+		this.decay(timestamp);
+
+		const { positiveImpulse, negativeImpulse, arousalImpulse, neutralArousalImpulse } = this.options;
+		let { valence, arousal } = this.emotion;
+		if (sentiment === "positive") {
+			valence += positiveImpulse;
+			arousal += arousalImpulse;
+		} else if (sentiment === "negative") {
+			valence -= negativeImpulse;
+			arousal += arousalImpulse;
+		} else {
+			arousal += neutralArousalImpulse;
+		}
+
+		this.emotion = { valence: clamp(valence, -1, 1), arousal: clamp(arousal, 0, 1) };
+		return this.getEmotion(timestamp);
+	}
+
+	/**
+	 * Get the emotion at a point in time.
+	 * @param timestamp The timestamp in milliseconds, not before the last gesture.
+	 */
+	getEmotion(timestamp: number = Date.now()): Emotion {
+		this.decay(timestamp);
+		return { ...this.emotion };
+	}
+
+	/**
+	 * Get the mood at a point in time.
+	 * @param timestamp The timestamp in milliseconds, not before the last gesture.
+	 */
+	getMood(timestamp: number = Date.now()): AvatarMood {
+		return getMood(this.getEmotion(timestamp), this.options);
+	}
+
+	/**
+	 * Replaces the options, e.g. when switching personalities.
+	 * @param options The model options, merged over the defaults.
+	 */
+	setOptions(options: Partial<EmotionOptions> = {}): void {
+		this.options = { ...defaultEmotionOptions, ...options };
+	}
+
+	/**
+	 * Resets the emotion to neutral.
+	 * @param timestamp The current timestamp in milliseconds.
+	 */
+	reset(timestamp: number = Date.now()): void {
+		this.emotion = { valence: 0, arousal: 0 };
+		this.updatedAt = timestamp;
+	}
+}
+
+/**
+ * Derives the mood from an emotion.
+ * @param emotion The emotion.
+ * @param options The thresholds, defaults to the default emotion options.
+ */
+export function getMood({ valence, arousal }: Emotion, options: EmotionOptions = defaultEmotionOptions): AvatarMood {
+	if (valence <= options.defensiveValence) return "defensive";
+	if (valence <= options.waryValence) return "wary";
+	if (valence >= options.happyValence) return arousal >= options.excitedArousal ? "excited" : "happy";
+	return arousal < options.boredArousal ? "bored" : "neutral";
+}
+
+function clamp(value: number, min: number, max: number): number {
+	return Math.min(max, Math.max(min, value));
+}
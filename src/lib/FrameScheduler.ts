@@ -0,0 +1,225 @@
+import type { InferenceOptions, InferenceStats } from "./types";
+
+/**
+ * Smoothing factor of the latency moving average.
+ */
+const LATENCY_SMOOTHING = 0.1;
+
+/**
+ * Handle of the next scheduled frame.
+ */
+type FrameHandle = { type: "animation"; id: number } | { type: "video"; id: number; videoElement: HTMLVideoElement };
+
+/**
+ * Called for every frame due for inference.
+ * Returns false if the frame was not consumed (e.g. a previous frame is still being processed).
+ */
+type FrameCallback = (videoElement: HTMLVideoElement, timestamp: number) => boolean;
+
+/**
+ * Schedules inference on a video element, limiting it to new video frames and a target rate
+ * that adapts to the measured inference latency.
+ */
+export default class FrameScheduler {
+	/**
+	 * The inference scheduling options.
+	 */
+	private options: Required<InferenceOptions>;
+
+	/**
+	 * The callback run for every frame due for inference.
+	 */
+	private callback: FrameCallback;
+
+	/**
+	 * The HTML video element frames are taken from.
+	 */
+	private videoElement: HTMLVideoElement | null = null;
+
+	/**
+	 * The pending frame callback, null while the loop is not running.
+	 */
+	private frameHandle: FrameHandle | null = null;
+
+	/**
+	 * Whether the loop should be running.
+	 */
+	private running = false;
+
+	/**
+	 * Current inference rate limit, adjusted by adaptive throttling.
+	 */
+	private currentFps: number;
+
+	/**
+	 * Time of the last inference, from performance.now().
+	 */
+	private lastInferenceTime = Number.NEGATIVE_INFINITY;
+
+	/**
+	 * Video time of the last processed frame.
+	 */
+	private lastVideoTime = -1;
+
+	/**
+	 * Moving average of the inference latency in milliseconds.
+	 */
+	private averageLatencyMs = 0;
+
+	/**
+	 * Number of skipped frames.
+	 */
+	private skippedFrames = 0;
+
+	/**
+	 * Creates a new instance of the FrameScheduler class.
+	 * @param options The inference scheduling options.
+	 * @param callback The callback run for every frame due for inference.
+	 */
+	constructor(options: Required<InferenceOptions>, callback: FrameCallback) {
+		this.options = options;
+		this.callback = callback;
+		this.currentFps = options.targetFps;
+	}
+
+	/**
+	 * Waits until the video element has frame data, or the scheduler is stopped.
+	 * @returns A Promise that resolves to whether the video is ready.
+	 */
+	private waitForVideoReady(videoElement: HTMLVideoElement): Promise<boolean> {
+		return new Promise((resolve) => {
+			const checkVideo = () => {
+				if (!this.running || videoElement !== this.videoElement) {
+					resolve(false);
+				} else if (videoElement.readyState >= 2) {
+					// HAVE_CURRENT_DATA
+					resolve(true);
+				} else {
+					setTimeout(checkVideo, 100);
+				}
+			};
+			checkVideo();
+		});
+	}
+
+	/**
+	 * Schedules the next step, on the next video frame where supported, otherwise on the next animation frame.
+	 */
+	private scheduleNextFrame(videoElement: HTMLVideoElement): void {
+		if (this.options.useVideoFrameCallback && "requestVideoFrameCallback" in videoElement) {
+			this.frameHandle = { type: "video", id: videoElement.requestVideoFrameCallback(this.loop), videoElement };
+		} else {
+			this.frameHandle = { type: "animation", id: requestAnimationFrame(this.loop) };
+		}
+	}
+
+	/**
+	 * Cancels the pending step, if any.
+	 */
+	private cancelNextFrame(): void {
+		if (this.frameHandle?.type === "video") {
+			this.frameHandle.videoElement.cancelVideoFrameCallback(this.frameHandle.id);
+		} else if (this.frameHandle?.type === "animation") {
+			cancelAnimationFrame(this.frameHandle.id);
+		}
+		this.frameHandle = null;
+	}
+
+	/**
+	 * Whether the current frame should be skipped, because the video has not advanced
+	 * or the inference rate limit has been reached.
+	 * @param videoElement The HTML video element.
+	 * @param now The current time from performance.now().
+	 */
+	private shouldSkipFrame(videoElement: HTMLVideoElement, now: number): boolean {
+		if (videoElement.currentTime === this.lastVideoTime) return true;
+		// Small tolerance so a limit equal to the display or video rate doesn't drop every other frame.
+		return now - this.lastInferenceTime < 1000 / this.currentFps - 2;
+	}
+
+	/**
+	 * Runs one step and schedules the next one.
+	 */
+	private loop = () => {
+		this.frameHandle = null;
+		const videoElement = this.videoElement;
+		if (!this.running || !videoElement) return;
+
+		if (videoElement.readyState >= 2) {
+			const now = performance.now();
+			if (this.shouldSkipFrame(videoElement, now) || !this.callback(videoElement, now)) {
+				this.skippedFrames++;
+			} else {
+				this.lastInferenceTime = now;
+				this.lastVideoTime = videoElement.currentTime;
+			}
+		}
+
+		this.scheduleNextFrame(videoElement);
+	};
+
+	/**
+	 * Starts scheduling frames from the video element once it is ready.
+	 * Does nothing if the scheduler is already running on this element.
+	 * @param videoElement The HTML video element.
+	 * @returns A Promise that resolves when the loop has started, or immediately if it was stopped before that.
+	 */
+	async start(videoElement: HTMLVideoElement): Promise<void> {
+		if (this.running && videoElement === this.videoElement) return;
+
+		this.stop();
+		this.running = true;
+		this.videoElement = videoElement;
+		this.lastVideoTime = -1;
+		if ((await this.waitForVideoReady(videoElement)) && this.frameHandle === null) {
+			this.loop();
+		}
+	}
+
+	/**
+	 * Stops scheduling frames.
+	 */
+	stop(): void {
+		this.running = false;
+		this.cancelNextFrame();
+	}
+
+	/**
+	 * Whether the loop is running.
+	 */
+	isRunning(): boolean {
+		return this.running;
+	}
+
+	/**
+	 * Records the latency of an inference and, in adaptive mode, adjusts the inference rate to stay within budget.
+	 * @param latencyMs The latency of the inference in milliseconds.
+	 */
+	recordLatency(latencyMs: number): void {
+		this.averageLatencyMs =
+			this.averageLatencyMs === 0
+				? latencyMs
+				: this.averageLatencyMs + (latencyMs - this.averageLatencyMs) * LATENCY_SMOOTHING;
+
+		if (!this.options.adaptive) return;
+
+		const { latencyBudgetMs, minFps, targetFps } = this.options;
+		if (this.averageLatencyMs > latencyBudgetMs) {
+			this.currentFps = Math.max(minFps, this.currentFps * 0.9);
+		} else if (this.averageLatencyMs < latencyBudgetMs / 2) {
+			this.currentFps = Math.min(targetFps, this.currentFps * 1.05);
+		}
+	}
+
+	/**
+	 * Get the current inference performance.
+	 * @returns The current inference rate limit, average latency and skipped frame count.
+	 */
+	getStats(): InferenceStats {
+		return {
+			fps: this.currentFps,
+			averageLatencyMs: this.averageLatencyMs,
+			skippedFrames: this.skippedFrames,
+		};
+	}
+}
@@ -0,0 +1,133 @@
+import type { NormalizedLandmark } from "@mediapipe/tasks-vision";
+import type { Gaze, GazeOptions, GazeSource } from "../types/avatar";
+import { defaultGazeOptions } from "./constants";
+import { getPalmCenter } from "./landmarks";
+
+const CENTER: Gaze = { x: 0, y: 0 };
+
+/**
+ * Tracks where the avatar looks: toward the visible hands, smoothed and within limits, and wandering around once
+ * nobody has been seen for a moment.
+ */
+export default class GazeTracker implements GazeSource {
+	/**
+	 * The tracker options.
+	 */
+	private options: GazeOptions;
+
+	/**
+	 * Random number generator in [0, 1), injectable for deterministic behavior.
+	 */
+	private random: () => number;
+
+	/**
+	 * Where the hands were last seen, and when.
+	 */
+	private handTarget: Gaze = CENTER;
+	private handSeenAt = Number.NEGATIVE_INFINITY;
+
+	/**
+	 * Where the avatar glances while wandering, and when it picks the next glance.
+	 */
+	private wanderTarget: Gaze = CENTER;
+	private nextWanderAt = 0;
+
+	/**
+	 * The smoothed gaze, and when it was last computed.
+	 */
+	private gaze: Gaze = CENTER;
+	private gazeAt: number | null = null;
+
+	/**
+	 * Creates a new instance of the GazeTracker class.
+	 * @param options The tracker options, merged over the defaults.
+	 * @param random Random number generator in [0, 1), defaults to `Math.random`.
+	 */
+	constructor(options: Partial<GazeOptions> = {}, random: () => number = Math.random) {
+		this.options = { ...defaultGazeOptions, ...options };
+		this.random = random;
+	}
+
+	/**
+	 * Feeds the landmarks of a frame into the tracker. The avatar looks at the middle of the visible hands.
+	 * @param landmarks The landmarks of every visible hand.
+	 * @param timestamp The frame timestamp in milliseconds.
+	 */
+	update(landmarks: NormalizedLandmark[][] | undefined, timestamp: number = performance.now()): void {
+		const palms = (landmarks ?? []).filter((hand) => hand.length >= 21).map(getPalmCenter);
+		if (palms.length === 0) return;
+
+		const x = palms.reduce((sum, palm) => sum + palm.x, 0) / palms.length;
+		const y = palms.reduce((sum, palm) => sum + palm.y, 0) / palms.length;
+		const { mirroredInput, gain, maxX, maxY } = this.options;
+		// The person in front of the screen is the viewer. A hand on their left, on the right of an unmirrored camera
+		// image, makes the avatar look to its right: the viewer's left, towards the hand.
+		const towardsRight = mirroredInput ? x * 2 - 1 : 1 - x * 2;
+		this.handTarget = {
+			x: clamp(towardsRight * gain, maxX),
+			y: clamp((y * 2 - 1) * gain, maxY),
+		};
+		this.handSeenAt = timestamp;
+	}
+
+	/**
+	 * Get where the avatar looks, moving the smoothed gaze toward its target.
+	 * @param timestamp The timestamp in milliseconds.
+	 */
+	getGaze(timestamp: number = performance.now()): Gaze {
+		const target = this.getTarget(timestamp);
+		const elapsed = this.gazeAt === null ? Number.POSITIVE_INFINITY : Math.max(0, timestamp - this.gazeAt);
+		const step = 1 - Math.exp(-elapsed / this.options.smoothingMs);
+
+		this.gaze = {
+			x: this.gaze.x + (target.x - this.gaze.x) * step,
+			y: this.gaze.y + (target.y - this.gaze.y) * step,
+		};
+		this.gazeAt = timestamp;
+		return this.gaze;
+	}
+
+	/**
+	 * Check if a hand was seen recently enough to be followed.
+	 * @param timestamp The timestamp in milliseconds.
+	 */
+	isTracking(timestamp: number = performance.now()): boolean {
+		return timestamp - this.handSeenAt < this.options.lostAfterMs;
+	}
+
+	/**
+	 * Replaces the options.
+	 * @param options The tracker options, merged over the defaults.
+	 */
+	setOptions(options: Partial<GazeOptions> = {}): void {
+		this.options = { ...defaultGazeOptions, ...options };
+	}
+
+	/**
+	 * Get where the avatar should look: at the hands while tracking, otherwise at a random glance every now and
+	 * then, half of them straight ahead.
+	 */
+	private getTarget(timestamp: number): Gaze {
+		if (this.isTracking(timestamp)) {
+			this.nextWanderAt = timestamp;
+			return this.handTarget;
+		}
+
+		if (timestamp >= this.nextWanderAt) {
+			const { wanderMinMs, wanderMaxMs, wanderAmount, maxX, maxY } = this.options;
+			this.wanderTarget =
+				this.random() < 0.5
+					? CENTER
+					: {
+							x: clamp((this.random() * 2 - 1) * wanderAmount, maxX),
+							y: clamp((this.random() * 2 - 1) * wanderAmount, maxY),
+						};
+			this.nextWanderAt = timestamp + wanderMinMs + this.random() * (wanderMaxMs - wanderMinMs);
+		}
+		return this.wanderTarget;
+	}
+}
+
+function clamp(value: number, limit: number): number {
+	return Math.min(limit, Math.max(-limit, value));
+}
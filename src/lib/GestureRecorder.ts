@@ -0,0 +1,108 @@
+import type { GestureRecognizerResult } from "@mediapipe/tasks-vision";
+import type { Recording } from "../types/recording";
+
+/**
+ * Records labeled streams of recognition results, to tune thresholds and build custom gestures.
+ */
+export default class GestureRecorder {
+	/**
+	 * The finished recordings.
+	 */
+	private recordings: Recording[] = [];
+
+	/**
+	 * The recording in progress, and its start time from performance.now().
+	 */
+	private current: Recording | null = null;
+	private startTime = 0;
+
+	/**
+	 * Starts a new recording, stopping the one in progress.
+	 * @param label The label of the recorded gesture.
+	 */
+	start(label: string): void {
+		this.stop();
+		this.current = {
+			id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+			label,
+			startedAt: new Date().toISOString(),
+			frames: [],
+		};
+		this.startTime = performance.now();
+	}
+
+	/**
+	 * Stops the recording in progress. Recordings without frames are discarded.
+	 * @returns The finished recording, null if nothing was recorded.
+	 */
+	stop(): Recording | null {
+		const recording = this.current;
+		this.current = null;
+		if (!recording || recording.frames.length === 0) return null;
+
+		this.recordings.push(recording);
+		return recording;
+	}
+
+	/**
+	 * Adds a frame of results to the recording in progress.
+	 * @param results The recognition results.
+	 * @param timestamp The frame time from performance.now().
+	 */
+	addFrame(results: GestureRecognizerResult, timestamp: number = performance.now()): void {
+		if (!this.current) return;
+
+		this.current.frames.push({
+			timestamp: timestamp - this.startTime,
+			landmarks: results.landmarks,
+			worldLandmarks: results.worldLandmarks,
+			handedness: results.handedness,
+			gestures: results.gestures,
+		});
+	}
+
+	/**
+	 * Whether a recording is in progress.
+	 */
+	isRecording(): boolean {
+		return this.current !== null;
+	}
+
+	/**
+	 * Number of frames in the recording in progress.
+	 */
+	getFrameCount(): number {
+		return this.current?.frames.length ?? 0;
+	}
+
+	/**
+	 * Get the finished recordings.
+	 */
+	getRecordings(): Recording[] {
+		return this.recordings;
+	}
+
+	/**
+	 * Adds previously exported recordings, skipping those already present.
+	 * @param recordings The recordings to add.
+	 */
+	addRecordings(recordings: Recording[]): void {
+		const ids = new Set(this.recordings.map((recording) => recording.id));
+		this.recordings.push(...recordings.filter((recording) => !ids.has(recording.id)));
+	}
+
+	/**
+	 * Removes a finished recording.
+	 * @param id The id of the recording.
+	 */
+	removeRecording(id: string): void {
+		this.recordings = this.recordings.filter((recording) => recording.id !== id);
+	}
+
+	/**
+	 * Removes all finished recordings.
+	 */
+	clear(): void {
+		this.recordings = [];
+	}
+}
@@ -0,0 +1,252 @@
+import type { GestureType } from "../types/avatar";
+import type { GestureEvent, GestureStabilizerOptions, GestureThresholds } from "../types/gesture";
+import { defaultStabilizerOptions } from "./constants";
+
+/**
+ * A single classified frame.
+ */
+interface GestureFrame {
+	gesture: GestureType;
+	score: number;
+}
+
+/**
+ * Turns per-frame gesture classifications into stable gestures, using a score threshold,
+ * N-of-M frame voting and hold/release timings, and emits "started", "held" and "ended" events.
+ */
+export default class GestureStabilizer {
+	/**
+	 * The stabilizer options.
+	 */
+	private options: GestureStabilizerOptions;
+
+	/**
+	 * The most recent frames, newest last.
+	 */
+	private frames: GestureFrame[] = [];
+
+	/**
+	 * The currently active gesture.
+	 */
+	private active: GestureType = "None";
+
+	/**
+	 * When the active gesture started, and when it last won the vote.
+	 */
+	private activeSince = 0;
+	private activeLastSeen = 0;
+
+	/**
+	 * Highest score of the active gesture.
+	 */
+	private activeScore = 0;
+
+	/**
+	 * When the last "held" event was emitted.
+	 */
+	private lastHeldAt = 0;
+
+	/**
+	 * The gesture waiting to start, and since when it has been winning the vote.
+	 */
+	private pending: GestureType = "None";
+	private pendingSince = 0;
+
+	/**
+	 * The timestamp of the latest frame, null before the first.
+	 */
+	private lastFrameAt: number | null = null;
+
+	/**
+	 * The callback function to be called for every gesture event.
+	 */
+	private eventCallback: ((event: GestureEvent) => void) | null = null;
+
+	/**
+	 * Creates a new instance of the GestureStabilizer class.
+	 * @param options The stabilizer options, merged over the defaults.
+	 */
+	constructor(options: Partial<GestureStabilizerOptions> = {}) {
+		this.options = {
+			...defaultStabilizerOptions,
+			...options,
+			perGesture: { ...defaultStabilizerOptions.perGesture, ...options.perGesture },
+		};
+	}
+
+	/**
+	 * Get the thresholds for a gesture, including its overrides.
+	 * @param gesture The gesture.
+	 */
+	getThresholds(gesture: GestureType): GestureThresholds {
+		return { ...this.options, ...this.options.perGesture?.[gesture] };
+	}
+
+	/**
+	 * Counts the votes of the gesture over its window.
+	 */
+	private countVotes(gesture: GestureType): number {
+		const window = this.frames.slice(-this.getThresholds(gesture).windowSize);
+		return window.filter((frame) => frame.gesture === gesture).length;
+	}
+
+	/**
+	 * Finds the gesture winning the vote over the recent frames, "None" if there is no winner.
+	 */
+	private vote(): GestureType {
+		let winner: GestureType = "None";
+		let winnerVotes = 0;
+		const candidates = new Set(this.frames.map((frame) => frame.gesture));
+
+		for (const gesture of candidates) {
+			const votes = this.countVotes(gesture);
+			if (gesture === "None" || votes < this.getThresholds(gesture).minVotes) continue;
+			// The active gesture wins ties, so two gestures alternating don't flip it.
+			if (votes > winnerVotes || (votes === winnerVotes && gesture === this.active)) {
+				winner = gesture;
+				winnerVotes = votes;
+			}
+		}
+		return winner;
+	}
+
+	/**
+	 * Emits an event for the active gesture.
+	 */
+	private emit(type: GestureEvent["type"], timestamp: number, events: GestureEvent[]): void {
+		const event: GestureEvent = {
+			type,
+			gesture: this.active,
+			score: this.activeScore,
+			timestamp,
+			durationMs: (type === "ended" ? this.activeLastSeen : timestamp) - this.activeSince,
+		};
+		events.push(event);
+		this.eventCallback?.(event);
+	}
+
+	/**
+	 * Feeds a classified frame into the stabilizer.
+	 * @param gesture The gesture classified in the frame, "None" if there is none.
+	 * @param score The classifier score.
+	 * @param timestamp The frame timestamp in milliseconds.
+	 * @returns The events emitted for this frame.
+	 */
+	update(gesture: GestureType, score: number, timestamp: number = performance.now()): GestureEvent[] {
+		const events: GestureEvent[] = [];
+		if (this.lastFrameAt !== null && timestamp < this.lastFrameAt) {
+			// e.g. a replay looping, or switching between the webcam and a replay
+			events.push(...this.reset(this.lastFrameAt));
+		}
+		this.lastFrameAt = timestamp;
+		const candidate = score >= this.getThresholds(gesture).minScore ? gesture : "None";
+
+		const maxWindow = Math.max(
+			this.options.windowSize,
+			...Object.values(this.options.perGesture ?? {}).map((thresholds) => thresholds?.windowSize ?? 0),
+		);
+		this.frames.push({ gesture: candidate, score });
+		if (this.frames.length > maxWindow) {
+			this.frames.splice(0, this.frames.length - maxWindow);
+		}
+
+		const winner = this.vote();
+
+		if (winner !== "None" && winner === this.active) {
+			this.activeLastSeen = timestamp;
+			if (candidate === winner) {
+				this.activeScore = Math.max(this.activeScore, score);
+			}
+			this.pending = "None";
+			if (timestamp - this.lastHeldAt >= this.options.heldIntervalMs) {
+				this.lastHeldAt = timestamp;
+				this.emit("held", timestamp, events);
+			}
+			return events;
+		}
+
+		// A different gesture must keep winning for its hold time before it replaces the active one.
+		if (winner !== "None") {
+			if (winner !== this.pending) {
+				this.pending = winner;
+				this.pendingSince = timestamp;
+			}
+			if (timestamp - this.pendingSince >= this.getThresholds(winner).holdMs) {
+				if (this.active !== "None") {
+					this.emit("ended", timestamp, events);
+				}
+				this.active = winner;
+				this.activeSince = timestamp;
+				this.activeLastSeen = timestamp;
+				this.activeScore = score;
+				this.lastHeldAt = timestamp;
+				this.pending = "None";
+				this.emit("started", timestamp, events);
+			}
+		} else {
+			this.pending = "None";
+		}
+
+		// Without a replacement, the active gesture ends once it has been missing for its release time.
+		if (this.active !== winner) {
+			this.release(timestamp, events);
+		}
+
+		return events;
+	}
+
+	/**
+	 * Ends the active gesture once it has been missing for its release time, without a new frame. Frames stop
+	 * arriving when the hands leave the picture or the video stops, so the release is checked on a timer too.
+	 * @param timestamp The current timestamp in milliseconds.
+	 * @returns The "ended" event if the active gesture was released.
+	 */
+	tick(timestamp: number = performance.now()): GestureEvent[] {
+		const events: GestureEvent[] = [];
+		this.release(timestamp, events);
+		return events;
+	}
+
+	/**
+	 * Ends the active gesture if it has been missing for its release time.
+	 */
+	private release(timestamp: number, events: GestureEvent[]): void {
+		if (this.active !== "None" && timestamp - this.activeLastSeen >= this.getThresholds(this.active).releaseMs) {
+			this.emit("ended", timestamp, events);
+			this.active = "None";
+		}
+	}
+
+	/**
+	 * Get the currently active gesture.
+	 * @returns The active gesture, "None" if there is none.
+	 */
+	getGesture(): GestureType {
+		return this.active;
+	}
+
+	/**
+	 * Sets a callback function to be called for every gesture event.
+	 * @param callback The callback function to be called with the event.
+	 */
+	onEvent(callback: (event: GestureEvent) => void): void {
+		this.eventCallback = callback;
+	}
+
+	/**
+	 * Ends the active gesture and clears the frame history.
+	 * @param timestamp The current timestamp in milliseconds.
+	 * @returns The "ended" event if a gesture was active.
+	 */
+	reset(timestamp: number = performance.now()): GestureEvent[] {
+		const events: GestureEvent[] = [];
+		if (this.active !== "None") {
+			this.emit("ended", timestamp, events);
+		}
+		this.active = "None";
+		this.pending = "None";
+		this.frames = [];
+		this.lastFrameAt = null;
+		return events;
+	}
+}
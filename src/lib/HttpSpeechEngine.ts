@@ -0,0 +1,93 @@
+import type { SpeechCallbacks, SpeechEngine, SpeechRequest } from "../types/speech";
+
+/**
+ * Speaks with a local TTS server standing in for the browser's speech synthesis. The request is POSTed to the
+ * server as JSON and the audio it responds with is played back. Servers report no word boundaries.
+ */
+export default class HttpSpeechEngine implements SpeechEngine {
+	/**
+	 * The URL of the TTS server.
+	 */
+	private url: string;
+
+	/**
+	 * Aborts the pending request, and the audio being played.
+	 */
+	private abortController: AbortController | null = null;
+	private audio: HTMLAudioElement | null = null;
+
+	/**
+	 * Creates a new instance of the HttpSpeechEngine class.
+	 * @param url The URL of the TTS server, receiving `{ text, lang, voice, rate, pitch, volume }` and responding
+	 * with audio in a format the browser can play.
+	 */
+	constructor(url: string) {
+		this.url = url;
+	}
+
+	/**
+	 * Check if the browser can play audio.
+	 */
+	isSupported(): boolean {
+		return typeof Audio !== "undefined";
+	}
+
+	/**
+	 * Requests the audio of a text from the TTS server and plays it.
+	 * @param request The text, its language and the voice options.
+	 * @param callbacks Called when the audio starts playing.
+	 * @returns A promise resolving once the audio has played or the speech was cancelled.
+	 */
+	async speak(request: SpeechRequest, callbacks: SpeechCallbacks = {}): Promise<void> {
+		this.cancel();
+		const abortController = new AbortController();
+		this.abortController = abortController;
+
+		let blob: Blob;
+		try {
+			const response = await fetch(this.url, {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify(request),
+				signal: abortController.signal,
+			});
+			if (!response.ok) {
+				throw new Error(`TTS server responded with ${response.status}`);
+			}
+			blob = await response.blob();
+		} catch (error) {
+			if (abortController.signal.aborted) return;
+			throw error;
+		}
+		if (abortController.signal.aborted) return;
+
+		const url = URL.createObjectURL(blob);
+		const audio = new Audio(url);
+		audio.volume = request.volume;
+		this.audio = audio;
+
+		try {
+			await new Promise<void>((resolve, reject) => {
+				audio.onplay = () => callbacks.onStart?.();
+				audio.onended = () => resolve();
+				audio.onpause = () => resolve();
+				audio.onerror = () => reject(new Error("Failed to play the TTS audio"));
+				abortController.signal.addEventListener("abort", () => resolve());
+				audio.play().catch(reject);
+			});
+		} finally {
+			URL.revokeObjectURL(url);
+			if (this.audio === audio) this.audio = null;
+		}
+	}
+
+	/**
+	 * Aborts the pending request and stops the audio.
+	 */
+	cancel(): void {
+		this.abortController?.abort();
+		this.abortController = null;
+		this.audio?.pause();
+		this.audio = null;
+	}
+}
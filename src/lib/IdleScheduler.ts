@@ -0,0 +1,135 @@
+import type { IdleBehavior, IdleSchedulerOptions } from "../types/avatar";
+import { defaultIdleSchedulerOptions } from "./constants";
+
+/**
+ * Schedules idle behaviors at random intervals while nobody is around, escalating with the time since the last
+ * interaction. Behaviors are picked by weight and never twice in a row, until the avatar falls asleep.
+ */
+export default class IdleScheduler {
+	/**
+	 * The scheduler options.
+	 */
+	private options: IdleSchedulerOptions;
+
+	/**
+	 * Random number generator in [0, 1), injectable for deterministic behavior.
+	 */
+	private random: () => number;
+
+	/**
+	 * When the last interaction ended.
+	 */
+	private idleSince = 0;
+
+	/**
+	 * The last picked behavior.
+	 */
+	private lastBehavior: IdleBehavior | null = null;
+
+	/**
+	 * The pending timeout of the next behavior.
+	 */
+	private timeoutId: ReturnType<typeof setTimeout> | null = null;
+
+	/**
+	 * The callback function to be called with every behavior.
+	 */
+	private behaviorCallback: ((behavior: IdleBehavior) => void) | null = null;
+
+	/**
+	 * Creates a new instance of the IdleScheduler class.
+	 * @param options The scheduler options, merged over the defaults.
+	 * @param random Random number generator in [0, 1), defaults to `Math.random`.
+	 */
+	constructor(options: Partial<IdleSchedulerOptions> = {}, random: () => number = Math.random) {
+		this.options = { ...defaultIdleSchedulerOptions, ...options };
+		this.random = random;
+	}
+
+	/**
+	 * Starts scheduling behaviors.
+	 * @param idleSince When the last interaction ended, in milliseconds since the epoch. Defaults to now.
+	 */
+	start(idleSince: number = Date.now()): void {
+		this.stop();
+		this.idleSince = idleSince;
+		this.lastBehavior = null;
+		this.scheduleNext();
+	}
+
+	/**
+	 * Stops scheduling behaviors.
+	 */
+	stop(): void {
+		if (this.timeoutId !== null) {
+			clearTimeout(this.timeoutId);
+			this.timeoutId = null;
+		}
+	}
+
+	/**
+	 * Check if behaviors are being scheduled.
+	 */
+	isRunning(): boolean {
+		return this.timeoutId !== null;
+	}
+
+	/**
+	 * Picks a behavior for the stage reached after being idle for the given time.
+	 * @param idleMs Time since the last interaction, in milliseconds.
+	 * @returns The behavior, null if the stage has none.
+	 */
+	pick(idleMs: number): IdleBehavior | null {
+		const stage = [...this.options.stages].reverse().find((stage) => idleMs >= stage.afterMs);
+		const weighted = Object.entries(stage?.weights ?? {}).filter(([, weight]) => weight > 0) as [
+			IdleBehavior,
+			number,
+		][];
+		// Avoid repeating the last behavior, unless it is the only one.
+		const candidates = weighted.length > 1 ? weighted.filter(([behavior]) => behavior !== this.lastBehavior) : weighted;
+
+		const total = candidates.reduce((sum, [, weight]) => sum + weight, 0);
+		let threshold = this.random() * total;
+		for (const [behavior, weight] of candidates) {
+			threshold -= weight;
+			if (threshold < 0) return behavior;
+		}
+		return candidates[candidates.length - 1]?.[0] ?? null;
+	}
+
+	/**
+	 * Replaces the options, e.g. when switching personalities.
+	 * @param options The scheduler options, merged over the defaults.
+	 */
+	setOptions(options: Partial<IdleSchedulerOptions> = {}): void {
+		this.options = { ...defaultIdleSchedulerOptions, ...options };
+	}
+
+	/**
+	 * Sets a callback function to be called with every behavior.
+	 * @param callback The callback function to be called with the behavior.
+	 */
+	onBehavior(callback: (behavior: IdleBehavior) => void): void {
+		this.behaviorCallback = callback;
+	}
+
+	/**
+	 * Schedules the next behavior after a random delay. Falling asleep ends the schedule.
+	 */
+	private scheduleNext(): void {
+		const { minIntervalMs, maxIntervalMs } = this.options;
+		const delay = minIntervalMs + this.random() * (maxIntervalMs - minIntervalMs);
+
+		this.timeoutId = setTimeout(() => {
+			this.timeoutId = null;
+			const behavior = this.pick(Date.now() - this.idleSince);
+			if (!behavior) return;
+
+			this.lastBehavior = behavior;
+			if (behavior !== "sleep") {
+				this.scheduleNext();
+			}
+			this.behaviorCallback?.(behavior);
+		}, delay);
+	}
+}
@@ -0,0 +1,151 @@
+import type { LipSyncFrame, LipSyncOptions, LipSyncSource, MouthShape, WordTiming } from "../types/speech";
+import { defaultLipSyncOptions } from "./constants";
+
+const CLOSED: LipSyncFrame = { shape: "closed", openness: 0 };
+
+/**
+ * Animates the mouth while a message is spoken. Word timings are estimated from the text and the speaking rate,
+ * and re-anchored on every word boundary the speech engine reports, so engines with and without boundary events
+ * both stay in sync.
+ */
+export default class LipSync implements LipSyncSource {
+	/**
+	 * The lip-sync options.
+	 */
+	private options: LipSyncOptions;
+
+	/**
+	 * The estimated timings of the words being spoken.
+	 */
+	private words: WordTiming[] = [];
+
+	/**
+	 * When the speech started, null while silent, and how far behind the estimate the speech is, in milliseconds.
+	 */
+	private startedAt: number | null = null;
+	private offset = 0;
+
+	/**
+	 * Creates a new instance of the LipSync class.
+	 * @param options The lip-sync options, merged over the defaults.
+	 */
+	constructor(options: Partial<LipSyncOptions> = {}) {
+		this.options = { ...defaultLipSyncOptions, ...options };
+	}
+
+	/**
+	 * Starts animating a spoken text.
+	 * @param text The text being spoken.
+	 * @param rate The speaking rate, 1 is normal speed.
+	 * @param timestamp The timestamp the speech started at, in milliseconds.
+	 */
+	start(text: string, rate = 1, timestamp: number = performance.now()): void {
+		this.words = estimateWordTimings(text, rate, this.options);
+		this.startedAt = timestamp;
+		this.offset = 0;
+	}
+
+	/**
+	 * Re-anchors the estimate on a word reported by the speech engine.
+	 * @param charIndex The position of the word in the text.
+	 * @param timestamp The timestamp the word started at, in milliseconds.
+	 */
+	boundary(charIndex: number, timestamp: number = performance.now()): void {
+		if (this.startedAt === null) return;
+		const word = this.words.find((word) => word.charIndex + word.length > charIndex);
+		if (word) {
+			this.offset = timestamp - this.startedAt - word.start;
+		}
+	}
+
+	/**
+	 * Stops animating, closing the mouth.
+	 */
+	stop(): void {
+		this.words = [];
+		this.startedAt = null;
+		this.offset = 0;
+	}
+
+	/**
+	 * Check if a text is being spoken.
+	 */
+	isSpeaking(): boolean {
+		return this.startedAt !== null;
+	}
+
+	/**
+	 * Get the mouth at a point in time. Every syllable opens and closes the mouth, in the shape of its vowel.
+	 * @param timestamp The timestamp in milliseconds.
+	 */
+	getFrame(timestamp: number = performance.now()): LipSyncFrame {
+		if (this.startedAt === null) return CLOSED;
+		const elapsed = timestamp - this.startedAt - this.offset;
+		if (elapsed < 0) return CLOSED;
+
+		const last = this.words[this.words.length - 1];
+		if (!last || elapsed >= last.end) {
+			// The speech outlasts the estimate, keep talking until it ends.
+			const { syllableMs } = this.options;
+			return { shape: "open", openness: getSyllableOpenness((elapsed % syllableMs) / syllableMs) };
+		}
+
+		const word = this.words.find((word) => elapsed < word.end);
+		if (!word || elapsed < word.start) return CLOSED;
+
+		const progress = ((elapsed - word.start) / (word.end - word.start)) * word.shapes.length;
+		const syllable = Math.min(word.shapes.length - 1, Math.floor(progress));
+		return { shape: word.shapes[syllable], openness: getSyllableOpenness(progress - syllable) };
+	}
+}
+
+/**
+ * Estimates when every word of a text is spoken.
+ * @param text The text.
+ * @param rate The speaking rate, 1 is normal speed.
+ * @param options The lip-sync options.
+ */
+export function estimateWordTimings(
+	text: string,
+	rate = 1,
+	options: LipSyncOptions = defaultLipSyncOptions,
+): WordTiming[] {
+	const { msPerChar, wordGapMs, punctuationPauseMs } = options;
+	const words: WordTiming[] = [];
+	let cursor = 0;
+
+	for (const match of text.matchAll(/\S+/g)) {
+		const word = match[0];
+		const start = cursor;
+		const end = start + (word.length * msPerChar) / rate;
+		words.push({ charIndex: match.index ?? 0, length: word.length, start, end, shapes: getSyllableShapes(word) });
+		cursor = end + (/[.,!?;:…]$/.test(word) ? punctuationPauseMs : wordGapMs) / rate;
+	}
+	return words;
+}
+
+/**
+ * Get the mouth shape of every syllable of a word, by its vowels. Words without Latin vowels, e.g. in other
+ * scripts, get a syllable every three characters.
+ */
+function getSyllableShapes(word: string): MouthShape[] {
+	const vowels = word.toLowerCase().match(/[aeiouyàáâäãåèéêëìíîïòóôöõùúûü]+/g);
+	if (!vowels) {
+		const letters = word.replace(/[^\p{L}\p{N}]/gu, "").length;
+		return Array.from({ length: Math.max(1, Math.round(letters / 3)) }, (_, i) => (i % 2 ? "wide" : "open"));
+	}
+	return vowels.map((vowel) => {
+		const first = vowel.normalize("NFD")[0];
+		if (first === "o" || first === "u") return "round";
+		if (first === "e" || first === "i" || first === "y") return "wide";
+		return "open";
+	});
+}
+
+/**
+ * Openness of the mouth through a syllable, opening and closing again.
+ * @param phase Progress through the syllable, from 0 to 1.
+ */
+function getSyllableOpenness(phase: number): number {
+	return Math.sin(Math.PI * Math.min(1, Math.max(0, phase)));
+}
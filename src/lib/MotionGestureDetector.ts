@@ -0,0 +1,206 @@
+import type { NormalizedLandmark } from "@mediapipe/tasks-vision";
+import type { GestureClassification, MotionGestureOptions, MotionGestureType } from "../types/gesture";
+import { defaultMotionGestureOptions } from "./constants";
+import { getDistance, getHandSize, getPalmCenter } from "./landmarks";
+
+/**
+ * Hand position and size in a single frame.
+ */
+interface HandSample {
+	timestamp: number;
+	x: number;
+	y: number;
+	size: number;
+}
+
+/**
+ * Detects motion gestures (wave, swipe, push/pull and circle) from the hand landmarks over time.
+ */
+export default class MotionGestureDetector {
+	/**
+	 * The detector options.
+	 */
+	private options: MotionGestureOptions;
+
+	/**
+	 * The recent hand samples, oldest first.
+	 */
+	private samples: HandSample[] = [];
+
+	/**
+	 * The last detected gesture.
+	 */
+	private lastDetection: { gesture: MotionGestureType; timestamp: number } | null = null;
+
+	/**
+	 * Creates a new instance of the MotionGestureDetector class.
+	 * @param options The detector options, merged over the defaults.
+	 */
+	constructor(options: Partial<MotionGestureOptions> = {}) {
+		this.options = { ...defaultMotionGestureOptions, ...options };
+	}
+
+	/**
+	 * Feeds the landmarks of a frame into the detector.
+	 * @param landmarks The landmarks of the tracked hand, undefined if no hand is visible.
+	 * @param timestamp The frame timestamp in milliseconds.
+	 * @returns The motion gesture while it is being reported, null otherwise.
+	 */
+	update(
+		landmarks: NormalizedLandmark[] | undefined,
+		timestamp: number = performance.now(),
+	): GestureClassification | null {
+		if (this.isBeforeLastFrame(timestamp)) {
+			// e.g. a replay looping, or switching between the webcam and a replay
+			this.reset();
+		}
+
+		if (landmarks && landmarks.length >= 21) {
+			this.samples.push(toSample(landmarks, timestamp));
+			this.samples = this.samples.filter((sample) => timestamp - sample.timestamp <= this.options.historyMs);
+
+			const inCooldown = this.lastDetection && timestamp - this.lastDetection.timestamp < this.options.cooldownMs;
+			const gesture = inCooldown ? null : this.detect();
+			if (gesture) {
+				this.lastDetection = { gesture, timestamp };
+				this.samples = [];
+			}
+		} else {
+			// A motion interrupted by the hand leaving the frame does not count.
+			this.samples = [];
+		}
+
+		if (this.lastDetection && timestamp - this.lastDetection.timestamp <= this.options.reportMs) {
+			return { gesture: this.lastDetection.gesture, score: 1 };
+		}
+		return null;
+	}
+
+	/**
+	 * Clears the hand history and the last detection.
+	 */
+	reset(): void {
+		this.samples = [];
+		this.lastDetection = null;
+	}
+
+	/**
+	 * Whether the timestamp is before the latest sample or detection, the frames are from another timeline.
+	 */
+	private isBeforeLastFrame(timestamp: number): boolean {
+		const latest = this.samples[this.samples.length - 1]?.timestamp ?? this.lastDetection?.timestamp;
+		return latest !== undefined && timestamp < latest;
+	}
+
+	/**
+	 * Runs the detectors over the hand history, most specific first.
+	 */
+	private detect(): MotionGestureType | null {
+		if (this.samples.length < 5) return null;
+		return this.detectCircle() ?? this.detectWave() ?? this.detectSwipe() ?? this.detectPushPull();
+	}
+
+	/**
+	 * A circle turns around the centroid of the trajectory by close to a full turn.
+	 */
+	private detectCircle(): MotionGestureType | null {
+		const { samples } = this;
+		const centerX = samples.reduce((sum, sample) => sum + sample.x, 0) / samples.length;
+		const centerY = samples.reduce((sum, sample) => sum + sample.y, 0) / samples.length;
+		const radius =
+			samples.reduce((sum, sample) => sum + Math.hypot(sample.x - centerX, sample.y - centerY), 0) / samples.length;
+		if (radius < this.options.circleRadius) return null;
+		// A circle stays away from its center, back and forth motion crosses it.
+		if (samples.some((sample) => Math.hypot(sample.x - centerX, sample.y - centerY) < radius * 0.4)) return null;
+
+		let turned = 0;
+		let previous = Math.atan2(samples[0].y - centerY, samples[0].x - centerX);
+		for (const sample of samples.slice(1)) {
+			const angle = Math.atan2(sample.y - centerY, sample.x - centerX);
+			let delta = angle - previous;
+			if (delta > Math.PI) delta -= 2 * Math.PI;
+			if (delta < -Math.PI) delta += 2 * Math.PI;
+			turned += delta;
+			previous = angle;
+		}
+
+		return Math.abs(turned) >= this.options.circleTurns * 2 * Math.PI ? "Circle" : null;
+	}
+
+	/**
+	 * A wave moves the hand from side to side several times, with little vertical travel.
+	 */
+	private detectWave(): MotionGestureType | null {
+		const { samples } = this;
+		const { waveAmplitude, waveReversals } = this.options;
+
+		let pivot = samples[0].x;
+		let direction = 0;
+		let reversals = 0;
+		for (const sample of samples) {
+			const delta = sample.x - pivot;
+			if (direction === 0) {
+				if (Math.abs(delta) >= waveAmplitude) {
+					direction = Math.sign(delta);
+					pivot = sample.x;
+				}
+			} else if (Math.sign(delta) === direction) {
+				pivot = sample.x;
+			} else if (Math.abs(delta) >= waveAmplitude) {
+				reversals++;
+				direction = -direction;
+				pivot = sample.x;
+			}
+		}
+
+		const xRange = Math.max(...samples.map((s) => s.x)) - Math.min(...samples.map((s) => s.x));
+		const yRange = Math.max(...samples.map((s) => s.y)) - Math.min(...samples.map((s) => s.y));
+		return reversals >= waveReversals && yRange < xRange * 0.6 ? "Wave" : null;
+	}
+
+	/**
+	 * A swipe moves the hand far horizontally in a short time.
+	 */
+	private detectSwipe(): MotionGestureType | null {
+		const latest = this.samples[this.samples.length - 1];
+		const { swipeDistance, swipeMaxMs, mirroredInput } = this.options;
+
+		for (const sample of this.samples) {
+			if (latest.timestamp - sample.timestamp > swipeMaxMs) continue;
+
+			const dx = latest.x - sample.x;
+			const dy = latest.y - sample.y;
+			if (Math.abs(dx) >= swipeDistance && Math.abs(dy) < Math.abs(dx) / 2) {
+				// Facing the camera, the person's right is the image's left, unless the frames are mirrored.
+				const towardsPersonRight = mirroredInput ? dx > 0 : dx < 0;
+				return towardsPersonRight ? "Swipe_Right" : "Swipe_Left";
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Pushing the hand towards the camera makes it appear larger, pulling it away smaller.
+	 */
+	private detectPushPull(): MotionGestureType | null {
+		const latest = this.samples[this.samples.length - 1];
+		const { pushPullRatio, pushPullMaxMs } = this.options;
+
+		for (const sample of this.samples) {
+			if (latest.timestamp - sample.timestamp > pushPullMaxMs) continue;
+			if (getDistance(latest, sample) > 0.1) continue;
+
+			const ratio = latest.size / sample.size;
+			if (ratio >= pushPullRatio) return "Push";
+			if (ratio <= 1 / pushPullRatio) return "Pull";
+		}
+		return null;
+	}
+}
+
+/**
+ * Reduces the landmarks of a hand to its palm center and size.
+ */
+function toSample(landmarks: NormalizedLandmark[], timestamp: number): HandSample {
+	return { timestamp, ...getPalmCenter(landmarks), size: getHandSize(landmarks) };
+}
@@ -0,0 +1,135 @@
+import type { Landmark, NormalizedLandmark } from "@mediapipe/tasks-vision";
+import type { FingerName, GestureClassification, HandFeatures, PoseDefinition } from "../types/gesture";
+import { defaultPoseDefinitions } from "./constants";
+
+/**
+ * Landmark indices of each finger, from its base joint to its tip.
+ * https://developers.google.com/mediapipe/solutions/vision/hand_landmarker#models
+ */
+const FINGER_LANDMARKS: Record<FingerName, [number, number, number, number]> = {
+	thumb: [1, 2, 3, 4],
+	index: [5, 6, 7, 8],
+	middle: [9, 10, 11, 12],
+	ring: [13, 14, 15, 16],
+	pinky: [17, 18, 19, 20],
+};
+
+/**
+ * Total joint bend, in radians, below which a finger is fully extended and above which it is fully curled.
+ */
+const STRAIGHT_BEND = Math.PI / 3;
+const CURLED_BEND = (2 * Math.PI) / 3;
+
+/**
+ * Default minimum score for a pose to match.
+ */
+const DEFAULT_MIN_SCORE = 0.6;
+
+type Point = Landmark | NormalizedLandmark;
+
+/**
+ * Classifies static hand poses from the geometry of the 21 hand landmarks, for poses the pretrained model lacks.
+ */
+export default class PoseClassifier {
+	/**
+	 * The registered pose definitions.
+	 */
+	private poses: PoseDefinition[];
+
+	/**
+	 * Creates a new instance of the PoseClassifier class.
+	 * @param poses The pose definitions, defaults to the built-in poses.
+	 */
+	constructor(poses: PoseDefinition[] = defaultPoseDefinitions) {
+		this.poses = [...poses];
+	}
+
+	/**
+	 * Registers a pose, replacing any pose with the same name.
+	 * @param pose The pose definition.
+	 */
+	register(pose: PoseDefinition): void {
+		this.poses = [...this.poses.filter((existing) => existing.name !== pose.name), pose];
+	}
+
+	/**
+	 * Classifies the pose of a hand.
+	 * @param landmarks The 21 landmarks of the hand, world landmarks give the most accurate angles.
+	 * @returns The best matching pose, null if none matches.
+	 */
+	classify(landmarks: Point[] | undefined): GestureClassification | null {
+		if (!landmarks || landmarks.length < 21) return null;
+
+		const features = computeHandFeatures(landmarks);
+		let best: GestureClassification | null = null;
+
+		for (const pose of this.poses) {
+			const score = scorePose(pose, features);
+			if (score >= (pose.minScore ?? DEFAULT_MIN_SCORE) && (!best || score > best.score)) {
+				best = { gesture: pose.name, score };
+			}
+		}
+		return best;
+	}
+}
+
+/**
+ * Scores how well the hand features match a pose, from 0 to 1.
+ */
+function scorePose(pose: PoseDefinition, features: HandFeatures): number {
+	let score = pose.score ? pose.score(features) : 1;
+	for (const [finger, state] of Object.entries(pose.fingers ?? {}) as [FingerName, string][]) {
+		const extension = features.extension[finger];
+		score = Math.min(score, state === "extended" ? extension : 1 - extension);
+	}
+	return score;
+}
+
+/**
+ * Computes the finger extensions and pinch distance of a hand.
+ * @param landmarks The 21 landmarks of the hand.
+ */
+export function computeHandFeatures(landmarks: Point[]): HandFeatures {
+	const palmSize = distance(landmarks[0], landmarks[9]) || 1;
+
+	const extension = {} as Record<FingerName, number>;
+	for (const [finger, [base, middle, upper, tip]] of Object.entries(FINGER_LANDMARKS) as [
+		FingerName,
+		[number, number, number, number],
+	][]) {
+		if (finger === "thumb") {
+			// The thumb barely bends when folded across the palm, so use how far its tip is from the index base instead.
+			const spread = distance(landmarks[tip], landmarks[5]) / palmSize;
+			extension.thumb = clamp((spread - 0.4) / 0.4);
+		} else {
+			const bend =
+				angle(landmarks[base], landmarks[middle], landmarks[upper]) +
+				angle(landmarks[middle], landmarks[upper], landmarks[tip]);
+			extension[finger] = clamp((CURLED_BEND - bend) / (CURLED_BEND - STRAIGHT_BEND));
+		}
+	}
+
+	return {
+		extension,
+		pinchDistance: distance(landmarks[4], landmarks[8]) / palmSize,
+	};
+}
+
+/**
+ * Bend at joint b between the segments a→b and b→c, 0 when straight.
+ */
+function angle(a: Point, b: Point, c: Point): number {
+	const u = [b.x - a.x, b.y - a.y, b.z - a.z];
+	const v = [c.x - b.x, c.y - b.y, c.z - b.z];
+	const dot = u[0] * v[0] + u[1] * v[1] + u[2] * v[2];
+	const lengths = Math.hypot(...u) * Math.hypot(...v);
+	return lengths === 0 ? 0 : Math.acos(clamp(dot / lengths, -1, 1));
+}
+
+function distance(a: Point, b: Point): number {
+	return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+}
+
+function clamp(value: number, min = 0, max = 1): number {
+	return Math.min(max, Math.max(min, value));
+}
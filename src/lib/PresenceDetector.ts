@@ -0,0 +1,296 @@
+import { type Detection, FaceDetector, type FaceDetectorOptions } from "@mediapipe/tasks-vision";
+import type { FacePresence, PresenceOptions, PresenceResult } from "../types/presence";
+import FrameScheduler from "./FrameScheduler";
+import { loadFaceDetectorOptions, loadWasmFileset, revokeWasmFileset } from "./assets";
+import { defaultPresenceInferenceOptions, defaultPresenceOptions } from "./constants";
+import { estimateDistance } from "./proximity";
+import type { AssetLoaderOptions, InferenceOptions, InferenceStats, WasmFileset } from "./types";
+
+/**
+ * Indices of the face detector keypoints used to estimate where a face is turned.
+ */
+const RIGHT_EYE = 0;
+const LEFT_EYE = 1;
+const NOSE_TIP = 2;
+
+/**
+ * Detects the faces in a video stream at a low rate, alongside the gesture recognizer, so visitors are noticed with
+ * their hands down. Reports how many people are in view, how far away they are and whether they face the screen.
+ */
+export default class PresenceDetector {
+	/**
+	 * The underlying FaceDetector instance.
+	 */
+	private detector: FaceDetector | null = null;
+
+	/**
+	 * The WasmFileset used for vision tasks.
+	 */
+	private vision: WasmFileset;
+
+	/**
+	 * Whether the WasmFileset object URLs were created by this instance and must be revoked on dispose.
+	 */
+	private ownsVision: boolean;
+
+	/**
+	 * The HTML video element faces are detected in.
+	 */
+	private videoElement: HTMLVideoElement;
+
+	/**
+	 * The presence estimation options.
+	 */
+	private options: PresenceOptions;
+
+	/**
+	 * The results of the latest frame.
+	 */
+	private results: PresenceResult | null = null;
+
+	/**
+	 * The callback function to be called when new results are available.
+	 */
+	private resultsCallback: ((results: PresenceResult | null) => void) | null = null;
+
+	/**
+	 * Schedules detection on the video stream.
+	 */
+	private scheduler: FrameScheduler;
+
+	/**
+	 * Whether dispose() has been called.
+	 */
+	private disposed = false;
+
+	/**
+	 * Creates a new instance of the PresenceDetector class.
+	 * @param videoElement The HTML video element to detect faces in.
+	 * @param vision The WasmFileset used for vision tasks.
+	 * @param ownsVision Whether the WasmFileset object URLs belong to this instance.
+	 * @param options The presence estimation options.
+	 * @param inference The inference scheduling options.
+	 */
+	private constructor(
+		videoElement: HTMLVideoElement,
+		vision: WasmFileset,
+		ownsVision: boolean,
+		options: PresenceOptions,
+		inference: Required<InferenceOptions>,
+	) {
+		this.videoElement = videoElement;
+		this.vision = vision;
+		this.ownsVision = ownsVision;
+		this.options = options;
+		this.scheduler = new FrameScheduler(inference, this.processFrame);
+	}
+
+	/**
+	 * Creates a new instance of the PresenceDetector class.
+	 * @param videoElement The HTML video element to detect faces in.
+	 * @param vision The WasmFileset used for vision tasks. If not provided, it will be loaded through the asset loader.
+	 * @param detector The options for the face detector, merged over the defaults. If no model is specified, it will
+	 * be loaded through the asset loader.
+	 * @param options The presence estimation options, merged over the defaults.
+	 * @param assets Where and how to load the model and WASM runtime.
+	 * @param autoStart Whether to start detecting once the video is ready. Defaults to true.
+	 * @param inference How often to run detection, merged over the default presence inference options.
+	 * @returns A Promise that resolves to a PresenceDetector instance.
+	 */
+	static async create({
+		videoElement,
+		vision,
+		detector,
+		options,
+		assets,
+		autoStart = true,
+		inference,
+	}: {
+		videoElement: HTMLVideoElement;
+		vision?: WasmFileset;
+		detector?: FaceDetectorOptions;
+		options?: Partial<PresenceOptions>;
+		assets?: AssetLoaderOptions;
+		autoStart?: boolean;
+		inference?: InferenceOptions;
+	}): Promise<PresenceDetector> {
+		const [detectorVision, detectorOptions] = await Promise.all([
+			vision ?? loadWasmFileset(assets),
+			loadFaceDetectorOptions(detector, assets),
+		]);
+
+		const presenceDetector = new PresenceDetector(
+			videoElement,
+			detectorVision,
+			!vision,
+			{ ...defaultPresenceOptions, ...options },
+			{ ...defaultPresenceInferenceOptions, ...inference },
+		);
+		try {
+			presenceDetector.detector = await FaceDetector.createFromOptions(detectorVision, detectorOptions);
+			if (autoStart) {
+				await presenceDetector.start();
+			}
+		} catch (error) {
+			presenceDetector.dispose();
+			throw error;
+		}
+		return presenceDetector;
+	}
+
+	/**
+	 * Runs face detection on the current video frame.
+	 * @param videoElement The HTML video element.
+	 * @param timestamp The frame timestamp from performance.now().
+	 * @returns Whether the frame was processed.
+	 */
+	private processFrame = (videoElement: HTMLVideoElement, timestamp: number): boolean => {
+		if (!this.detector) return false;
+
+		try {
+			const { detections } = this.detector.detectForVideo(videoElement, timestamp);
+			this.scheduler.recordLatency(performance.now() - timestamp);
+			this.results = this.toPresence(detections, videoElement.videoWidth, videoElement.videoHeight, timestamp);
+			this.resultsCallback?.(this.results);
+		} catch (error) {
+			console.error("Presence detection error:", error);
+		}
+		return true;
+	};
+
+	/**
+	 * Starts detecting faces in the video stream once it is ready.
+	 * Does nothing if the detection loop is already running.
+	 * @returns A Promise that resolves when the loop has started.
+	 */
+	async start(): Promise<void> {
+		if (this.disposed) {
+			throw new Error("PresenceDetector has been disposed");
+		}
+		await this.scheduler.start(this.videoElement);
+	}
+
+	/**
+	 * Stops the detection loop while keeping the model loaded.
+	 */
+	pause(): void {
+		this.scheduler.stop();
+	}
+
+	/**
+	 * Whether the detection loop is running.
+	 */
+	isRunning(): boolean {
+		return this.scheduler.isRunning();
+	}
+
+	/**
+	 * Get the current inference performance.
+	 * @returns The current inference rate limit, average latency and skipped frame count.
+	 */
+	getInferenceStats(): InferenceStats {
+		return this.scheduler.getStats();
+	}
+
+	/**
+	 * Swaps the video element faces are detected in, without reloading the model.
+	 * @param videoElement The new HTML video element.
+	 */
+	setVideoElement(videoElement: HTMLVideoElement): void {
+		if (videoElement === this.videoElement) return;
+
+		this.videoElement = videoElement;
+		this.results = null;
+		if (this.scheduler.isRunning()) {
+			void this.scheduler.start(videoElement);
+		}
+	}
+
+	/**
+	 * Stops detection and releases the model, GPU and WASM resources.
+	 * The instance cannot be used afterwards.
+	 */
+	dispose(): void {
+		if (this.disposed) return;
+
+		this.scheduler.stop();
+		this.disposed = true;
+		this.resultsCallback = null;
+		this.results = null;
+		this.detector?.close();
+		this.detector = null;
+
+		if (this.ownsVision) {
+			revokeWasmFileset(this.vision);
+		}
+	}
+
+	/**
+	 * Sets a callback function to be called when new results are available.
+	 * @param callback The callback function to be called with the results.
+	 */
+	onResults(callback: (results: PresenceResult | null) => void): void {
+		this.resultsCallback = callback;
+	}
+
+	/**
+	 * Get the results of the latest frame.
+	 * @returns The latest results or null if no results available.
+	 */
+	getResults(): PresenceResult | null {
+		return this.results;
+	}
+
+	/**
+	 * Turns the detections of a frame into the people in view, ignoring faces too far away.
+	 */
+	private toPresence(detections: Detection[], width: number, height: number, timestamp: number): PresenceResult {
+		const faces = detections
+			.map((detection) => this.toFace(detection, width, height))
+			.filter((face): face is FacePresence => face !== null && face.size >= this.options.minFaceSize);
+		const distances = faces.map((face) => face.distance);
+
+		return {
+			faces,
+			people: faces.length,
+			facing: faces.filter((face) => face.facing).length,
+			nearestDistance: distances.length > 0 ? Math.min(...distances) : null,
+			timestamp,
+		};
+	}
+
+	/**
+	 * Estimates the distance of a face from its width, and where it is turned from the nose between the eyes.
+	 */
+	private toFace(
+		{ boundingBox, categories, keypoints }: Detection,
+		width: number,
+		height: number,
+	): FacePresence | null {
+		if (!boundingBox || width === 0 || height === 0) return null;
+
+		const { faceWidthMeters, fieldOfViewDegrees, maxFacingYaw } = this.options;
+		const size = boundingBox.width / width;
+
+		const rightEye = keypoints[RIGHT_EYE];
+		const leftEye = keypoints[LEFT_EYE];
+		const nose = keypoints[NOSE_TIP];
+		const eyeDistance = rightEye && leftEye ? Math.abs(leftEye.x - rightEye.x) : 0;
+		// Without the keypoints, a detected face is most likely a frontal one
+		const yaw = nose && eyeDistance > 0 ? (nose.x - (rightEye.x + leftEye.x) / 2) / eyeDistance : 0;
+
+		return {
+			box: {
+				x: boundingBox.originX / width,
+				y: boundingBox.originY / height,
+				width: size,
+				height: boundingBox.height / height,
+			},
+			score: categories[0]?.score ?? 0,
+			size,
+			distance: estimateDistance(size, faceWidthMeters, fieldOfViewDegrees),
+			yaw,
+			facing: Math.abs(yaw) <= maxFacingYaw,
+		};
+	}
+}
@@ -0,0 +1,101 @@
+import type { ProximityOptions, ProximityZone } from "../types/proximity";
+import { defaultProximityOptions } from "./constants";
+
+/**
+ * Sorts the distance of the nearest visitor into the far, approach and interact zones. A zone boundary is only
+ * crossed once the distance is past it by the hysteresis, so a visitor standing on it stays in one zone, and the zone
+ * is only lost once nobody has been in view for the grace period.
+ */
+export default class ProximityTracker {
+	/**
+	 * The tracker options.
+	 */
+	private options: ProximityOptions;
+
+	/**
+	 * The current zone, null while nobody is in view.
+	 */
+	private zone: ProximityZone | null = null;
+
+	/**
+	 * The distance of the nearest visitor, in meters.
+	 */
+	private distance: number | null = null;
+
+	/**
+	 * When a visitor was last in view, in milliseconds.
+	 */
+	private lastSeenAt: number | null = null;
+
+	/**
+	 * Creates a new instance of the ProximityTracker class.
+	 * @param options The tracker options, merged over the defaults.
+	 */
+	constructor(options: Partial<ProximityOptions> = {}) {
+		this.options = { ...defaultProximityOptions, ...options };
+	}
+
+	/**
+	 * Updates the zone from the distance of the nearest visitor. Call it periodically while nobody is in view, so the
+	 * zone is lost on time.
+	 * @param distance The distance in meters, null while nobody is in view.
+	 * @param timestamp The timestamp in milliseconds since the epoch.
+	 * @returns The zone, null once nobody has been in view for the grace period.
+	 */
+	update(distance: number | null, timestamp: number = Date.now()): ProximityZone | null {
+		if (distance === null) {
+			if (this.lastSeenAt === null || timestamp - this.lastSeenAt >= this.options.leaveGraceMs) {
+				this.zone = null;
+				this.distance = null;
+				this.lastSeenAt = null;
+			}
+			return this.zone;
+		}
+
+		this.distance = distance;
+		this.lastSeenAt = timestamp;
+
+		const { approachDistance, interactDistance, hysteresis } = this.options;
+		const rank = this.zone === null ? null : ZONES.indexOf(this.zone);
+		// Boundaries of the zone the visitor is in or closer to move outwards, the others inwards
+		const boundary = (limit: number, closerZone: number) =>
+			rank === null ? limit : rank >= closerZone ? limit + hysteresis : limit - hysteresis;
+
+		if (distance <= boundary(interactDistance, ZONES.indexOf("interact"))) {
+			this.zone = "interact";
+		} else if (distance <= boundary(approachDistance, ZONES.indexOf("approach"))) {
+			this.zone = "approach";
+		} else {
+			this.zone = "far";
+		}
+		return this.zone;
+	}
+
+	/**
+	 * Get the current zone, null once nobody has been in view for the grace period.
+	 */
+	getZone(): ProximityZone | null {
+		return this.zone;
+	}
+
+	/**
+	 * Get the distance of the nearest visitor in meters, their last distance during the grace period, and null once
+	 * the zone is lost.
+	 */
+	getDistance(): number | null {
+		return this.distance;
+	}
+
+	/**
+	 * Updates the options, e.g. when the personality changes. Takes effect from the next update.
+	 * @param options The tracker options, merged over the defaults.
+	 */
+	setOptions(options: Partial<ProximityOptions> = {}): void {
+		this.options = { ...defaultProximityOptions, ...options };
+	}
+}
+
+/**
+ * The zones, from the farthest to the closest.
+ */
+const ZONES: ProximityZone[] = ["far", "approach", "interact"];
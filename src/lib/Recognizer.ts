@@ -3,12 +3,21 @@ import {
 	type GestureRecognizerOptions,
 	type GestureRecognizerResult,
 } from "@mediapipe/tasks-vision";
-import type { WasmFileset } from "./types";
+import FrameScheduler from "./FrameScheduler";
+import { loadRecognizerOptions, loadWasmFileset, revokeWasmFileset } from "./assets";
+import { defaultInferenceOptions } from "./constants";
+import type {
+	InferenceOptions,
+	InferenceStats,
+	RecognizerCreateOptions,
+	RecognizerInstance,
+	WasmFileset,
+} from "./types";
 
 /**
  * Represents a gesture recognizer that can recognize hand gestures in a video stream.
  */
-export default class Recognizer {
+export default class Recognizer implements RecognizerInstance {
 	/**
 	 * The underlying GestureRecognizer instance.
 	 */
@@ -19,6 +28,11 @@ export default class Recognizer {
 	 */
 	private vision: WasmFileset;
 
+	/**
+	 * Whether the WasmFileset object URLs were created by this instance and must be revoked on dispose.
+	 */
+	private ownsVision: boolean;
+
 	/**
 	 * The options for the gesture recognizer.
 	 */
@@ -37,133 +51,187 @@ export default class Recognizer {
 	/**
 	 * The callback function to be called when new results are available.
 	 */
-	private resultsCallback: ((results: GestureRecognizerResult | null) => void) | null = null;
+	private resultsCallback: ((results: GestureRecognizerResult | null, timestamp: number) => void) | null = null;
+
+	/**
+	 * Schedules inference on the video stream.
+	 */
+	private scheduler: FrameScheduler;
+
+	/**
+	 * Whether dispose() has been called.
+	 */
+	private disposed = false;
 
 	/**
 	 * Creates a new instance of the Recognizer class.
 	 * @param videoElement The HTML video element to be used for recognition.
 	 * @param vision The WasmFileset used for vision tasks.
 	 * @param options The options for the gesture recognizer.
+	 * @param ownsVision Whether the WasmFileset object URLs belong to this instance.
+	 * @param inference The inference scheduling options.
 	 */
-	private constructor(videoElement: HTMLVideoElement, vision: WasmFileset, options: GestureRecognizerOptions) {
+	private constructor(
+		videoElement: HTMLVideoElement,
+		vision: WasmFileset,
+		options: GestureRecognizerOptions,
+		ownsVision: boolean,
+		inference: Required<InferenceOptions>,
+	) {
 		this.vision = vision;
 		this.options = options;
 		this.videoElement = videoElement;
+		this.ownsVision = ownsVision;
+		this.scheduler = new FrameScheduler(inference, this.processFrame);
 	}
 
 	/**
 	 * Creates a new instance of the Recognizer class.
-	 * @param videoElement The HTML video element to be used for recognition.
-	 * @param vision The WasmFileset used for vision tasks. If not provided, it will be loaded from a CDN.
-	 * @param options The options for the gesture recognizer. If not provided, default options will be used.
+	 * @param vision The WasmFileset used for vision tasks. If not provided, it will be loaded through the asset loader.
+	 * @see RecognizerCreateOptions for the remaining options.
 	 * @returns A Promise that resolves to a Recognizer instance.
 	 */
 	static async create({
 		videoElement,
 		vision,
 		options,
-	}: {
-		videoElement: HTMLVideoElement;
-		vision?: WasmFileset;
-		options?: GestureRecognizerOptions;
-	}): Promise<Recognizer> {
-		/**
-		 * Manually create the WasmFileset instead of using the FilesetResolver.
-		 */
-		const modelAsset = await fetch(
-			"https://storage.googleapis.com/mediapipe-models/gesture_recognizer/gesture_recognizer/float16/1/gesture_recognizer.task",
-		);
-		const wasmLoader = await fetch(
-			"https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@latest/wasm/vision_wasm_internal.js",
-		);
-		const wasmBinary = await fetch(
-			"https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@latest/wasm/vision_wasm_internal.wasm",
-		);
-
-		const defaultOptions: GestureRecognizerOptions = {
-			runningMode: "VIDEO",
-			baseOptions: {
-				// Pretrained model for gesture recognition.
-				// https://developers.google.com/mediapipe/solutions/vision/gesture_recognizer#models
-				modelAssetBuffer: new Uint8Array(await modelAsset.arrayBuffer()),
-				delegate: "GPU",
-			},
-			numHands: 1,
-		};
-
-		const defaultWasmFileset: WasmFileset = {
-			wasmLoaderPath: URL.createObjectURL(await wasmLoader.blob()),
-			wasmBinaryPath: URL.createObjectURL(await wasmBinary.blob()),
-		};
-
-		const recognizerVision = vision || defaultWasmFileset;
-
-		const recognizerOptions = options || defaultOptions;
-
-		const recognizer = new Recognizer(videoElement, recognizerVision, recognizerOptions);
-		await recognizer.init();
+		assets,
+		autoStart = true,
+		inference,
+	}: RecognizerCreateOptions & { vision?: WasmFileset }): Promise<Recognizer> {
+		const [recognizerVision, recognizerOptions] = await Promise.all([
+			vision ?? loadWasmFileset(assets),
+			loadRecognizerOptions(options, assets),
+		]);
+
+		const recognizer = new Recognizer(videoElement, recognizerVision, recognizerOptions, !vision, {
+			...defaultInferenceOptions,
+			...inference,
+		});
+		try {
+			await recognizer.init();
+			if (autoStart) {
+				await recognizer.start();
+			}
+		} catch (error) {
+			recognizer.dispose();
+			throw error;
+		}
 		return recognizer;
 	}
 
 	/**
-	 * Initializes the gesture recognizer and starts recognizing gestures from the video stream.
+	 * Initializes the underlying gesture recognizer.
 	 * @returns A Promise that resolves when the initialization is complete.
 	 */
 	private async init(): Promise<void> {
 		this.recognizer = await GestureRecognizer.createFromOptions(this.vision, this.options);
+	}
+
+	/**
+	 * Runs recognition on the current video frame.
+	 * @param videoElement The HTML video element.
+	 * @param timestamp The frame timestamp from performance.now().
+	 * @returns Whether the frame was processed.
+	 */
+	private processFrame = (videoElement: HTMLVideoElement, timestamp: number): boolean => {
+		if (!this.recognizer) return false;
 
-		// Wait for video element to be ready
-		const waitForVideoReady = (): Promise<void> => {
-			return new Promise((resolve) => {
-				const checkVideo = () => {
-					if (this.videoElement.readyState >= 2) {
-						// HAVE_CURRENT_DATA
-						resolve();
-					} else {
-						setTimeout(checkVideo, 100);
-					}
-				};
-				checkVideo();
-			});
-		};
-
-		await waitForVideoReady();
-
-		// Start the recognition loop
-		const updateResults = async () => {
-			if (this.recognizer && this.videoElement.readyState >= 2) {
-				try {
-					// Use the correct API for video recognition
-					// For video mode, we need to pass the video element and timestamp
-					this.results = await this.recognizer.recognizeForVideo(this.videoElement, performance.now());
-
-					// Debug logging
-					if (this.results && (this.results.landmarks?.length > 0 || this.results.gestures?.length > 0)) {
-						console.log("Gesture detection results:", {
-							landmarks: this.results.landmarks?.length || 0,
-							gestures: this.results.gestures?.length || 0,
-							gestureNames: this.results.gestures?.map((g) => g[0]?.categoryName).filter(Boolean) || [],
-						});
-					}
-
-					if (this.resultsCallback) {
-						this.resultsCallback(this.results);
-					}
-				} catch (error) {
-					console.error("Gesture recognition error:", error);
-				}
+		try {
+			// For video mode, we need to pass the video element and a monotonically increasing timestamp
+			this.results = this.recognizer.recognizeForVideo(videoElement, timestamp);
+			this.scheduler.recordLatency(performance.now() - timestamp);
+
+			if (this.resultsCallback) {
+				this.resultsCallback(this.results, timestamp);
 			}
-			requestAnimationFrame(updateResults);
-		};
+		} catch (error) {
+			console.error("Gesture recognition error:", error);
+		}
+		return true;
+	};
+
+	/**
+	 * Starts recognizing gestures from the video stream once it is ready.
+	 * Does nothing if the recognition loop is already running.
+	 * @returns A Promise that resolves when the loop has started, or immediately if it was paused before that.
+	 */
+	async start(): Promise<void> {
+		if (this.disposed) {
+			throw new Error("Recognizer has been disposed");
+		}
+		await this.scheduler.start(this.videoElement);
+	}
 
-		updateResults();
+	/**
+	 * Stops the recognition loop while keeping the model loaded.
+	 */
+	pause(): void {
+		this.scheduler.stop();
+	}
+
+	/**
+	 * Resumes the recognition loop after pause().
+	 * @returns A Promise that resolves when the loop has restarted.
+	 */
+	resume(): Promise<void> {
+		return this.start();
+	}
+
+	/**
+	 * Whether the recognition loop is running.
+	 */
+	isRunning(): boolean {
+		return this.scheduler.isRunning();
+	}
+
+	/**
+	 * Get the current inference performance.
+	 * @returns The current inference rate limit, average latency and skipped frame count.
+	 */
+	getInferenceStats(): InferenceStats {
+		return this.scheduler.getStats();
+	}
+
+	/**
+	 * Swaps the video element used for recognition, e.g. when switching cameras, without reloading the model.
+	 * Recognition continues as soon as the new element has frame data.
+	 * @param videoElement The new HTML video element.
+	 */
+	setVideoElement(videoElement: HTMLVideoElement): void {
+		if (videoElement === this.videoElement) return;
+
+		this.videoElement = videoElement;
+		this.results = null;
+		if (this.scheduler.isRunning()) {
+			void this.scheduler.start(videoElement);
+		}
+	}
+
+	/**
+	 * Stops recognition and releases the model, GPU and WASM resources.
+	 * The instance cannot be used afterwards.
+	 */
+	dispose(): void {
+		if (this.disposed) return;
+
+		this.scheduler.stop();
+		this.disposed = true;
+		this.resultsCallback = null;
+		this.results = null;
+		this.recognizer?.close();
+		this.recognizer = null;
+
+		if (this.ownsVision) {
+			revokeWasmFileset(this.vision);
+		}
 	}
 
 	/**
 	 * Sets a callback function to be called when new results are available.
-	 * @param callback The callback function to be called with the results.
+	 * @param callback The callback function to be called with the results and the timestamp of their frame.
 	 */
-	onResults(callback: (results: GestureRecognizerResult | null) => void): void {
+	onResults(callback: (results: GestureRecognizerResult | null, timestamp: number) => void): void {
 		this.resultsCallback = callback;
 	}
 
@@ -178,10 +246,11 @@ export default class Recognizer {
 		}
 
 		try {
-			const results = await this.recognizer.recognizeForVideo(this.videoElement, performance.now());
+			const timestamp = performance.now();
+			const results = this.recognizer.recognizeForVideo(this.videoElement, timestamp);
 			this.results = results;
 			if (this.resultsCallback) {
-				this.resultsCallback(results);
+				this.resultsCallback(results, timestamp);
 			}
 			return results;
 		} catch (error) {
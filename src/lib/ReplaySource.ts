@@ -0,0 +1,204 @@
+import type { GestureRecognizerResult } from "@mediapipe/tasks-vision";
+import type { RecordedFrame, Recording, ReplayState } from "../types/recording";
+
+/**
+ * Plays back a recorded landmark session as recognition results, so the avatar can be driven without a webcam.
+ * Frames are emitted at their recorded timestamps, scaled by the playback speed.
+ */
+export default class ReplaySource {
+	/**
+	 * The frames of the recording, ordered by timestamp.
+	 */
+	private frames: RecordedFrame[];
+
+	/**
+	 * Playback position in milliseconds, and the index of the last emitted frame.
+	 */
+	private position = 0;
+	private frameIndex = -1;
+
+	/**
+	 * Playback rate, 1 is real time.
+	 */
+	private speed = 1;
+
+	/**
+	 * Whether playback restarts at the end of the recording.
+	 */
+	private loop: boolean;
+
+	/**
+	 * The pending animation frame and the time of the previous one, null while paused.
+	 */
+	private animationFrameId: number | null = null;
+	private lastTick = 0;
+
+	/**
+	 * The callbacks to be called with replayed results and playback state changes.
+	 */
+	private resultsCallback: ((results: GestureRecognizerResult | null, timestamp: number) => void) | null = null;
+	private stateCallback: ((state: ReplayState) => void) | null = null;
+
+	/**
+	 * Creates a new instance of the ReplaySource class.
+	 * @param recording The recording to replay.
+	 * @param loop Whether playback restarts at the end of the recording. Defaults to true.
+	 */
+	constructor(recording: Recording, loop = true) {
+		this.frames = [...recording.frames].sort((a, b) => a.timestamp - b.timestamp);
+		this.loop = loop;
+	}
+
+	/**
+	 * Advances playback by the time elapsed since the previous animation frame.
+	 */
+	private tick = (now: number) => {
+		this.position += (now - this.lastTick) * this.speed;
+		this.lastTick = now;
+
+		const duration = this.getDuration();
+		if (this.position > duration) {
+			if (this.loop && duration > 0) {
+				this.position %= duration;
+				this.frameIndex = -1;
+			} else {
+				this.position = duration;
+				this.emitFrame();
+				this.pause();
+				return;
+			}
+		}
+
+		this.emitFrame();
+		this.emitState();
+		this.animationFrameId = requestAnimationFrame(this.tick);
+	};
+
+	/**
+	 * Emits the frame at the playback position, if it changed since the last emitted frame.
+	 */
+	private emitFrame(): void {
+		// Binary search for the last frame at or before the position.
+		let low = 0;
+		let high = this.frames.length - 1;
+		let index = -1;
+		while (low <= high) {
+			const middle = (low + high) >> 1;
+			if (this.frames[middle].timestamp <= this.position) {
+				index = middle;
+				low = middle + 1;
+			} else {
+				high = middle - 1;
+			}
+		}
+
+		if (index === this.frameIndex) return;
+		this.frameIndex = index;
+
+		const frame = this.frames[index];
+		this.resultsCallback?.(
+			frame
+				? {
+						landmarks: frame.landmarks,
+						worldLandmarks: frame.worldLandmarks,
+						handedness: frame.handedness,
+						handednesses: frame.handedness,
+						gestures: frame.gestures,
+					}
+				: null,
+			frame?.timestamp ?? 0,
+		);
+	}
+
+	private emitState(): void {
+		this.stateCallback?.(this.getState());
+	}
+
+	/**
+	 * Starts or resumes playback, from the beginning if playback had reached the end.
+	 */
+	play(): void {
+		if (this.animationFrameId !== null) return;
+		if (this.position >= this.getDuration()) {
+			this.seek(0);
+		}
+		this.lastTick = performance.now();
+		this.animationFrameId = requestAnimationFrame(this.tick);
+		this.emitState();
+	}
+
+	/**
+	 * Pauses playback.
+	 */
+	pause(): void {
+		if (this.animationFrameId !== null) {
+			cancelAnimationFrame(this.animationFrameId);
+			this.animationFrameId = null;
+		}
+		this.emitState();
+	}
+
+	/**
+	 * Moves playback to a position and emits the frame there.
+	 * @param position The position in milliseconds.
+	 */
+	seek(position: number): void {
+		this.position = Math.min(Math.max(0, position), this.getDuration());
+		this.emitFrame();
+		this.emitState();
+	}
+
+	/**
+	 * Sets the playback rate.
+	 * @param speed The playback rate, 1 is real time.
+	 */
+	setSpeed(speed: number): void {
+		this.speed = Math.max(0, speed);
+		this.emitState();
+	}
+
+	/**
+	 * Duration of the recording in milliseconds.
+	 */
+	getDuration(): number {
+		return this.frames[this.frames.length - 1]?.timestamp ?? 0;
+	}
+
+	/**
+	 * Get the current playback state.
+	 */
+	getState(): ReplayState {
+		return {
+			isPlaying: this.animationFrameId !== null,
+			position: this.position,
+			duration: this.getDuration(),
+			speed: this.speed,
+		};
+	}
+
+	/**
+	 * Sets a callback function to be called with the replayed results.
+	 * @param callback The callback function to be called with the results and their recorded timestamp, so motion is
+	 * timed the same at any playback speed.
+	 */
+	onResults(callback: (results: GestureRecognizerResult | null, timestamp: number) => void): void {
+		this.resultsCallback = callback;
+	}
+
+	/**
+	 * Sets a callback function to be called when the playback state changes.
+	 * @param callback The callback function to be called with the state.
+	 */
+	onStateChange(callback: (state: ReplayState) => void): void {
+		this.stateCallback = callback;
+	}
+
+	/**
+	 * Stops playback and releases the callbacks.
+	 */
+	dispose(): void {
+		this.pause();
+		this.resultsCallback = null;
+		this.stateCallback = null;
+	}
+}
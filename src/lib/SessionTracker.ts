@@ -0,0 +1,153 @@
+import type { GestureType } from "../types/avatar";
+import type { EngagementLevel, SessionEvent, SessionOptions, VisitorSession } from "../types/session";
+import { defaultSessionOptions } from "./constants";
+
+/**
+ * Turns the flickering per-frame presence into visitor sessions: a session starts once someone stays in view, and
+ * ends once they have been out of view for the grace period. Gestures made during a session raise its engagement.
+ */
+export default class SessionTracker {
+	/**
+	 * The tracker options.
+	 */
+	private options: SessionOptions;
+
+	/**
+	 * The current session, null while nobody is around.
+	 */
+	private session: VisitorSession | null = null;
+
+	/**
+	 * Since when someone has been in view without a session, null while nobody is.
+	 */
+	private arrivingSince: number | null = null;
+
+	/**
+	 * When the current session's visitor made their first and latest gesture.
+	 */
+	private firstGestureAt: number | null = null;
+	private lastGestureAt: number | null = null;
+
+	/**
+	 * Creates a new instance of the SessionTracker class.
+	 * @param options The tracker options, merged over the defaults.
+	 */
+	constructor(options: Partial<SessionOptions> = {}) {
+		this.options = { ...defaultSessionOptions, ...options };
+	}
+
+	/**
+	 * Feeds the presence of a frame into the tracker. Call it regularly even without new frames, so sessions end
+	 * on time.
+	 * @param present Whether someone is in view.
+	 * @param people How many people are in view.
+	 * @param timestamp The timestamp in milliseconds since the epoch.
+	 * @returns The session events, if the session started, ended or became more engaged.
+	 */
+	update(present: boolean, people = 1, timestamp: number = Date.now()): SessionEvent[] {
+		const events: SessionEvent[] = [];
+
+		if (this.session) {
+			if (present) {
+				this.session = { ...this.session, lastSeenAt: timestamp, people: Math.max(this.session.people, people) };
+				events.push(...this.updateEngagement(timestamp));
+			} else if (timestamp - this.session.lastSeenAt >= this.options.leaveGraceMs) {
+				const ended = { ...this.session, endedAt: this.session.lastSeenAt };
+				this.session = null;
+				this.firstGestureAt = null;
+				this.lastGestureAt = null;
+				events.push({ type: "ended", session: ended, timestamp });
+			}
+			return events;
+		}
+
+		if (!present) {
+			this.arrivingSince = null;
+			return events;
+		}
+		this.arrivingSince ??= timestamp;
+		if (timestamp - this.arrivingSince >= this.options.arriveMs) {
+			this.session = {
+				id: `${timestamp.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+				startedAt: this.arrivingSince,
+				lastSeenAt: timestamp,
+				endedAt: null,
+				people,
+				engagement: "passive",
+				gestureCount: 0,
+				gestureCounts: {},
+			};
+			this.arrivingSince = null;
+			events.push({ type: "started", session: this.session, timestamp });
+		}
+		return events;
+	}
+
+	/**
+	 * Counts a gesture of the current visitor. Gestures outside of sessions are ignored.
+	 * @param gesture The gesture.
+	 * @param timestamp The timestamp in milliseconds since the epoch.
+	 * @returns The engagement event, if the visitor became more engaged.
+	 */
+	gesture(gesture: GestureType, timestamp: number = Date.now()): SessionEvent[] {
+		if (!this.session || gesture === "None") return [];
+
+		this.firstGestureAt ??= timestamp;
+		this.lastGestureAt = timestamp;
+		const { gestureCounts } = this.session;
+		this.session = {
+			...this.session,
+			lastSeenAt: timestamp,
+			gestureCount: this.session.gestureCount + 1,
+			gestureCounts: { ...gestureCounts, [gesture]: (gestureCounts[gesture] ?? 0) + 1 },
+		};
+		return this.updateEngagement(timestamp);
+	}
+
+	/**
+	 * Get the current session, null while nobody is around.
+	 */
+	getSession(): VisitorSession | null {
+		return this.session;
+	}
+
+	/**
+	 * Ends the current session without an event, e.g. when the input changes.
+	 */
+	reset(): void {
+		this.session = null;
+		this.arrivingSince = null;
+		this.firstGestureAt = null;
+		this.lastGestureAt = null;
+	}
+
+	/**
+	 * Raises the engagement of the session to the level it reached. Engagement never drops within a session.
+	 */
+	private updateEngagement(timestamp: number): SessionEvent[] {
+		if (!this.session) return [];
+
+		const engagement = this.getEngagement();
+		if (ENGAGEMENT_LEVELS.indexOf(engagement) <= ENGAGEMENT_LEVELS.indexOf(this.session.engagement)) return [];
+		this.session = { ...this.session, engagement };
+		return [{ type: "engagement", session: this.session, timestamp }];
+	}
+
+	/**
+	 * Get the engagement the session reached. Gesturing time runs from the first gesture to the latest, standing by
+	 * after a single gesture doesn't count.
+	 */
+	private getEngagement(): EngagementLevel {
+		const { highlyEngagedGestures, highlyEngagedMs } = this.options;
+		if (!this.session || this.firstGestureAt === null || this.lastGestureAt === null) return "passive";
+		if (
+			this.session.gestureCount >= highlyEngagedGestures ||
+			this.lastGestureAt - this.firstGestureAt >= highlyEngagedMs
+		) {
+			return "highlyEngaged";
+		}
+		return "interacting";
+	}
+}
+
+const ENGAGEMENT_LEVELS: EngagementLevel[] = ["passive", "interacting", "highlyEngaged"];
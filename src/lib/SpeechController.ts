@@ -0,0 +1,215 @@
+import type { SpeechEngine, SpeechEvent, SpeechOptions, SpeechState, VoiceOptions } from "../types/speech";
+import { defaultSpeechOptions } from "./constants";
+
+interface QueuedSpeech {
+	text: string;
+	lang: string;
+	voice: VoiceOptions;
+}
+
+/**
+ * Speaks the avatar's messages one at a time through a pluggable speech engine. Messages queue up instead of
+ * overlapping, the same message is not repeated to the same visitor within the cooldown, and nothing is spoken
+ * while muted.
+ */
+export default class SpeechController {
+	/**
+	 * The speech engine.
+	 */
+	private engine: SpeechEngine;
+
+	/**
+	 * The controller options.
+	 */
+	private options: SpeechOptions;
+
+	/**
+	 * Whether speech is muted.
+	 */
+	private muted: boolean;
+
+	/**
+	 * The message being spoken, and the ones waiting for it.
+	 */
+	private current: QueuedSpeech | null = null;
+	private queue: QueuedSpeech[] = [];
+
+	/**
+	 * When each message was last queued, in milliseconds since the epoch.
+	 */
+	private spokenAt = new Map<string, number>();
+
+	/**
+	 * The callback function to be called when the state changes.
+	 */
+	private stateChangeCallback: ((state: SpeechState) => void) | null = null;
+
+	/**
+	 * The callback function to be called as the current message is spoken.
+	 */
+	private speechEventCallback: ((event: SpeechEvent) => void) | null = null;
+
+	/**
+	 * Creates a new instance of the SpeechController class.
+	 * @param engine The speech engine.
+	 * @param options The controller options, merged over the defaults.
+	 * @param muted Whether speech starts muted.
+	 */
+	constructor(engine: SpeechEngine, options: Partial<SpeechOptions> = {}, muted = true) {
+		this.engine = engine;
+		this.options = { ...defaultSpeechOptions, ...options };
+		this.muted = muted;
+	}
+
+	/**
+	 * Queues a message to be spoken, unless muted or it was spoken within the cooldown.
+	 * @param text The message. Emoji are not spoken.
+	 * @param lang The BCP 47 language tag of the message.
+	 * @param voice The voice options, merged over the default voice.
+	 * @param timestamp The current timestamp in milliseconds.
+	 * @returns Whether the message was queued.
+	 */
+	say(text: string, lang: string, voice: Partial<VoiceOptions> = {}, timestamp: number = Date.now()): boolean {
+		const speech = toSpeechText(text);
+		if (this.muted || !speech || !this.engine.isSupported()) return false;
+
+		const spokenAt = this.spokenAt.get(speech);
+		if (spokenAt !== undefined && timestamp - spokenAt < this.options.cooldownMs) return false;
+		this.spokenAt.set(speech, timestamp);
+
+		this.queue.push({ text: speech, lang, voice: { ...this.options.voice, ...voice } });
+		if (this.queue.length > this.options.maxQueue) {
+			this.queue.splice(0, this.queue.length - this.options.maxQueue);
+		}
+		this.notify();
+		this.speakNext();
+		return true;
+	}
+
+	/**
+	 * Mutes or unmutes speech. Muting stops the current message and drops the queued ones.
+	 */
+	setMuted(muted: boolean): void {
+		this.muted = muted;
+		if (muted) {
+			this.cancel();
+		} else {
+			this.notify();
+		}
+	}
+
+	/**
+	 * Check if speech is muted.
+	 */
+	isMuted(): boolean {
+		return this.muted;
+	}
+
+	/**
+	 * Replaces the speech engine, stopping the current message.
+	 */
+	setEngine(engine: SpeechEngine): void {
+		this.cancel();
+		this.engine = engine;
+	}
+
+	/**
+	 * Forgets which messages were spoken, e.g. when a new visitor arrives.
+	 */
+	resetCooldowns(): void {
+		this.spokenAt.clear();
+	}
+
+	/**
+	 * Stops the current message and drops the queued ones.
+	 */
+	cancel(): void {
+		this.queue = [];
+		this.engine.cancel();
+		this.notify();
+	}
+
+	/**
+	 * Get the current state.
+	 */
+	getState(): SpeechState {
+		return {
+			muted: this.muted,
+			speaking: this.current?.text ?? null,
+			queued: this.queue.map(({ text }) => text),
+		};
+	}
+
+	/**
+	 * Sets a callback function to be called when the state changes.
+	 * @param callback The callback function to be called with the new state.
+	 */
+	onStateChange(callback: (state: SpeechState) => void): void {
+		this.stateChangeCallback = callback;
+	}
+
+	/**
+	 * Sets a callback function to be called when the current message starts, reaches a word and ends,
+	 * e.g. to synchronize a speaking animation.
+	 * @param callback The callback function to be called with the event.
+	 */
+	onSpeechEvent(callback: (event: SpeechEvent) => void): void {
+		this.speechEventCallback = callback;
+	}
+
+	/**
+	 * Stops speaking and releases the callbacks.
+	 */
+	dispose(): void {
+		this.stateChangeCallback = null;
+		this.speechEventCallback = null;
+		this.queue = [];
+		this.engine.cancel();
+	}
+
+	/**
+	 * Speaks the next queued message once the current one is done.
+	 */
+	private async speakNext(): Promise<void> {
+		if (this.current) return;
+		const next = this.queue.shift();
+		if (!next) return;
+
+		this.current = next;
+		this.notify();
+		try {
+			await this.engine.speak(
+				{ text: next.text, lang: next.lang, ...next.voice },
+				{
+					onStart: () => this.speechEventCallback?.({ type: "start", text: next.text, rate: next.voice.rate }),
+					onBoundary: (charIndex, charLength) =>
+						this.speechEventCallback?.({ type: "boundary", charIndex, charLength }),
+				},
+			);
+		} catch (error) {
+			console.error("Speech output error:", error);
+		} finally {
+			this.current = null;
+			this.speechEventCallback?.({ type: "end" });
+			this.notify();
+		}
+		this.speakNext();
+	}
+
+	/**
+	 * Calls the state change callback.
+	 */
+	private notify(): void {
+		this.stateChangeCallback?.(this.getState());
+	}
+}
+
+/**
+ * Strips emoji and collapses whitespace, so the engine does not read out the emoji's names.
+ */
+function toSpeechText(text: string): string {
+	return text
+		.replace(/\p{Extended_Pictographic}|\u200d|\ufe0f/gu, "")
+		.replace(/\s+/g, " ")
+		.trim();
+}
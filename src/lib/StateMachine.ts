@@ -0,0 +1,231 @@
+import type {
+	MachineDefinition,
+	MachineEvent,
+	StateDefinition,
+	TransitionDefinition,
+	TransitionRecord,
+} from "../types/stateMachine";
+
+/**
+ * A small declarative state machine with guarded transitions, entry/exit actions, state timeouts,
+ * and interrupt priorities: events below the priority of the current state are queued until it is left.
+ */
+export default class StateMachine<S extends string, C, E extends MachineEvent> {
+	/**
+	 * The machine definition.
+	 */
+	private definition: MachineDefinition<S, C, E>;
+
+	/**
+	 * The current state and the context shared by the actions.
+	 */
+	private state: S;
+	private context: C;
+
+	/**
+	 * Events waiting for a state they may interrupt, oldest first.
+	 */
+	private queue: E[] = [];
+
+	/**
+	 * The most recent transitions, oldest first.
+	 */
+	private history: TransitionRecord<S, E>[] = [];
+
+	/**
+	 * The pending timeout of the current state.
+	 */
+	private timeoutId: ReturnType<typeof setTimeout> | null = null;
+
+	/**
+	 * Whether the machine has been started and not disposed.
+	 */
+	private running = false;
+
+	/**
+	 * The callback function to be called after every transition.
+	 */
+	private transitionCallback: ((transition: TransitionRecord<S, E>) => void) | null = null;
+
+	/**
+	 * Creates a new instance of the StateMachine class.
+	 * @param definition The states and transitions of the machine.
+	 */
+	constructor(definition: MachineDefinition<S, C, E>) {
+		this.definition = definition;
+		this.state = definition.initial;
+		this.context = definition.context;
+	}
+
+	/**
+	 * Enters the current state, running its entry action and starting its timeout.
+	 */
+	start(): void {
+		if (this.running) return;
+		this.running = true;
+		this.enter(null);
+	}
+
+	/**
+	 * Sends an event to the machine.
+	 * @param event The event.
+	 * @returns Whether the event caused a transition or was queued.
+	 */
+	send(event: E): boolean {
+		if (!this.running) return false;
+
+		const transition = this.resolve(event);
+		if (!transition) return false;
+
+		if (this.getPriority(transition, event) < this.getStatePriority()) {
+			this.queue.push(event);
+			const maxQueue = this.definition.maxQueue ?? 5;
+			if (this.queue.length > maxQueue) {
+				this.queue.splice(0, this.queue.length - maxQueue);
+			}
+			return true;
+		}
+
+		this.transition(transition, event);
+		this.drainQueue();
+		return true;
+	}
+
+	/**
+	 * Get the current state.
+	 */
+	getState(): S {
+		return this.state;
+	}
+
+	/**
+	 * Get the context shared by the actions.
+	 */
+	getContext(): C {
+		return this.context;
+	}
+
+	/**
+	 * Get the most recent transitions, oldest first.
+	 */
+	getHistory(): TransitionRecord<S, E>[] {
+		return [...this.history];
+	}
+
+	/**
+	 * Get the events waiting for a state they may interrupt, oldest first.
+	 */
+	getQueue(): E[] {
+		return [...this.queue];
+	}
+
+	/**
+	 * Sets a callback function to be called after every transition.
+	 * @param callback The callback function to be called with the transition.
+	 */
+	onTransition(callback: (transition: TransitionRecord<S, E>) => void): void {
+		this.transitionCallback = callback;
+	}
+
+	/**
+	 * Stops the machine, clearing the pending timeout and the queued events. It can be started again.
+	 */
+	dispose(): void {
+		this.running = false;
+		this.clearTimeout();
+		this.queue = [];
+	}
+
+	private getDefinition(state: S = this.state): StateDefinition<S, C, E> {
+		return this.definition.states[state];
+	}
+
+	/**
+	 * Finds the first transition of the current state for the event whose guard passes.
+	 */
+	private resolve(event: E): TransitionDefinition<S, C, E> | undefined {
+		const candidates = this.getDefinition().on?.[event.type as E["type"]];
+		if (!candidates) return undefined;
+		return (Array.isArray(candidates) ? candidates : [candidates]).find(
+			(transition) => !transition.guard || transition.guard(this.context, event),
+		);
+	}
+
+	private getPriority(transition: TransitionDefinition<S, C, E>, event: E): number {
+		const { priority = 0 } = transition;
+		return typeof priority === "function" ? priority(this.context, event) : priority;
+	}
+
+	private getStatePriority(): number {
+		const { priority = 0 } = this.getDefinition();
+		return typeof priority === "function" ? priority(this.context) : priority;
+	}
+
+	/**
+	 * Leaves the current state for the transition target, recording the transition.
+	 */
+	private transition(transition: TransitionDefinition<S, C, E> | { target: S }, event: E | null): void {
+		const from = this.state;
+		this.clearTimeout();
+		this.getDefinition().exit?.(this.context, event);
+		if (event && "action" in transition) {
+			transition.action?.(this.context, event);
+		}
+		this.state = transition.target;
+
+		const record: TransitionRecord<S, E> = {
+			from,
+			to: this.state,
+			event: event?.type ?? "timeout",
+			timestamp: Date.now(),
+		};
+		this.history.push(record);
+		const maxHistory = this.definition.maxHistory ?? 20;
+		if (this.history.length > maxHistory) {
+			this.history.splice(0, this.history.length - maxHistory);
+		}
+
+		this.enter(event);
+		this.transitionCallback?.(record);
+	}
+
+	/**
+	 * Runs the entry action of the current state and starts its timeout.
+	 */
+	private enter(event: E | null): void {
+		const { entry, timeout } = this.getDefinition();
+		entry?.(this.context, event);
+
+		if (timeout) {
+			const after = typeof timeout.after === "function" ? timeout.after(this.context) : timeout.after;
+			this.timeoutId = setTimeout(() => {
+				this.timeoutId = null;
+				this.transition(timeout, null);
+				this.drainQueue();
+			}, after);
+		}
+	}
+
+	/**
+	 * Replays the queued events the current state lets through, dropping those it has no transition for.
+	 */
+	private drainQueue(): void {
+		while (this.queue.length > 0) {
+			const event = this.queue[0];
+			const transition = this.resolve(event);
+			if (transition && this.getPriority(transition, event) < this.getStatePriority()) return;
+
+			this.queue.shift();
+			if (transition) {
+				this.transition(transition, event);
+			}
+		}
+	}
+
+	private clearTimeout(): void {
+		if (this.timeoutId !== null) {
+			clearTimeout(this.timeoutId);
+			this.timeoutId = null;
+		}
+	}
+}
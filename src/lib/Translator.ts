@@ -0,0 +1,117 @@
+import type {
+	LocaleMessages,
+	PluralMessage,
+	TextDirection,
+	TimeOfDay,
+	TranslationParams,
+	TranslatorOptions,
+} from "../types/i18n";
+
+/**
+ * Translates message keys for a locale, with plural forms picked by the `count` parameter and `{name}` placeholders
+ * replaced by the parameters. `{timeOfDay}` and `{storeName}` are available to every message without passing them.
+ */
+export default class Translator {
+	/**
+	 * The BCP 47 language tag of the locale.
+	 */
+	readonly locale: string;
+
+	/**
+	 * The text direction of the locale.
+	 */
+	readonly dir: TextDirection;
+
+	/**
+	 * The locale's messages.
+	 */
+	private messages: LocaleMessages;
+
+	/**
+	 * The translator options.
+	 */
+	private options: TranslatorOptions;
+
+	/**
+	 * Plural rules and number format of the locale.
+	 */
+	private pluralRules: Intl.PluralRules;
+	private numberFormat: Intl.NumberFormat;
+
+	/**
+	 * Creates a new instance of the Translator class.
+	 * @param locale The BCP 47 language tag of the locale.
+	 * @param messages The locale's messages.
+	 * @param options The translator options.
+	 */
+	constructor(locale: string, messages: LocaleMessages = {}, options: Partial<TranslatorOptions> = {}) {
+		this.locale = locale;
+		this.messages = messages;
+		this.options = { dir: "ltr", fallback: {}, ...options };
+		this.dir = this.options.dir;
+		this.pluralRules = new Intl.PluralRules(locale);
+		this.numberFormat = new Intl.NumberFormat(locale);
+	}
+
+	/**
+	 * Check if a message exists for the key, in the locale or the fallback messages.
+	 */
+	has(key: string): boolean {
+		return key in this.messages || key in this.options.fallback;
+	}
+
+	/**
+	 * Translates a message key. Bound, so it can be passed around on its own.
+	 * @param key The message key.
+	 * @param params The placeholder values, `count` also picks the plural form.
+	 * @returns The translated message, or the key if there is no message for it.
+	 */
+	t = (key: string, params: TranslationParams = {}): string => {
+		const message = this.messages[key] ?? this.options.fallback[key];
+		return message === undefined ? key : this.format(message, params);
+	};
+
+	/**
+	 * Formats a message that is not looked up by key, e.g. one defined by a personality. Bound, so it can be
+	 * passed around on its own.
+	 * @param message The message, or its plural forms.
+	 * @param params The placeholder values, `count` also picks the plural form.
+	 */
+	format = (message: string | PluralMessage, params: TranslationParams = {}): string => {
+		const template = typeof message === "string" ? message : this.selectPlural(message, params.count);
+		return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+			const value = params[name] ?? this.getContextParam(name);
+			if (value === undefined) return placeholder;
+			return typeof value === "number" ? this.numberFormat.format(value) : value;
+		});
+	};
+
+	/**
+	 * Picks the plural form for a count, falling back to `other`.
+	 */
+	private selectPlural(message: PluralMessage, count: string | number | undefined): string {
+		if (typeof count !== "number") return message.other;
+		return message[this.pluralRules.select(count)] ?? message.other;
+	}
+
+	/**
+	 * Get the value of a placeholder available to every message.
+	 */
+	private getContextParam(name: string): string | undefined {
+		if (name === "timeOfDay") return this.t(`timeOfDay.${getTimeOfDay()}`);
+		if (name === "storeName") return this.options.storeName || this.t("store.defaultName");
+		return undefined;
+	}
+}
+
+/**
+ * Get the part of the day: morning from 5:00, afternoon from 12:00, evening from 17:00 and night from 22:00.
+ * @param date The date, defaults to now.
+ */
+export function getTimeOfDay(date: Date = new Date()): TimeOfDay {
+	const hour = date.getHours();
+	if (hour >= 5 && hour < 12) return "morning";
+	if (hour >= 12 && hour < 17) return "afternoon";
+	if (hour >= 17 && hour < 22) return "evening";
+	return "night";
+}
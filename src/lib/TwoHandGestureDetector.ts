@@ -0,0 +1,179 @@
+import type { Category, NormalizedLandmark } from "@mediapipe/tasks-vision";
+import type {
+	GestureClassification,
+	HandClassification,
+	Handedness,
+	TwoHandGestureOptions,
+	TwoHandGestureType,
+} from "../types/gesture";
+import { defaultTwoHandGestureOptions } from "./constants";
+import { getDistance, getHandSize, getPalmCenter } from "./landmarks";
+
+/**
+ * Distance between the palms of both hands at a point in time, relative to the hand size.
+ */
+interface PalmDistanceSample {
+	timestamp: number;
+	distance: number;
+}
+
+/**
+ * Detects gestures made with both hands (double thumbs up, heart and clap),
+ * and estimates how many people the visible hands belong to.
+ */
+export default class TwoHandGestureDetector {
+	/**
+	 * The detector options.
+	 */
+	private options: TwoHandGestureOptions;
+
+	/**
+	 * The recent palm distances while two hands are visible, oldest first.
+	 */
+	private samples: PalmDistanceSample[] = [];
+
+	/**
+	 * When the last clap was detected.
+	 */
+	private lastClapAt = Number.NEGATIVE_INFINITY;
+
+	/**
+	 * Creates a new instance of the TwoHandGestureDetector class.
+	 * @param options The detector options, merged over the defaults.
+	 */
+	constructor(options: Partial<TwoHandGestureOptions> = {}) {
+		this.options = { ...defaultTwoHandGestureOptions, ...options };
+	}
+
+	/**
+	 * Get the hand of the person from MediaPipe's handedness category.
+	 * @param category The top handedness category of the hand.
+	 */
+	getHandedness(category: Category | undefined): Handedness {
+		const label: Handedness = category?.categoryName === "Left" ? "Left" : "Right";
+		if (this.options.mirroredInput) return label;
+		return label === "Left" ? "Right" : "Left";
+	}
+
+	/**
+	 * Feeds the hands of a frame into the detector.
+	 * @param hands The gesture of every visible hand.
+	 * @param landmarks The landmarks of every hand in the recognition results, indexed by `hand.index`.
+	 * @param timestamp The frame timestamp in milliseconds.
+	 * @returns The two-hand gesture, null if there is none.
+	 */
+	update(
+		hands: HandClassification[],
+		landmarks: NormalizedLandmark[][],
+		timestamp: number = performance.now(),
+	): GestureClassification | null {
+		const latest = this.samples[this.samples.length - 1]?.timestamp ?? this.lastClapAt;
+		if (timestamp < latest) {
+			// e.g. a replay looping, or switching between the webcam and a replay
+			this.reset();
+		}
+
+		const pair = this.findPair(hands);
+		if (!pair) {
+			// A clap interrupted by a hand leaving the frame does not count.
+			this.samples = [];
+			return this.isReportingClap(timestamp) ? { gesture: "Clap", score: 1 } : null;
+		}
+
+		const [first, second] = pair.map((hand) => landmarks[hand.index]);
+		const size = (getHandSize(first) + getHandSize(second)) / 2 || 1;
+
+		this.samples.push({ timestamp, distance: getDistance(getPalmCenter(first), getPalmCenter(second)) / size });
+		this.samples = this.samples.filter((sample) => timestamp - sample.timestamp <= this.options.clapMaxMs);
+
+		const gesture =
+			this.detectClap(timestamp) ?? this.detectHeart(first, second, size) ?? detectThumbsUp(pair, this.options);
+		return gesture
+			? { gesture, score: gesture === "Double_Thumbs_Up" ? Math.min(pair[0].score, pair[1].score) : 1 }
+			: null;
+	}
+
+	/**
+	 * Estimates how many people the visible hands belong to. Two hands of the same side can't be one person's,
+	 * and one person's hands are at about the same distance from the camera and close together.
+	 * @param hands The gesture of every visible hand.
+	 * @param landmarks The landmarks of every hand in the recognition results, indexed by `hand.index`.
+	 */
+	countPeople(hands: HandClassification[], landmarks: NormalizedLandmark[][]): number {
+		const left = hands.filter((hand) => hand.handedness === "Left").length;
+		const right = hands.length - left;
+		const people = Math.max(left, right);
+		if (people !== 1 || hands.length !== 2) return people;
+
+		const [first, second] = hands.map((hand) => landmarks[hand.index]);
+		const sizes = [getHandSize(first), getHandSize(second)];
+		const sizeRatio = Math.max(...sizes) / (Math.min(...sizes) || 1);
+		const spread = Math.abs(first[0].x - second[0].x);
+		return sizeRatio > this.options.peopleSizeRatio || spread > this.options.peopleSpread ? 2 : 1;
+	}
+
+	/**
+	 * Clears the palm history and the last clap.
+	 */
+	reset(): void {
+		this.samples = [];
+		this.lastClapAt = Number.NEGATIVE_INFINITY;
+	}
+
+	/**
+	 * Finds a left and a right hand, the pair one person can make a two-hand gesture with.
+	 */
+	private findPair(hands: HandClassification[]): [HandClassification, HandClassification] | null {
+		const left = hands.find((hand) => hand.handedness === "Left");
+		const right = hands.find((hand) => hand.handedness === "Right");
+		return left && right ? [left, right] : null;
+	}
+
+	private isReportingClap(timestamp: number): boolean {
+		return timestamp - this.lastClapAt <= this.options.reportMs;
+	}
+
+	/**
+	 * A clap brings the palms together from apart within a short time.
+	 */
+	private detectClap(timestamp: number): TwoHandGestureType | null {
+		if (this.isReportingClap(timestamp)) return "Clap";
+		if (timestamp - this.lastClapAt < this.options.cooldownMs) return null;
+
+		const latest = this.samples[this.samples.length - 1];
+		if (latest.distance > this.options.clapClosedDistance) return null;
+		if (!this.samples.some((sample) => sample.distance >= this.options.clapOpenDistance)) return null;
+
+		this.lastClapAt = timestamp;
+		this.samples = [];
+		return "Clap";
+	}
+
+	/**
+	 * A heart touches the index tips together above the thumb tips touching together,
+	 * leaving a gap between the palms unlike pressed together hands.
+	 */
+	private detectHeart(
+		first: NormalizedLandmark[],
+		second: NormalizedLandmark[],
+		size: number,
+	): TwoHandGestureType | null {
+		const { heartDistance, clapClosedDistance } = this.options;
+		if (this.samples[this.samples.length - 1].distance <= clapClosedDistance) return null;
+
+		const indexTips = getDistance(first[8], second[8]) / size;
+		const thumbTips = getDistance(first[4], second[4]) / size;
+		const indexAbove = first[8].y + second[8].y < first[4].y + second[4].y;
+		return indexTips < heartDistance && thumbTips < heartDistance && indexAbove ? "Heart" : null;
+	}
+}
+
+/**
+ * Both hands give a thumbs up.
+ */
+function detectThumbsUp(
+	pair: [HandClassification, HandClassification],
+	{ thumbsUpScore }: TwoHandGestureOptions,
+): TwoHandGestureType | null {
+	return pair.every((hand) => hand.gesture === "Thumb_Up" && hand.score >= thumbsUpScore) ? "Double_Thumbs_Up" : null;
+}
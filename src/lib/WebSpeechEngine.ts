@@ -0,0 +1,71 @@
+import type { SpeechCallbacks, SpeechEngine, SpeechRequest } from "../types/speech";
+
+/**
+ * Speaks with the browser's Web Speech API `speechSynthesis`.
+ */
+export default class WebSpeechEngine implements SpeechEngine {
+	/**
+	 * Check if the browser supports speech synthesis.
+	 */
+	isSupported(): boolean {
+		return typeof window !== "undefined" && "speechSynthesis" in window;
+	}
+
+	/**
+	 * Speaks a text with the voice for its language.
+	 * @param request The text, its language and the voice options.
+	 * @param callbacks Called when the speech starts and at every word.
+	 * @returns A promise resolving once the text has been spoken or the speech was cancelled.
+	 */
+	speak(request: SpeechRequest, callbacks: SpeechCallbacks = {}): Promise<void> {
+		if (!this.isSupported()) {
+			return Promise.reject(new Error("Speech synthesis is not supported"));
+		}
+
+		return new Promise((resolve, reject) => {
+			const utterance = new SpeechSynthesisUtterance(request.text);
+			utterance.lang = request.lang;
+			utterance.rate = request.rate;
+			utterance.pitch = request.pitch;
+			utterance.volume = request.volume;
+			utterance.voice = this.findVoice(request);
+
+			utterance.onstart = () => callbacks.onStart?.();
+			utterance.onboundary = (event) => {
+				if (event.name === "word") callbacks.onBoundary?.(event.charIndex, event.charLength ?? 0);
+			};
+			utterance.onend = () => resolve();
+			utterance.onerror = (event) => {
+				// Cancelling the speech is not a failure.
+				if (event.error === "interrupted" || event.error === "canceled") resolve();
+				else reject(new Error(`Speech synthesis failed: ${event.error}`));
+			};
+
+			window.speechSynthesis.speak(utterance);
+		});
+	}
+
+	/**
+	 * Stops speaking.
+	 */
+	cancel(): void {
+		if (this.isSupported()) {
+			window.speechSynthesis.cancel();
+		}
+	}
+
+	/**
+	 * Finds the voice whose name contains the requested one, preferring voices for the language,
+	 * or else the first voice for the language.
+	 */
+	private findVoice({ voice, lang }: SpeechRequest): SpeechSynthesisVoice | null {
+		const language = lang.split("-")[0].toLowerCase();
+		const voices = window.speechSynthesis
+			.getVoices()
+			.filter((candidate) => candidate.lang.toLowerCase().startsWith(language));
+		const named = voice ? voices.find((candidate) => candidate.name.includes(voice)) : undefined;
+		return (
+			named ?? voices.find((candidate) => candidate.lang.toLowerCase() === lang.toLowerCase()) ?? voices[0] ?? null
+		);
+	}
+}
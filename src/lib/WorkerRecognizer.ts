@@ -0,0 +1,273 @@
+import type { GestureRecognizerResult } from "@mediapipe/tasks-vision";
+import FrameScheduler from "./FrameScheduler";
+import { defaultInferenceOptions } from "./constants";
+import type {
+	InferenceStats,
+	RecognizerCreateOptions,
+	RecognizerInstance,
+	RecognizerWorkerRequest,
+	RecognizerWorkerResponse,
+} from "./types";
+
+/**
+ * Represents a gesture recognizer that runs inference in a Web Worker, keeping the main thread free for animations.
+ * Frames are captured from the video element as VideoFrames (or ImageBitmaps where VideoFrame is unsupported)
+ * and transferred to the worker, with at most one frame in flight.
+ */
+export default class WorkerRecognizer implements RecognizerInstance {
+	/**
+	 * The worker running the underlying GestureRecognizer.
+	 */
+	private worker: Worker;
+
+	/**
+	 * The HTML video element used for recognition.
+	 */
+	private videoElement: HTMLVideoElement;
+
+	/**
+	 * The results of the gesture recognition.
+	 */
+	private results: GestureRecognizerResult | null = null;
+
+	/**
+	 * The callback function to be called when new results are available.
+	 */
+	private resultsCallback: ((results: GestureRecognizerResult | null, timestamp: number) => void) | null = null;
+
+	/**
+	 * Schedules frame capture on the video stream.
+	 */
+	private scheduler: FrameScheduler;
+
+	/**
+	 * Whether a frame is being captured or processed by the worker.
+	 */
+	private frameInFlight = false;
+
+	/**
+	 * Whether dispose() has been called.
+	 */
+	private disposed = false;
+
+	/**
+	 * Creates a new instance of the WorkerRecognizer class.
+	 * @param videoElement The HTML video element to be used for recognition.
+	 * @param inference The inference scheduling options.
+	 */
+	private constructor(videoElement: HTMLVideoElement, inference: RecognizerCreateOptions["inference"]) {
+		this.videoElement = videoElement;
+		this.scheduler = new FrameScheduler({ ...defaultInferenceOptions, ...inference }, this.processFrame);
+		// A module worker, as Vite serves workers unbundled during development. The worker loads the WASM runtime itself.
+		this.worker = new Worker(new URL("./recognizer.worker.ts", import.meta.url), { type: "module" });
+		this.worker.onmessage = this.handleMessage;
+	}
+
+	/**
+	 * Creates a new instance of the WorkerRecognizer class.
+	 * @see RecognizerCreateOptions for the available options.
+	 * @returns A Promise that resolves to a WorkerRecognizer instance once the worker has loaded the model.
+	 */
+	static async create({
+		videoElement,
+		options,
+		assets,
+		autoStart = true,
+		inference,
+	}: RecognizerCreateOptions): Promise<WorkerRecognizer> {
+		const recognizer = new WorkerRecognizer(videoElement, inference);
+		try {
+			await recognizer.init({ type: "init", options, assets });
+		} catch (error) {
+			recognizer.dispose();
+			throw error;
+		}
+		if (autoStart) {
+			await recognizer.start();
+		}
+		return recognizer;
+	}
+
+	/**
+	 * Initializes the gesture recognizer in the worker.
+	 * @returns A Promise that resolves when the worker reports it is ready, and rejects if the worker script fails to
+	 * load or run.
+	 */
+	private init(request: Extract<RecognizerWorkerRequest, { type: "init" }>): Promise<void> {
+		return new Promise((resolve, reject) => {
+			const cleanup = () => {
+				this.worker.removeEventListener("message", onMessage);
+				this.worker.removeEventListener("error", onError);
+			};
+			const onMessage = ({ data }: MessageEvent<RecognizerWorkerResponse>) => {
+				if (data.type === "ready") {
+					cleanup();
+					resolve();
+				} else if (data.type === "error") {
+					cleanup();
+					reject(new Error(data.message));
+				}
+			};
+			const onError = (event: ErrorEvent) => {
+				cleanup();
+				reject(new Error(`Recognizer worker failed: ${event.message || "the script could not be loaded"}`));
+			};
+			this.worker.addEventListener("message", onMessage);
+			this.worker.addEventListener("error", onError);
+			this.post(request);
+		});
+	}
+
+	/**
+	 * Sends a message to the worker.
+	 */
+	private post(message: RecognizerWorkerRequest, transfer: Transferable[] = []): void {
+		this.worker.postMessage(message, transfer);
+	}
+
+	/**
+	 * Handles results and errors posted by the worker.
+	 */
+	private handleMessage = ({ data }: MessageEvent<RecognizerWorkerResponse>) => {
+		if (data.type === "results") {
+			this.frameInFlight = false;
+			if (this.disposed) return;
+
+			this.scheduler.recordLatency(performance.now() - data.timestamp);
+			this.results = data.results;
+			if (this.resultsCallback) {
+				this.resultsCallback(this.results, data.timestamp);
+			}
+		} else if (data.type === "error") {
+			this.frameInFlight = false;
+			console.error("Gesture recognition error:", data.message);
+		}
+	};
+
+	/**
+	 * Captures the current video frame and transfers it to the worker.
+	 * @param videoElement The HTML video element.
+	 * @param timestamp The frame timestamp from performance.now().
+	 * @returns Whether the frame was captured, false while a previous frame is still in flight or the video has no
+	 * frame to capture, e.g. while switching cameras.
+	 */
+	private processFrame = (videoElement: HTMLVideoElement, timestamp: number): boolean => {
+		if (this.frameInFlight) return false;
+		this.frameInFlight = true;
+
+		if (typeof VideoFrame !== "undefined") {
+			let frame: VideoFrame | undefined;
+			try {
+				frame = new VideoFrame(videoElement, { timestamp: Math.round(timestamp * 1000) });
+				this.post({ type: "frame", frame, timestamp }, [frame]);
+				return true;
+			} catch (error) {
+				frame?.close();
+				this.frameInFlight = false;
+				console.error("Failed to capture video frame:", error);
+				return false;
+			}
+		}
+
+		createImageBitmap(videoElement)
+			.then((frame) => {
+				if (this.disposed) {
+					frame.close();
+					return;
+				}
+				this.post({ type: "frame", frame, timestamp }, [frame]);
+			})
+			.catch((error) => {
+				this.frameInFlight = false;
+				console.error("Failed to capture video frame:", error);
+			});
+		return true;
+	};
+
+	/**
+	 * Starts recognizing gestures from the video stream once it is ready.
+	 * Does nothing if the recognition loop is already running.
+	 * @returns A Promise that resolves when the loop has started, or immediately if it was paused before that.
+	 */
+	async start(): Promise<void> {
+		if (this.disposed) {
+			throw new Error("Recognizer has been disposed");
+		}
+		await this.scheduler.start(this.videoElement);
+	}
+
+	/**
+	 * Stops the recognition loop while keeping the model loaded in the worker.
+	 */
+	pause(): void {
+		this.scheduler.stop();
+	}
+
+	/**
+	 * Resumes the recognition loop after pause().
+	 * @returns A Promise that resolves when the loop has restarted.
+	 */
+	resume(): Promise<void> {
+		return this.start();
+	}
+
+	/**
+	 * Whether the recognition loop is running.
+	 */
+	isRunning(): boolean {
+		return this.scheduler.isRunning();
+	}
+
+	/**
+	 * Get the current inference performance, latency includes the round trip to the worker.
+	 * @returns The current inference rate limit, average latency and skipped frame count.
+	 */
+	getInferenceStats(): InferenceStats {
+		return this.scheduler.getStats();
+	}
+
+	/**
+	 * Swaps the video element used for recognition, e.g. when switching cameras, without reloading the model.
+	 * @param videoElement The new HTML video element.
+	 */
+	setVideoElement(videoElement: HTMLVideoElement): void {
+		if (videoElement === this.videoElement) return;
+
+		this.videoElement = videoElement;
+		this.results = null;
+		if (this.scheduler.isRunning()) {
+			void this.scheduler.start(videoElement);
+		}
+	}
+
+	/**
+	 * Stops recognition and terminates the worker, releasing the model.
+	 * The instance cannot be used afterwards.
+	 */
+	dispose(): void {
+		if (this.disposed) return;
+
+		this.scheduler.stop();
+		this.disposed = true;
+		this.resultsCallback = null;
+		this.results = null;
+		// Terminating the worker frees its WASM heap and GPU context.
+		this.worker.terminate();
+	}
+
+	/**
+	 * Sets a callback function to be called when new results are available.
+	 * @param callback The callback function to be called with the results and the timestamp of their frame.
+	 */
+	onResults(callback: (results: GestureRecognizerResult | null, timestamp: number) => void): void {
+		this.resultsCallback = callback;
+	}
+
+	/**
+	 * Get the current recognition results.
+	 * @returns The current recognition results or null if no results available.
+	 */
+	getResults(): GestureRecognizerResult | null {
+		return this.results;
+	}
+}
@@ -0,0 +1,106 @@
+import type { AnalyticsEvent, AnalyticsExport, AnalyticsExportFormat, AnalyticsSummary } from "../types/analytics";
+import type { GestureType } from "../types/avatar";
+import { downloadFile } from "./utils";
+
+/**
+ * Columns of the CSV export, every event type filling the ones it has.
+ */
+const CSV_COLUMNS = [
+	"id",
+	"timestamp",
+	"type",
+	"sessionId",
+	"people",
+	"dwellMs",
+	"engagement",
+	"gestureCount",
+	"gesture",
+	"confidence",
+	"phase",
+	"animation",
+	"state",
+	"mood",
+] as const;
+
+/**
+ * Aggregates events into sessions per hour of the day, gesture counts, the average session length and how engaged
+ * the visitors got.
+ * @param events The events, oldest first.
+ * @param topGestures How many of the most common gestures to list.
+ */
+export function summarizeAnalytics(events: AnalyticsEvent[], topGestures = 5): AnalyticsSummary {
+	const engagementsByHour = Array.from({ length: 24 }, () => 0);
+	const gestureCounts = new Map<GestureType, number>();
+	let sessions = 0;
+	let gestures = 0;
+	let finishedSessions = 0;
+	let totalSessionMs = 0;
+	const engagement = { passive: 0, interacting: 0, highlyEngaged: 0 };
+
+	for (const event of events) {
+		if (event.type === "person_arrived") {
+			sessions++;
+			engagementsByHour[new Date(event.timestamp).getHours()]++;
+		} else if (event.type === "person_left") {
+			finishedSessions++;
+			totalSessionMs += event.dwellMs;
+			if (event.engagement) engagement[event.engagement]++;
+		} else if (event.type === "gesture") {
+			gestures++;
+			gestureCounts.set(event.gesture, (gestureCounts.get(event.gesture) ?? 0) + 1);
+		}
+	}
+
+	return {
+		sessions,
+		averageSessionMs: finishedSessions > 0 ? totalSessionMs / finishedSessions : null,
+		engagementsByHour,
+		topGestures: [...gestureCounts]
+			.map(([gesture, count]) => ({ gesture, count }))
+			.sort((a, b) => b.count - a.count)
+			.slice(0, topGestures),
+		gestures,
+		engagement,
+		since: events[0]?.timestamp ?? null,
+	};
+}
+
+/**
+ * Serializes events as a JSON document, or as CSV with one event per row and ISO 8601 timestamps.
+ * @param events The events to serialize.
+ * @param format The export format.
+ */
+export function serializeAnalytics(events: AnalyticsEvent[], format: AnalyticsExportFormat): string {
+	if (format === "json") {
+		const document: AnalyticsExport = { version: 1, exportedAt: new Date().toISOString(), events };
+		return JSON.stringify(document);
+	}
+
+	const rows = events.map((event) => {
+		const values: Record<string, unknown> = { ...event, timestamp: new Date(event.timestamp).toISOString() };
+		return CSV_COLUMNS.map((column) => toCsvValue(values[column])).join(",");
+	});
+	return `${[CSV_COLUMNS.join(","), ...rows].join("\n")}\n`;
+}
+
+/**
+ * Offers the events as a file download.
+ * @param events The events to download.
+ * @param format The export format.
+ */
+export function downloadAnalytics(events: AnalyticsEvent[], format: AnalyticsExportFormat): void {
+	downloadFile(
+		serializeAnalytics(events, format),
+		format === "json" ? "application/json" : "text/csv",
+		`avatar-analytics-${new Date().toISOString().replace(/[:.]/g, "-")}.${format}`,
+	);
+}
+
+/**
+ * Formats a CSV value, quoting it when it contains a separator, quote or line break.
+ */
+function toCsvValue(value: unknown): string {
+	if (value === undefined || value === null) return "";
+	const text = String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,202 @@
+import type {
+	AnimationClip,
+	AnimationPart,
+	AnimationParts,
+	SpriteClip,
+	VectorAnimation,
+	VectorTracks,
+} from "../types/animation";
+import { fetchJson, isObject, resolveUrl } from "./utils";
+
+const ANIMATION_PARTS: AnimationPart[] = ["body", "leftArm", "rightArm", "pupils"];
+const CLIP_TYPES: AnimationClip["type"][] = ["variant", "sprite", "vector"];
+const VECTOR_PROPERTIES = ["rotate", "scale", "scaleX", "scaleY", "x", "y", "opacity"];
+
+/**
+ * Base URL of the animation index and clip files, served from `public/animations` so they can be added per store
+ * without rebuilding.
+ */
+export const ANIMATION_BASE_URL = `${import.meta.env.BASE_URL}animations/`;
+
+/**
+ * Fetches the clips listed in the animation index, and the vector animation files of the vector clips. Sprite sheet
+ * and vector animation URLs are resolved against the base URL.
+ * @param baseUrl The base URL of the index.
+ * @throws If the index or a vector animation cannot be fetched or is invalid.
+ */
+export async function loadAnimationClips(baseUrl: string = ANIMATION_BASE_URL): Promise<AnimationClip[]> {
+	const clips = parseAnimationIndex(await fetchJson(`${baseUrl}index.json`));
+	return Promise.all(
+		clips.map(async (clip): Promise<AnimationClip> => {
+			if (clip.type === "variant") return clip;
+
+			const src = resolveUrl(clip.src, baseUrl);
+			if (clip.type === "sprite") return { ...clip, src };
+			const animation = parseVectorAnimation(await fetchJson(src), clip.name);
+			return { ...clip, src, parts: toAnimationParts(animation) };
+		}),
+	);
+}
+
+/**
+ * Validates the animation index: a list of variant, sprite and vector clips with unique names.
+ * @param value The parsed index.
+ * @throws If the index is invalid, listing every problem.
+ */
+export function parseAnimationIndex(value: unknown): AnimationClip[] {
+	if (!Array.isArray(value)) {
+		throw new Error("Invalid animation index: expected an array");
+	}
+
+	const errors: string[] = [];
+	const names = new Set<string>();
+	value.forEach((clip, i) => {
+		const path = `clips[${i}]`;
+		if (!isObject(clip)) {
+			errors.push(`${path} must be an object`);
+			return;
+		}
+		if (typeof clip.name !== "string" || !clip.name) {
+			errors.push(`${path}.name must be a non-empty string`);
+		} else if (names.has(clip.name)) {
+			errors.push(`${path}.name ${clip.name} is not unique`);
+		} else {
+			names.add(clip.name);
+		}
+
+		if (clip.type === "variant") {
+			validateVariantParts(clip.parts, `${path}.parts`, errors);
+		} else if (clip.type === "sprite") {
+			validateSprite(clip, path, errors);
+		} else if (clip.type === "vector") {
+			if (typeof clip.src !== "string" || !clip.src) {
+				errors.push(`${path}.src must be a non-empty string`);
+			}
+		} else {
+			errors.push(`${path}.type must be one of ${CLIP_TYPES.join(", ")}`);
+		}
+	});
+
+	if (errors.length > 0) {
+		throw new Error(`Invalid animation index: ${errors.join("; ")}`);
+	}
+	return value as AnimationClip[];
+}
+
+/**
+ * Validates a vector animation: keyframe tracks of known parts and properties, as many keyframes as `times`.
+ * @param value The parsed vector animation.
+ * @param name The clip name, for error messages.
+ * @throws If the animation is invalid, listing every problem.
+ */
+export function parseVectorAnimation(value: unknown, name = ""): VectorAnimation {
+	if (!isObject(value)) {
+		throw new Error(`Invalid vector animation ${name}: expected an object`);
+	}
+
+	const errors: string[] = [];
+	if (!isPositive(value.duration)) {
+		errors.push("duration must be a positive number");
+	}
+	if (value.loop !== undefined && typeof value.loop !== "boolean") {
+		errors.push("loop must be a boolean");
+	}
+
+	const { times } = value;
+	if (
+		times !== undefined &&
+		(!Array.isArray(times) ||
+			!times.every(
+				(time, i) => typeof time === "number" && time >= 0 && time <= 1 && (i === 0 || time >= times[i - 1]),
+			))
+	) {
+		errors.push("times must be ascending numbers from 0 to 1");
+	}
+
+	if (!isObject(value.parts)) {
+		errors.push("parts must be an object");
+	} else {
+		for (const [part, tracks] of Object.entries(value.parts)) {
+			if (!ANIMATION_PARTS.includes(part as AnimationPart)) {
+				errors.push(`parts.${part} is not one of ${ANIMATION_PARTS.join(", ")}`);
+				continue;
+			}
+			if (!isObject(tracks)) {
+				errors.push(`parts.${part} must be an object`);
+				continue;
+			}
+			for (const [property, track] of Object.entries(tracks)) {
+				const path = `parts.${part}.${property}`;
+				if (!VECTOR_PROPERTIES.includes(property)) {
+					errors.push(`${path} is not one of ${VECTOR_PROPERTIES.join(", ")}`);
+				} else if (Array.isArray(track)) {
+					if (!track.every((keyframe) => typeof keyframe === "number")) {
+						errors.push(`${path} must be numbers`);
+					} else if (Array.isArray(times) && track.length !== times.length) {
+						errors.push(`${path} must have a keyframe for each of the ${times.length} times`);
+					}
+				} else if (typeof track !== "number") {
+					errors.push(`${path} must be a number or keyframes`);
+				}
+			}
+		}
+	}
+
+	if (errors.length > 0) {
+		throw new Error(`Invalid vector animation ${name}: ${errors.join("; ")}`);
+	}
+	return value as unknown as VectorAnimation;
+}
+
+/**
+ * Turns the keyframe tracks of a vector animation into Framer Motion targets of the parts.
+ */
+export function toAnimationParts({ duration, times, loop, parts }: VectorAnimation): AnimationParts {
+	const transition = {
+		duration,
+		times,
+		ease: "easeInOut",
+		repeat: loop ? Number.POSITIVE_INFINITY : 0,
+	};
+	return Object.fromEntries(
+		Object.entries(parts).map(([part, tracks]: [string, VectorTracks]) => [part, { ...tracks, transition }]),
+	);
+}
+
+function validateVariantParts(parts: unknown, path: string, errors: string[]): void {
+	if (!isObject(parts)) {
+		errors.push(`${path} must be an object`);
+		return;
+	}
+	for (const [part, target] of Object.entries(parts)) {
+		if (!ANIMATION_PARTS.includes(part as AnimationPart)) {
+			errors.push(`${path}.${part} is not one of ${ANIMATION_PARTS.join(", ")}`);
+		} else if (!isObject(target)) {
+			errors.push(`${path}.${part} must be an object`);
+		}
+	}
+}
+
+function validateSprite(clip: Record<string, unknown>, path: string, errors: string[]): void {
+	if (typeof clip.src !== "string" || !clip.src) {
+		errors.push(`${path}.src must be a non-empty string`);
+	}
+	for (const key of ["frameWidth", "frameHeight", "frameCount"] satisfies (keyof SpriteClip)[]) {
+		if (!Number.isInteger(clip[key]) || (clip[key] as number) <= 0) {
+			errors.push(`${path}.${key} must be a positive integer`);
+		}
+	}
+	if (clip.columns !== undefined && (!Number.isInteger(clip.columns) || (clip.columns as number) <= 0)) {
+		errors.push(`${path}.columns must be a positive integer`);
+	}
+	if (!isPositive(clip.fps)) {
+		errors.push(`${path}.fps must be a positive number`);
+	}
+	if (clip.loop !== undefined && typeof clip.loop !== "boolean") {
+		errors.push(`${path}.loop must be a boolean`);
+	}
+}
+
+function isPositive(value: unknown): value is number {
+	return typeof value === "number" && value > 0;
+}
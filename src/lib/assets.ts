@@ -0,0 +1,219 @@
+import type { FaceDetectorOptions, GestureRecognizerOptions } from "@mediapipe/tasks-vision";
+import { type AssetCache, createAssetCache } from "./AssetCache";
+import {
+	CDN_ASSET_URLS,
+	DEFAULT_ASSET_INTEGRITY,
+	LOCAL_ASSET_PATHS,
+	defaultAssetSource,
+	defaultFaceDetectorOptions,
+	defaultOptions,
+} from "./constants";
+import type { AssetKey, AssetLoaderOptions, AssetSource, WasmFileset } from "./types";
+
+/**
+ * Resolves the URL of an asset for a URL based source.
+ * @param source The asset source.
+ * @param key The asset to resolve.
+ */
+function resolveAssetUrl(source: Exclude<AssetSource, { type: "buffer" }>, key: AssetKey): string {
+	if (source.type === "cdn") {
+		return CDN_ASSET_URLS[key];
+	}
+
+	const baseUrl = source.baseUrl ?? `${import.meta.env.BASE_URL}mediapipe`;
+	return `${baseUrl.replace(/\/+$/, "")}/${LOCAL_ASSET_PATHS[key]}`;
+}
+
+/**
+ * Encodes a buffer as base64.
+ */
+function toBase64(buffer: ArrayBuffer): string {
+	let binary = "";
+	for (const byte of new Uint8Array(buffer)) {
+		binary += String.fromCharCode(byte);
+	}
+	return btoa(binary);
+}
+
+/**
+ * Verifies a buffer against a subresource integrity string such as `sha256-<base64>`.
+ * @param buffer The asset contents.
+ * @param integrity The expected integrity string.
+ * @returns A Promise that resolves to whether the buffer matches, or true if it cannot be checked.
+ */
+export async function verifyIntegrity(buffer: ArrayBuffer, integrity: string): Promise<boolean> {
+	const [algorithm, expected] = integrity.split(/-(.*)/s);
+	const digestAlgorithm = { sha256: "SHA-256", sha384: "SHA-384", sha512: "SHA-512" }[algorithm];
+
+	if (!digestAlgorithm || !expected) {
+		throw new Error(`Unsupported integrity string "${integrity}"`);
+	}
+
+	// SubtleCrypto is only exposed in secure contexts.
+	if (!globalThis.crypto?.subtle) {
+		console.warn("SubtleCrypto unavailable, skipping asset integrity check");
+		return true;
+	}
+
+	const digest = await crypto.subtle.digest(digestAlgorithm, buffer);
+	return toBase64(digest) === expected;
+}
+
+/**
+ * Loads an asset, from the cache if present, otherwise from the network.
+ * Downloaded assets are verified before being cached, cached assets are verified again before use.
+ * @param key The asset to load.
+ * @param url The URL of the asset.
+ * @param integrity The expected integrity string, if any.
+ * @param cache The cache to read from and write to, if any.
+ */
+async function loadAsset(
+	key: AssetKey,
+	url: string,
+	integrity: string | undefined,
+	cache: AssetCache | null,
+): Promise<ArrayBuffer> {
+	try {
+		const cached = await cache?.get(url);
+		if (cached) {
+			if (!integrity || (await verifyIntegrity(cached, integrity))) {
+				return cached;
+			}
+			console.warn(`Cached ${key} failed the integrity check, downloading it again`);
+			await cache?.delete(url);
+		}
+	} catch (error) {
+		console.warn(`Failed to read ${key} from the asset cache:`, error);
+	}
+
+	const response = await fetch(url);
+	if (!response.ok) {
+		throw new Error(`Failed to fetch ${key} from ${url}: ${response.status} ${response.statusText}`);
+	}
+
+	const buffer = await response.arrayBuffer();
+	if (integrity && !(await verifyIntegrity(buffer, integrity))) {
+		throw new Error(`Integrity check failed for ${key} from ${url}`);
+	}
+
+	try {
+		await cache?.put(url, buffer);
+	} catch (error) {
+		console.warn(`Failed to write ${key} to the asset cache:`, error);
+	}
+
+	return buffer;
+}
+
+/**
+ * Resolves an asset from the configured source.
+ * @param key The asset to resolve.
+ * @param options The asset loader options.
+ */
+async function resolveAsset(key: AssetKey, options: AssetLoaderOptions): Promise<ArrayBuffer> {
+	const source = options.source ?? defaultAssetSource;
+	const integrity = { ...DEFAULT_ASSET_INTEGRITY, ...options.integrity }[key];
+
+	if (source.type === "buffer") {
+		const injected = source[key];
+		if (injected) {
+			const buffer = injected instanceof Uint8Array ? injected.slice().buffer : injected;
+			// Only user supplied hashes apply to injected assets, they may come from any build.
+			const expected = options.integrity?.[key];
+			if (expected && !(await verifyIntegrity(buffer, expected))) {
+				throw new Error(`Integrity check failed for injected ${key}`);
+			}
+			return buffer;
+		}
+		return resolveAsset(key, { ...options, source: source.wasmSource ?? defaultAssetSource });
+	}
+
+	return loadAsset(key, resolveAssetUrl(source, key), integrity, createAssetCache(options.cache));
+}
+
+/**
+ * Loads the gesture recognizer model, or the face detection model.
+ * @param options The asset loader options.
+ * @param key The model to load.
+ * @returns A Promise that resolves to the model contents.
+ */
+export async function loadModelAsset(
+	options: AssetLoaderOptions = {},
+	key: "model" | "faceModel" = "model",
+): Promise<Uint8Array> {
+	return new Uint8Array(await resolveAsset(key, options));
+}
+
+/**
+ * Loads the WASM runtime and exposes it through object URLs, so MediaPipe never reaches the network itself.
+ * @param options The asset loader options.
+ * @returns A Promise that resolves to the WasmFileset for vision tasks.
+ */
+export async function loadWasmFileset(options: AssetLoaderOptions = {}): Promise<WasmFileset> {
+	const [wasmLoader, wasmBinary] = await Promise.all([
+		resolveAsset("wasmLoader", options),
+		resolveAsset("wasmBinary", options),
+	]);
+
+	return {
+		wasmLoaderPath: URL.createObjectURL(new Blob([wasmLoader], { type: "text/javascript" })),
+		wasmBinaryPath: URL.createObjectURL(new Blob([wasmBinary], { type: "application/wasm" })),
+	};
+}
+
+/**
+ * Revokes the object URLs of a WasmFileset loaded by `loadWasmFileset`.
+ * @param vision The WasmFileset.
+ */
+export function revokeWasmFileset(vision: WasmFileset): void {
+	URL.revokeObjectURL(vision.wasmLoaderPath);
+	URL.revokeObjectURL(vision.wasmBinaryPath);
+}
+
+/**
+ * Merges the gesture recognizer options over the defaults, loading the model if none is specified.
+ * @param options The options for the gesture recognizer.
+ * @param assets The asset loader options.
+ * @returns A Promise that resolves to the complete gesture recognizer options.
+ */
+export async function loadRecognizerOptions(
+	options?: GestureRecognizerOptions,
+	assets?: AssetLoaderOptions,
+): Promise<GestureRecognizerOptions> {
+	const hasModel = !!(options?.baseOptions?.modelAssetBuffer || options?.baseOptions?.modelAssetPath);
+	const modelAssetBuffer = hasModel ? undefined : await loadModelAsset(assets);
+
+	return {
+		...defaultOptions,
+		...options,
+		baseOptions: {
+			...defaultOptions.baseOptions,
+			...(modelAssetBuffer && { modelAssetBuffer }),
+			...options?.baseOptions,
+		},
+	};
+}
+
+/**
+ * Merges the face detector options over the defaults, loading the model if none is specified.
+ * @param options The options for the face detector.
+ * @param assets The asset loader options.
+ * @returns A Promise that resolves to the complete face detector options.
+ */
+export async function loadFaceDetectorOptions(
+	options?: FaceDetectorOptions,
+	assets?: AssetLoaderOptions,
+): Promise<FaceDetectorOptions> {
+	const hasModel = !!(options?.baseOptions?.modelAssetBuffer || options?.baseOptions?.modelAssetPath);
+	const modelAssetBuffer = hasModel ? undefined : await loadModelAsset(assets, "faceModel");
+
+	return {
+		...defaultFaceDetectorOptions,
+		...options,
+		baseOptions: {
+			...defaultFaceDetectorOptions.baseOptions,
+			...(modelAssetBuffer && { modelAssetBuffer }),
+			...options?.baseOptions,
+		},
+	};
+}
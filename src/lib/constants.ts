@@ -1,26 +1,378 @@
-import { FilesetResolver, type GestureRecognizerOptions } from "@mediapipe/tasks-vision";
+import type { FaceDetectorOptions, GestureRecognizerOptions } from "@mediapipe/tasks-vision";
+import type { AnalyticsOptions } from "../types/analytics";
+import type { EmotionOptions, GazeOptions, GestureType, IdleSchedulerOptions } from "../types/avatar";
+import type {
+	GestureStabilizerOptions,
+	HandFeatures,
+	MotionGestureOptions,
+	PoseDefinition,
+	TwoHandGestureOptions,
+} from "../types/gesture";
+import type { NoticeOptions } from "../types/notice";
+import type { PresenceOptions } from "../types/presence";
+import type { ProximityOptions } from "../types/proximity";
+import type { SessionOptions } from "../types/session";
+import type { LipSyncOptions, SpeechOptions } from "../types/speech";
+import type { AssetKey, AssetSource, InferenceOptions } from "./types";
+
+/**
+ * Version of @mediapipe/tasks-vision the WASM runtime is pinned to.
+ * Must match the exact version in package.json, the JS bundle and the WASM binary are not interchangeable.
+ */
+const MEDIAPIPE_VERSION = "0.10.21";
+
+/**
+ * Pinned CDN locations for the gesture and face detection models and the WASM runtime.
+ * https://developers.google.com/mediapipe/solutions/vision/gesture_recognizer#models
+ * https://developers.google.com/mediapipe/solutions/vision/face_detector#models
+ */
+const CDN_ASSET_URLS: Record<AssetKey, string> = {
+	model:
+		"https://storage.googleapis.com/mediapipe-models/gesture_recognizer/gesture_recognizer/float16/1/gesture_recognizer.task",
+	faceModel:
+		"https://storage.googleapis.com/mediapipe-models/face_detector/blaze_face_short_range/float16/1/blaze_face_short_range.tflite",
+	wasmLoader: `https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@${MEDIAPIPE_VERSION}/wasm/vision_wasm_internal.js`,
+	wasmBinary: `https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@${MEDIAPIPE_VERSION}/wasm/vision_wasm_internal.wasm`,
+};
+
+/**
+ * Paths of the assets relative to a self-hosted base URL.
+ * `npm run assets` populates `public/mediapipe` with this layout.
+ */
+const LOCAL_ASSET_PATHS: Record<AssetKey, string> = {
+	model: "models/gesture_recognizer.task",
+	faceModel: "models/blaze_face_short_range.tflite",
+	wasmLoader: "wasm/vision_wasm_internal.js",
+	wasmBinary: "wasm/vision_wasm_internal.wasm",
+};
+
+/**
+ * Subresource integrity hashes of the pinned WASM runtime files.
+ * The models have no default hash, supply one through `AssetLoaderOptions.integrity` to verify them.
+ */
+const DEFAULT_ASSET_INTEGRITY: Partial<Record<AssetKey, string>> = {
+	wasmLoader: "sha256-SpfiUgulBsaA7Na6as+xRoiK+g4nRtV/IFNSvG67gus=",
+	wasmBinary: "sha256-8A7Ecx+qI7PnFNAOiNTRDi31wKQn06K0rm41Jv3RTvc=",
+};
+
+/**
+ * Default asset source. Set `VITE_MEDIAPIPE_ASSET_BASE_URL` to load from a self-hosted location,
+ * or to `public` to use the assets bundled into the app.
+ */
+const defaultAssetSource: AssetSource = import.meta.env.VITE_MEDIAPIPE_ASSET_BASE_URL
+	? import.meta.env.VITE_MEDIAPIPE_ASSET_BASE_URL === "public"
+		? { type: "local" }
+		: { type: "local", baseUrl: import.meta.env.VITE_MEDIAPIPE_ASSET_BASE_URL }
+	: { type: "cdn" };
 
 /**
  * Default options for the gesture recognizer.
+ * The model itself is resolved by the asset loader and passed as `modelAssetBuffer`.
  */
 const defaultOptions: GestureRecognizerOptions = {
 	runningMode: "VIDEO",
 	baseOptions: {
-		// Pretrained model for gesture recognition.
-		// https://developers.google.com/mediapipe/solutions/vision/gesture_recognizer#models
-		modelAssetPath:
-			"https://storage.googleapis.com/mediapipe-models/gesture_recognizer/gesture_recognizer/float16/1/gesture_recognizer.task",
 		delegate: "GPU",
 	},
-	numHands: 1,
+	numHands: 2,
+};
+
+/**
+ * Default inference scheduling. Webcams rarely exceed 30 fps, so running more often only repeats work.
+ */
+const defaultInferenceOptions: Required<InferenceOptions> = {
+	targetFps: 30,
+	useVideoFrameCallback: true,
+	adaptive: true,
+	latencyBudgetMs: 25,
+	minFps: 5,
+};
+
+/**
+ * Default options for the face detector used for presence detection.
+ * The model itself is resolved by the asset loader and passed as `modelAssetBuffer`.
+ */
+const defaultFaceDetectorOptions: FaceDetectorOptions = {
+	runningMode: "VIDEO",
+	baseOptions: {
+		delegate: "GPU",
+	},
+	minDetectionConfidence: 0.5,
+};
+
+/**
+ * Default presence detection scheduling. People come and go slowly compared to gestures, a few frames per second
+ * are enough and leave the time to the gesture recognizer.
+ */
+const defaultPresenceInferenceOptions: Required<InferenceOptions> = {
+	...defaultInferenceOptions,
+	targetFps: 5,
+	minFps: 1,
+};
+
+/**
+ * Default presence estimation: faces narrower than 4% of the frame are ignored (roughly 3 meters away with a typical
+ * 60° webcam), and a face counts as facing the screen until the nose is a third of the eye distance off center.
+ */
+const defaultPresenceOptions: PresenceOptions = {
+	minFaceSize: 0.04,
+	faceWidthMeters: 0.15,
+	fieldOfViewDegrees: 60,
+	maxFacingYaw: 0.35,
+};
+
+/**
+ * Default proximity zones: closer than 2.5 meters is approaching, closer than 1.2 meters is within reach for gestures,
+ * and the zones change 20 centimeters past their boundaries. The zone is kept while nobody is seen for one and a half
+ * seconds. An adult's palm is about 10 centimeters long.
+ */
+const defaultProximityOptions: ProximityOptions = {
+	approachDistance: 2.5,
+	interactDistance: 1.2,
+	hysteresis: 0.2,
+	leaveGraceMs: 1500,
+	palmLengthMeters: 0.1,
+	fieldOfViewDegrees: 60,
+};
+
+/**
+ * Default gesture stabilization. Rude gestures need a higher score, a wrongly triggered defensive reaction is costly.
+ */
+const defaultStabilizerOptions: GestureStabilizerOptions = {
+	minScore: 0.6,
+	windowSize: 5,
+	minVotes: 3,
+	holdMs: 100,
+	releaseMs: 400,
+	heldIntervalMs: 500,
+	perGesture: {
+		Closed_Fist: { minScore: 0.75 },
+		Thumb_Down: { minScore: 0.7 },
+		Middle_Finger: { minScore: 0.75 },
+	},
+};
+
+/**
+ * Default lip-sync estimate, about 15 characters a second at the normal speaking rate.
+ */
+const defaultLipSyncOptions: LipSyncOptions = {
+	msPerChar: 65,
+	wordGapMs: 60,
+	punctuationPauseMs: 250,
+	syllableMs: 180,
+};
+
+/**
+ * Default motion gesture detection, in normalized image units.
+ */
+const defaultMotionGestureOptions: MotionGestureOptions = {
+	historyMs: 1500,
+	mirroredInput: false,
+	reportMs: 800,
+	cooldownMs: 1000,
+	waveReversals: 2,
+	waveAmplitude: 0.05,
+	swipeDistance: 0.25,
+	swipeMaxMs: 400,
+	pushPullRatio: 1.4,
+	pushPullMaxMs: 600,
+	circleTurns: 0.9,
+	circleRadius: 0.05,
+};
+
+/**
+ * Default idle behavior escalation: blinking and looking around at first, then yawning and stretching,
+ * until the avatar falls asleep after a few minutes without anyone around.
+ */
+const defaultIdleSchedulerOptions: IdleSchedulerOptions = {
+	stages: [
+		{ afterMs: 0, weights: { blink: 3, lookAround: 2 } },
+		{ afterMs: 30000, weights: { blink: 2, lookAround: 2, yawn: 1 } },
+		{ afterMs: 60000, weights: { blink: 1, lookAround: 1, yawn: 2, stretch: 2 } },
+		{ afterMs: 120000, weights: { yawn: 2, stretch: 1, sleep: 2 } },
+		{ afterMs: 180000, weights: { sleep: 1 } },
+	],
+	minIntervalMs: 4000,
+	maxIntervalMs: 9000,
+};
+
+/**
+ * Default emotion dynamics: one rude gesture makes the avatar wary, a second one in quick succession defensive,
+ * and a few friendly gestures outweigh a single rude one.
+ */
+const defaultEmotionOptions: EmotionOptions = {
+	halfLifeMs: 20000,
+	positiveImpulse: 0.25,
+	negativeImpulse: 0.35,
+	arousalImpulse: 0.3,
+	neutralArousalImpulse: 0.1,
+	waryValence: -0.2,
+	defensiveValence: -0.6,
+	happyValence: 0.2,
+	excitedArousal: 0.5,
+	boredArousal: 0.1,
+};
+
+/**
+ * Default gaze tracking: the avatar follows the hand within a quarter of a second, and glances around every few
+ * seconds once it has been gone for a moment.
+ */
+const defaultGazeOptions: GazeOptions = {
+	mirroredInput: false,
+	smoothingMs: 200,
+	maxX: 1,
+	maxY: 0.7,
+	gain: 1.4,
+	lostAfterMs: 1500,
+	wanderMinMs: 2000,
+	wanderMaxMs: 5000,
+	wanderAmount: 0.5,
+};
+
+/**
+ * Default analytics retention: events are kept for 30 days, checked hourly, and at most 50,000 of them. Changes are
+ * notified at most once a second.
+ */
+const defaultAnalyticsOptions: AnalyticsOptions = {
+	retentionMs: 30 * 24 * 60 * 60 * 1000,
+	maxEvents: 50000,
+	pruneIntervalMs: 60 * 60 * 1000,
+	notifyIntervalMs: 1000,
+};
+
+/**
+ * Default visitor sessions: someone has to stay in view for half a second to start one, and may be out of view for
+ * 3 seconds, e.g. lowering their hands, before it ends. Five gestures, or gesturing for 30 seconds, is highly engaged.
+ */
+const defaultSessionOptions: SessionOptions = {
+	arriveMs: 500,
+	leaveGraceMs: 3000,
+	highlyEngagedGestures: 5,
+	highlyEngagedMs: 30000,
 };
 
 /**
- * Default WebAssembly fileset required for MediaPipe Task APIs.
- * https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@latest/wasm
+ * Default notice board: each notice is shown for 8 seconds, the feed is fetched again every 5 minutes, and the avatar
+ * calls out the current promotion once a minute while idle.
  */
-const defaultWasmFileset = await FilesetResolver.forVisionTasks(
-	"https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@latest/wasm",
-);
+const defaultNoticeOptions: NoticeOptions = {
+	rotateMs: 8000,
+	reloadMs: 300000,
+	calloutMs: 60000,
+};
 
-export { defaultOptions, defaultWasmFileset };
+/**
+ * Default speech output: a message is repeated to the same visitor at most once a minute, and at most two messages
+ * wait for the current one so the avatar does not lag behind the interaction.
+ */
+const defaultSpeechOptions: SpeechOptions = {
+	cooldownMs: 60000,
+	maxQueue: 2,
+	voice: { rate: 1, pitch: 1, volume: 1 },
+};
+
+/**
+ * Default two-hand gesture detection, distances relative to the hand size unless noted otherwise.
+ */
+const defaultTwoHandGestureOptions: TwoHandGestureOptions = {
+	reportMs: 800,
+	cooldownMs: 1000,
+	thumbsUpScore: 0.6,
+	heartDistance: 0.5,
+	clapOpenDistance: 1.5,
+	clapClosedDistance: 0.6,
+	clapMaxMs: 500,
+	peopleSizeRatio: 1.8,
+	peopleSpread: 0.6,
+	mirroredInput: false,
+};
+
+/**
+ * Scores thumb and index tips touching, fully below a fifth of the palm size, with the index finger not folded away.
+ */
+function pinchScore({ pinchDistance, extension }: HandFeatures): number {
+	return Math.min(1, Math.max(0, (0.4 - pinchDistance) / 0.2), extension.index * 2);
+}
+
+/**
+ * Built-in static poses the pretrained gesture model does not recognize.
+ */
+const defaultPoseDefinitions: PoseDefinition[] = [
+	{
+		name: "Middle_Finger",
+		fingers: { index: "curled", middle: "extended", ring: "curled", pinky: "curled" },
+	},
+	{
+		name: "Pinch",
+		fingers: { middle: "curled" },
+		score: pinchScore,
+	},
+	{
+		name: "OK",
+		fingers: { middle: "extended", ring: "extended", pinky: "extended" },
+		score: pinchScore,
+	},
+	{
+		name: "Call_Me",
+		fingers: { thumb: "extended", index: "curled", middle: "curled", ring: "curled", pinky: "extended" },
+	},
+	{
+		name: "Rock",
+		fingers: { thumb: "curled", index: "extended", middle: "curled", ring: "curled", pinky: "extended" },
+	},
+];
+
+/**
+ * The emoji shown for the stable gesture.
+ */
+const GESTURE_EMOJIS: Record<GestureType, string> = {
+	None: "🤷",
+	Thumb_Up: "👍",
+	Thumb_Down: "👎",
+	Closed_Fist: "✊",
+	Open_Palm: "🖐️",
+	Pointing_Up: "😍",
+	Victory: "✌️",
+	OK: "👌",
+	ILoveYou: "🤟",
+	Wave: "👋",
+	Swipe_Left: "👈",
+	Swipe_Right: "👉",
+	Push: "🫸",
+	Pull: "🫷",
+	Circle: "🔄",
+	Middle_Finger: "🖕",
+	Pinch: "🤏",
+	Call_Me: "🤙",
+	Rock: "🤘",
+	Double_Thumbs_Up: "👍👍",
+	Heart: "🫶",
+	Clap: "👏",
+};
+
+export {
+	CDN_ASSET_URLS,
+	DEFAULT_ASSET_INTEGRITY,
+	GESTURE_EMOJIS,
+	LOCAL_ASSET_PATHS,
+	MEDIAPIPE_VERSION,
+	defaultAnalyticsOptions,
+	defaultAssetSource,
+	defaultEmotionOptions,
+	defaultFaceDetectorOptions,
+	defaultGazeOptions,
+	defaultIdleSchedulerOptions,
+	defaultInferenceOptions,
+	defaultLipSyncOptions,
+	defaultMotionGestureOptions,
+	defaultNoticeOptions,
+	defaultOptions,
+	defaultPoseDefinitions,
+	defaultPresenceInferenceOptions,
+	defaultPresenceOptions,
+	defaultProximityOptions,
+	defaultSessionOptions,
+	defaultSpeechOptions,
+	defaultStabilizerOptions,
+	defaultTwoHandGestureOptions,
+};
@@ -0,0 +1,101 @@
+import type { DatasetFormat, DatasetLine, GestureDataset, RecordedFrame, Recording } from "../types/recording";
+import { downloadFile } from "./utils";
+
+/**
+ * Serializes recordings as a JSON document, or as NDJSON with one frame per line.
+ * @param recordings The recordings to serialize.
+ * @param format The dataset format.
+ */
+export function serializeDataset(recordings: Recording[], format: DatasetFormat): string {
+	if (format === "json") {
+		const dataset: GestureDataset = { version: 1, recordings };
+		return JSON.stringify(dataset);
+	}
+
+	const lines: DatasetLine[] = recordings.flatMap(({ id, label, startedAt, frames }) =>
+		frames.map((frame) => ({ recordingId: id, label, startedAt, ...frame })),
+	);
+	return `${lines.map((line) => JSON.stringify(line)).join("\n")}\n`;
+}
+
+/**
+ * Parses a JSON or NDJSON dataset, detecting the format from its contents.
+ * @param text The dataset contents.
+ * @returns The recordings in the dataset.
+ * @throws If the contents are not a valid dataset.
+ */
+export function parseDataset(text: string): Recording[] {
+	const trimmed = text.trim();
+	if (!trimmed) return [];
+
+	const parsed = parseJsonDocument(trimmed);
+	if (Array.isArray(parsed?.recordings)) {
+		if (parsed.version !== 1) {
+			throw new Error(`Unsupported dataset version ${parsed.version}`);
+		}
+		return (parsed.recordings as unknown[]).map((recording, index) => validateRecording(recording, index));
+	}
+
+	const lines = trimmed.split(/\r?\n/).filter((line) => line.trim());
+	const recordings = new Map<string, Recording>();
+	lines.forEach((line, index) => {
+		const { recordingId, label, startedAt, ...frame } = JSON.parse(line) as DatasetLine;
+		if (typeof recordingId !== "string" || typeof label !== "string") {
+			throw new Error(`Invalid dataset line ${index + 1}: missing recordingId or label`);
+		}
+		let recording = recordings.get(recordingId);
+		if (!recording) {
+			recording = { id: recordingId, label, startedAt, frames: [] };
+			recordings.set(recordingId, recording);
+		}
+		recording.frames.push(validateFrame(frame, `line ${index + 1}`));
+	});
+	return [...recordings.values()];
+}
+
+/**
+ * Offers the recordings as a file download.
+ * @param recordings The recordings to download.
+ * @param format The dataset format.
+ */
+export function downloadDataset(recordings: Recording[], format: DatasetFormat): void {
+	downloadFile(
+		serializeDataset(recordings, format),
+		format === "json" ? "application/json" : "application/x-ndjson",
+		`gesture-dataset-${new Date().toISOString().replace(/[:.]/g, "-")}.${format}`,
+	);
+}
+
+/**
+ * Parses the text as a single JSON document, undefined if it is not one (e.g. NDJSON).
+ */
+function parseJsonDocument(text: string): Partial<GestureDataset> | undefined {
+	try {
+		return JSON.parse(text);
+	} catch {
+		return undefined;
+	}
+}
+
+function validateRecording(value: unknown, index: number): Recording {
+	const recording = value as Recording;
+	if (typeof recording?.id !== "string" || typeof recording.label !== "string" || !Array.isArray(recording.frames)) {
+		throw new Error(`Invalid recording ${index}: missing id, label or frames`);
+	}
+	recording.frames.forEach((frame, frameIndex) => validateFrame(frame, `recording ${index} frame ${frameIndex}`));
+	return recording;
+}
+
+function validateFrame(value: unknown, location: string): RecordedFrame {
+	const frame = value as RecordedFrame;
+	if (
+		typeof frame?.timestamp !== "number" ||
+		!Array.isArray(frame.landmarks) ||
+		!Array.isArray(frame.worldLandmarks) ||
+		!Array.isArray(frame.handedness) ||
+		!Array.isArray(frame.gestures)
+	) {
+		throw new Error(`Invalid frame in ${location}`);
+	}
+	return frame;
+}
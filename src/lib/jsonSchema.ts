@@ -0,0 +1,171 @@
+import { isObject } from "./utils";
+
+/**
+ * The subset of JSON Schema (draft-07) the runtime-loaded files are described with.
+ */
+export interface JsonSchema {
+	$ref?: string;
+	type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+	enum?: unknown[];
+	required?: string[];
+	properties?: Record<string, JsonSchema>;
+	additionalProperties?: boolean | JsonSchema;
+	propertyNames?: JsonSchema;
+	items?: JsonSchema;
+	minItems?: number;
+	minLength?: number;
+	minimum?: number;
+	maximum?: number;
+	exclusiveMinimum?: number;
+	anyOf?: JsonSchema[];
+	definitions?: Record<string, JsonSchema>;
+}
+
+const TYPE_NAMES: Record<NonNullable<JsonSchema["type"]>, string> = {
+	object: "an object",
+	array: "an array",
+	string: "a string",
+	number: "a number",
+	integer: "an integer",
+	boolean: "a boolean",
+};
+
+/**
+ * Validates a value against a JSON schema, collecting every problem rather than stopping at the first.
+ * `$ref`s are resolved against the definitions of the root schema.
+ * @param value The parsed JSON value.
+ * @param schema The schema to validate against.
+ * @param errors The list the problems are added to, each prefixed with the path of the offending value.
+ * @param path The path of the value, empty for the root.
+ * @param root The root schema holding the definitions, the schema itself by default.
+ */
+export function validateJsonSchema(
+	value: unknown,
+	schema: JsonSchema,
+	errors: string[],
+	path = "",
+	root: JsonSchema = schema,
+): void {
+	const resolved = resolveRef(schema, root);
+	const name = path || "value";
+
+	if (resolved.type && !hasType(value, resolved.type)) {
+		errors.push(`${name} must be ${TYPE_NAMES[resolved.type]}`);
+		return;
+	}
+	if (resolved.enum && !resolved.enum.includes(value)) {
+		errors.push(`${name} must be one of ${resolved.enum.join(", ")}`);
+		return;
+	}
+
+	if (typeof value === "string" && resolved.minLength !== undefined && value.length < resolved.minLength) {
+		errors.push(resolved.minLength === 1 ? `${name} must not be empty` : `${name} is too short`);
+	}
+	if (typeof value === "number") {
+		if (resolved.minimum !== undefined && value < resolved.minimum) {
+			errors.push(`${name} must be at least ${resolved.minimum}`);
+		}
+		if (resolved.exclusiveMinimum !== undefined && value <= resolved.exclusiveMinimum) {
+			errors.push(`${name} must be greater than ${resolved.exclusiveMinimum}`);
+		}
+		if (resolved.maximum !== undefined && value > resolved.maximum) {
+			errors.push(`${name} must not exceed ${resolved.maximum}`);
+		}
+	}
+
+	if (Array.isArray(value)) {
+		if (resolved.minItems !== undefined && value.length < resolved.minItems) {
+			errors.push(`${name} must have at least ${resolved.minItems} item${resolved.minItems === 1 ? "" : "s"}`);
+		}
+		if (resolved.items) {
+			const { items } = resolved;
+			value.forEach((item, i) => validateJsonSchema(item, items, errors, join(path, String(i)), root));
+		}
+	}
+
+	if (isObject(value)) {
+		validateObject(value, resolved, errors, path, root);
+	}
+
+	if (resolved.anyOf) {
+		const alternatives = resolved.anyOf.map((alternative) => {
+			const alternativeErrors: string[] = [];
+			validateJsonSchema(value, alternative, alternativeErrors, path, root);
+			return alternativeErrors;
+		});
+		if (alternatives.every((alternativeErrors) => alternativeErrors.length > 0)) {
+			errors.push(alternatives.map((alternativeErrors) => alternativeErrors.join(" and ")).join(", or "));
+		}
+	}
+}
+
+/**
+ * Follows a `$ref` to the definition it points to, the schema itself if it has none.
+ * @param schema The schema, possibly a `$ref`.
+ * @param root The root schema holding the definitions.
+ */
+function resolveRef(schema: JsonSchema, root: JsonSchema): JsonSchema {
+	if (!schema.$ref) return schema;
+
+	const match = /^#\/definitions\/(.+)$/.exec(schema.$ref);
+	const definition = match && root.definitions?.[match[1]];
+	if (!definition) {
+		throw new Error(`Unresolved schema reference ${schema.$ref}`);
+	}
+	return resolveRef(definition, root);
+}
+
+function validateObject(
+	value: Record<string, unknown>,
+	schema: JsonSchema,
+	errors: string[],
+	path: string,
+	root: JsonSchema,
+): void {
+	for (const key of schema.required ?? []) {
+		if (value[key] === undefined) {
+			errors.push(`${join(path, key)} is required`);
+		}
+	}
+
+	for (const [key, entry] of Object.entries(value)) {
+		const entryPath = join(path, key);
+		if (schema.propertyNames) {
+			const names = resolveRef(schema.propertyNames, root);
+			if (names.enum && !names.enum.includes(key)) {
+				errors.push(`${entryPath} is not one of ${names.enum.join(", ")}`);
+				continue;
+			}
+		}
+
+		const property = schema.properties?.[key];
+		if (property) {
+			validateJsonSchema(entry, property, errors, entryPath, root);
+		} else if (schema.additionalProperties === false) {
+			errors.push(`${entryPath} is not one of ${Object.keys(schema.properties ?? {}).join(", ")}`);
+		} else if (typeof schema.additionalProperties === "object") {
+			validateJsonSchema(entry, schema.additionalProperties, errors, entryPath, root);
+		}
+	}
+}
+
+function hasType(value: unknown, type: NonNullable<JsonSchema["type"]>): boolean {
+	switch (type) {
+		case "object":
+			return isObject(value);
+		case "array":
+			return Array.isArray(value);
+		case "number":
+			return typeof value === "number" && Number.isFinite(value);
+		case "integer":
+			return Number.isInteger(value);
+		case "string":
+			return typeof value === "string";
+		case "boolean":
+			return typeof value === "boolean";
+	}
+}
+
+function join(path: string, key: string): string {
+	return path ? `${path}.${key}` : key;
+}
@@ -0,0 +1,43 @@
+import type { NormalizedLandmark } from "@mediapipe/tasks-vision";
+
+/**
+ * A point in normalized image coordinates.
+ */
+export interface Point2D {
+	x: number;
+	y: number;
+}
+
+/**
+ * Landmarks averaged for the palm center: wrist and the base of every finger.
+ */
+export const PALM_LANDMARKS = [0, 5, 9, 13, 17];
+
+/**
+ * Gets the palm center of a hand, in normalized image coordinates.
+ * @param landmarks The 21 landmarks of the hand.
+ */
+export function getPalmCenter(landmarks: NormalizedLandmark[]): Point2D {
+	const palm = PALM_LANDMARKS.map((index) => landmarks[index]);
+	return {
+		x: palm.reduce((sum, landmark) => sum + landmark.x, 0) / palm.length,
+		y: palm.reduce((sum, landmark) => sum + landmark.y, 0) / palm.length,
+	};
+}
+
+/**
+ * Gets the size of a hand: wrist to the base of the middle finger, in the image plane.
+ * @param landmarks The 21 landmarks of the hand.
+ * @param aspectRatio The frame height divided by its width, to measure the size in frame widths. By default the
+ * size mixes the normalization of both axes, which is enough to compare hands in the same frame.
+ */
+export function getHandSize(landmarks: NormalizedLandmark[], aspectRatio = 1): number {
+	return Math.hypot(landmarks[9].x - landmarks[0].x, (landmarks[9].y - landmarks[0].y) * aspectRatio);
+}
+
+/**
+ * Gets the distance between two points in the image plane.
+ */
+export function getDistance(a: Point2D, b: Point2D): number {
+	return Math.hypot(a.x - b.x, a.y - b.y);
+}
@@ -0,0 +1,91 @@
+import en from "../locales/en.json";
+import type { LocaleIndexEntry, LocaleMessages, TextDirection } from "../types/i18n";
+import { fetchJson, isObject } from "./utils";
+
+const PLURAL_CATEGORIES: Intl.LDMLPluralRule[] = ["zero", "one", "two", "few", "many", "other"];
+const TEXT_DIRECTIONS: TextDirection[] = ["ltr", "rtl"];
+
+/**
+ * The built-in locale, bundled with the app. Its messages are the fallback of every other locale.
+ */
+export const DEFAULT_LOCALE: LocaleIndexEntry = { code: "en", name: "English", dir: "ltr", file: "" };
+export const DEFAULT_MESSAGES: LocaleMessages = en;
+
+/**
+ * Base URL of the locale index and messages, served from `public/locales` so they can be edited per store
+ * without rebuilding.
+ */
+export const LOCALE_BASE_URL = `${import.meta.env.BASE_URL}locales/`;
+
+/**
+ * Fetches the index of the available locales.
+ * @param baseUrl The base URL of the index.
+ * @throws If the index cannot be fetched or is invalid.
+ */
+export async function loadLocaleIndex(baseUrl: string = LOCALE_BASE_URL): Promise<LocaleIndexEntry[]> {
+	const index = await fetchJson(`${baseUrl}index.json`);
+	if (!Array.isArray(index)) {
+		throw new Error("Invalid locale index: expected an array");
+	}
+	return index.map((entry, i) => {
+		if (
+			!isObject(entry) ||
+			typeof entry.code !== "string" ||
+			typeof entry.name !== "string" ||
+			typeof entry.file !== "string"
+		) {
+			throw new Error(`Invalid locale index entry ${i}: missing code, name or file`);
+		}
+		if (entry.dir !== undefined && !TEXT_DIRECTIONS.includes(entry.dir as TextDirection)) {
+			throw new Error(`Invalid locale index entry ${i}: dir must be one of ${TEXT_DIRECTIONS.join(", ")}`);
+		}
+		return { code: entry.code, name: entry.name, dir: entry.dir as TextDirection | undefined, file: entry.file };
+	});
+}
+
+/**
+ * Fetches and validates the messages of a locale, bypassing the HTTP cache so edited files apply without
+ * rebuilding.
+ * @param entry The locale index entry.
+ * @param baseUrl The base URL of the index.
+ * @throws If the messages cannot be fetched or are invalid.
+ */
+export async function loadLocaleMessages(
+	entry: LocaleIndexEntry,
+	baseUrl: string = LOCALE_BASE_URL,
+): Promise<LocaleMessages> {
+	return parseLocaleMessages(await fetchJson(`${baseUrl}${entry.file}`), entry.code);
+}
+
+/**
+ * Validates locale messages: every message is a string, or plural forms with at least the `other` form.
+ * @param value The parsed messages.
+ * @param code The locale code, for error messages.
+ * @throws If the messages are invalid, listing every problem.
+ */
+export function parseLocaleMessages(value: unknown, code = ""): LocaleMessages {
+	if (!isObject(value)) {
+		throw new Error(`Invalid locale ${code}: expected an object`);
+	}
+
+	const errors: string[] = [];
+	for (const [key, message] of Object.entries(value)) {
+		if (typeof message === "string") continue;
+		if (!isObject(message) || typeof message.other !== "string") {
+			errors.push(`${key} must be a string or plural forms with an "other" form`);
+			continue;
+		}
+		for (const [category, form] of Object.entries(message)) {
+			if (!PLURAL_CATEGORIES.includes(category as Intl.LDMLPluralRule)) {
+				errors.push(`${key}.${category} is not one of ${PLURAL_CATEGORIES.join(", ")}`);
+			} else if (typeof form !== "string") {
+				errors.push(`${key}.${category} must be a string`);
+			}
+		}
+	}
+
+	if (errors.length > 0) {
+		throw new Error(`Invalid locale ${code}: ${errors.join("; ")}`);
+	}
+	return value as LocaleMessages;
+}
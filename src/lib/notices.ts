@@ -0,0 +1,99 @@
+import type { Notice, NoticeKind } from "../types/notice";
+import { fetchJson, isObject, resolveUrl } from "./utils";
+
+const NOTICE_KINDS: NoticeKind[] = ["announcement", "promotion"];
+
+/**
+ * Base URL of the notice feed and its images, served from `public/notices` so the notices can be edited per store
+ * without rebuilding.
+ */
+export const NOTICE_BASE_URL = `${import.meta.env.BASE_URL}notices/`;
+
+/**
+ * Fetches the notice feed. Image URLs are resolved against the base URL.
+ * @param baseUrl The base URL of the feed.
+ * @throws If the feed cannot be fetched or is invalid.
+ */
+export async function loadNotices(baseUrl: string = NOTICE_BASE_URL): Promise<Notice[]> {
+	const notices = parseNoticeFeed(await fetchJson(`${baseUrl}feed.json`));
+	return notices.map((notice) => (notice.image ? { ...notice, image: resolveUrl(notice.image, baseUrl) } : notice));
+}
+
+/**
+ * Validates the notice feed: a list of announcements and promotions with unique ids, and valid dates.
+ * @param value The parsed feed.
+ * @throws If the feed is invalid, listing every problem.
+ */
+export function parseNoticeFeed(value: unknown): Notice[] {
+	if (!Array.isArray(value)) {
+		throw new Error("Invalid notice feed: expected an array");
+	}
+
+	const errors: string[] = [];
+	const ids = new Set<string>();
+	value.forEach((notice, i) => {
+		const path = `notices[${i}]`;
+		if (!isObject(notice)) {
+			errors.push(`${path} must be an object`);
+			return;
+		}
+		if (typeof notice.id !== "string" || !notice.id) {
+			errors.push(`${path}.id must be a non-empty string`);
+		} else if (ids.has(notice.id)) {
+			errors.push(`${path}.id ${notice.id} is not unique`);
+		} else {
+			ids.add(notice.id);
+		}
+
+		if (!NOTICE_KINDS.includes(notice.kind as NoticeKind)) {
+			errors.push(`${path}.kind must be one of ${NOTICE_KINDS.join(", ")}`);
+		}
+		if (typeof notice.title !== "string" || !notice.title) {
+			errors.push(`${path}.title must be a non-empty string`);
+		}
+		for (const key of ["body", "image", "callout"] satisfies (keyof Notice)[]) {
+			if (notice[key] !== undefined && typeof notice[key] !== "string") {
+				errors.push(`${path}.${key} must be a string`);
+			}
+		}
+		for (const key of ["startsAt", "endsAt"] satisfies (keyof Notice)[]) {
+			if (notice[key] !== undefined && Number.isNaN(parseTime(notice[key]))) {
+				errors.push(`${path}.${key} must be an ISO 8601 date`);
+			}
+		}
+		if (parseTime(notice.endsAt) <= parseTime(notice.startsAt)) {
+			errors.push(`${path}.endsAt must be after startsAt`);
+		}
+		if (notice.priority !== undefined && typeof notice.priority !== "number") {
+			errors.push(`${path}.priority must be a number`);
+		}
+	});
+
+	if (errors.length > 0) {
+		throw new Error(`Invalid notice feed: ${errors.join("; ")}`);
+	}
+	return value as Notice[];
+}
+
+/**
+ * Get the notices to show at the given time, the highest priority first. Notices of the same priority keep their
+ * order in the feed.
+ * @param notices The notices of the feed.
+ * @param now The time in milliseconds since the epoch.
+ */
+export function getActiveNotices(notices: Notice[], now: number = Date.now()): Notice[] {
+	return notices
+		.filter(
+			(notice) =>
+				(notice.startsAt === undefined || parseTime(notice.startsAt) <= now) &&
+				(notice.endsAt === undefined || now < parseTime(notice.endsAt)),
+		)
+		.sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+}
+
+/**
+ * Parses an ISO 8601 date and time into milliseconds since the epoch, NaN if it is not a valid date.
+ */
+function parseTime(value: unknown): number {
+	return typeof value === "string" ? Date.parse(value) : Number.NaN;
+}
@@ -0,0 +1,36 @@
+import type { NormalizedLandmark } from "@mediapipe/tasks-vision";
+import type { ProximityOptions } from "../types/proximity";
+import { getHandSize } from "./landmarks";
+
+/**
+ * Estimates how far an object of known width is from the camera, from the share of the frame width it takes up.
+ * @param relativeWidth The width of the object relative to the frame width.
+ * @param widthMeters The actual width of the object, in meters.
+ * @param fieldOfViewDegrees The camera's horizontal field of view, in degrees.
+ * @returns The distance in meters, infinite for an object without width.
+ */
+export function estimateDistance(relativeWidth: number, widthMeters: number, fieldOfViewDegrees: number): number {
+	if (relativeWidth <= 0) return Number.POSITIVE_INFINITY;
+	const frameWidthAtOneMeter = 2 * Math.tan(((fieldOfViewDegrees / 2) * Math.PI) / 180);
+	return widthMeters / (frameWidthAtOneMeter * relativeWidth);
+}
+
+/**
+ * Estimates how far the nearest hand is from the camera, from the length of its palm.
+ * @param landmarks The landmarks of every hand, in normalized image coordinates.
+ * @param options The palm length and field of view.
+ * @param aspectRatio The frame height divided by its width. Landmarks are normalized by each, the palm length is
+ * measured in frame widths.
+ * @returns The distance in meters, null without hands.
+ */
+export function getHandDistance(
+	landmarks: NormalizedLandmark[][] | undefined,
+	{ palmLengthMeters, fieldOfViewDegrees }: Pick<ProximityOptions, "palmLengthMeters" | "fieldOfViewDegrees">,
+	aspectRatio: number,
+): number | null {
+	const distances = (landmarks ?? [])
+		.filter((hand) => hand.length >= 21)
+		.map((hand) => getHandSize(hand, aspectRatio))
+		.map((palmLength) => estimateDistance(palmLength, palmLengthMeters, fieldOfViewDegrees));
+	return distances.length > 0 ? Math.min(...distances) : null;
+}
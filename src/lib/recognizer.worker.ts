@@ -0,0 +1,71 @@
+import { GestureRecognizer } from "@mediapipe/tasks-vision";
+import { loadRecognizerOptions, loadWasmFileset } from "./assets";
+import type { RecognizerWorkerRequest, RecognizerWorkerResponse } from "./types";
+
+/**
+ * The dedicated worker scope. The project is type-checked against the DOM lib only.
+ */
+const scope = self as unknown as {
+	onmessage: ((event: MessageEvent<RecognizerWorkerRequest>) => void) | null;
+	postMessage(message: RecognizerWorkerResponse): void;
+	ModuleFactory?: unknown;
+};
+
+let recognizer: GestureRecognizer | null = null;
+
+/**
+ * Runs the WASM loader script and exposes the module factory it declares, where MediaPipe looks for it.
+ * MediaPipe would load the script with importScripts, which throws in module workers.
+ * @param wasmLoaderPath The URL of the WASM loader script.
+ */
+async function loadModuleFactory(wasmLoaderPath: string): Promise<void> {
+	const response = await fetch(wasmLoaderPath);
+	if (!response.ok) {
+		throw new Error(`Failed to fetch ${wasmLoaderPath}: ${response.status}`);
+	}
+	// The loader is a classic script declaring a global ModuleFactory.
+	scope.ModuleFactory = new Function(`${await response.text()}\nreturn ModuleFactory;`)();
+}
+
+/**
+ * Loads the assets and creates the gesture recognizer, rendering on an OffscreenCanvas for the GPU delegate.
+ */
+async function init(request: Extract<RecognizerWorkerRequest, { type: "init" }>): Promise<void> {
+	const [wasmFileset, options] = await Promise.all([
+		loadWasmFileset(request.assets),
+		loadRecognizerOptions(request.options, request.assets),
+	]);
+	await loadModuleFactory(wasmFileset.wasmLoaderPath);
+	// Without a loader path MediaPipe uses the module factory already loaded.
+	recognizer = await GestureRecognizer.createFromOptions(
+		{ ...wasmFileset, wasmLoaderPath: "" },
+		{
+			...options,
+			canvas: new OffscreenCanvas(1, 1),
+		},
+	);
+}
+
+scope.onmessage = async ({ data }) => {
+	try {
+		switch (data.type) {
+			case "init":
+				await init(data);
+				scope.postMessage({ type: "ready" });
+				break;
+			case "frame":
+				try {
+					if (!recognizer) {
+						throw new Error("Recognizer worker received a frame before init");
+					}
+					const results = recognizer.recognizeForVideo(data.frame, data.timestamp);
+					scope.postMessage({ type: "results", results, timestamp: data.timestamp });
+				} finally {
+					data.frame.close();
+				}
+				break;
+		}
+	} catch (error) {
+		scope.postMessage({ type: "error", message: error instanceof Error ? error.message : String(error) });
+	}
+};
@@ -1,6 +1,144 @@
+import type { GestureRecognizerOptions, GestureRecognizerResult } from "@mediapipe/tasks-vision";
+
 export declare interface WasmFileset {
 	wasmLoaderPath: string;
 	wasmBinaryPath: string;
 	assetLoaderPath?: string;
 	assetBinaryPath?: string;
 }
+
+/**
+ * Assets required to run the gesture recognizer, and the face detection model of the presence detector.
+ */
+export declare type AssetKey = "model" | "faceModel" | "wasmLoader" | "wasmBinary";
+
+/**
+ * Where the gesture model and the WASM runtime are loaded from.
+ * - `cdn`: pinned public CDN URLs.
+ * - `local`: a self-hosted base URL, defaulting to the assets bundled in `public/mediapipe`.
+ * - `buffer`: assets injected by the host application. Missing files fall back to `wasmSource`.
+ */
+export declare type AssetSource =
+	| { type: "cdn" }
+	| { type: "local"; baseUrl?: string }
+	| {
+			type: "buffer";
+			model: ArrayBuffer | Uint8Array;
+			faceModel?: ArrayBuffer | Uint8Array;
+			wasmLoader?: ArrayBuffer | Uint8Array;
+			wasmBinary?: ArrayBuffer | Uint8Array;
+			wasmSource?: Exclude<AssetSource, { type: "buffer" }>;
+	  };
+
+/**
+ * Persistent storage used for downloaded assets.
+ * `auto` prefers Cache Storage and falls back to IndexedDB where it is unavailable (e.g. insecure contexts).
+ */
+export declare type AssetCacheKind = "auto" | "cache-storage" | "indexeddb" | "none";
+
+export declare interface AssetLoaderOptions {
+	source?: AssetSource;
+	/**
+	 * Subresource integrity strings (e.g. `sha256-<base64>`) per asset, merged over the pinned defaults.
+	 */
+	integrity?: Partial<Record<AssetKey, string>>;
+	cache?: AssetCacheKind;
+}
+
+/**
+ * Controls how often the recognizer runs inference on the video stream.
+ */
+export declare interface InferenceOptions {
+	/**
+	 * Maximum number of inferences per second.
+	 */
+	targetFps?: number;
+	/**
+	 * Schedule inference with `requestVideoFrameCallback` where supported, so it only runs on new video frames.
+	 */
+	useVideoFrameCallback?: boolean;
+	/**
+	 * Lower the inference rate while the average per-frame latency exceeds `latencyBudgetMs`.
+	 */
+	adaptive?: boolean;
+	latencyBudgetMs?: number;
+	/**
+	 * Lowest inference rate adaptive throttling may fall to.
+	 */
+	minFps?: number;
+}
+
+/**
+ * Snapshot of the recognizer's inference performance.
+ */
+export declare interface InferenceStats {
+	/**
+	 * Current inference rate limit, below `targetFps` while adaptive throttling is active.
+	 */
+	fps: number;
+	/**
+	 * Exponential moving average of the per-frame inference latency in milliseconds.
+	 */
+	averageLatencyMs: number;
+	/**
+	 * Number of scheduled frames skipped because the video had not advanced or the rate limit was reached.
+	 */
+	skippedFrames: number;
+}
+
+/**
+ * Options shared by the main thread and worker-backed recognizers.
+ */
+export declare interface RecognizerCreateOptions {
+	/**
+	 * The HTML video element to be used for recognition.
+	 */
+	videoElement: HTMLVideoElement;
+	/**
+	 * The options for the gesture recognizer, merged over the default options.
+	 * If no model is specified, it will be loaded through the asset loader.
+	 */
+	options?: GestureRecognizerOptions;
+	/**
+	 * Where and how to load the model and WASM runtime. Defaults to the pinned CDN with a persistent cache.
+	 */
+	assets?: AssetLoaderOptions;
+	/**
+	 * Whether to start recognizing once the video is ready. Defaults to true.
+	 */
+	autoStart?: boolean;
+	/**
+	 * How often to run inference, merged over the default inference options.
+	 */
+	inference?: InferenceOptions;
+}
+
+/**
+ * Common interface of the main thread and worker-backed recognizers.
+ */
+export declare interface RecognizerInstance {
+	start(): Promise<void>;
+	pause(): void;
+	resume(): Promise<void>;
+	isRunning(): boolean;
+	setVideoElement(videoElement: HTMLVideoElement): void;
+	dispose(): void;
+	onResults(callback: (results: GestureRecognizerResult | null, timestamp: number) => void): void;
+	getResults(): GestureRecognizerResult | null;
+	getInferenceStats(): InferenceStats;
+}
+
+/**
+ * Messages sent from the main thread to the recognizer worker.
+ */
+export declare type RecognizerWorkerRequest =
+	| { type: "init"; options?: GestureRecognizerOptions; assets?: AssetLoaderOptions }
+	| { type: "frame"; frame: ImageBitmap | VideoFrame; timestamp: number };
+
+/**
+ * Messages sent from the recognizer worker to the main thread.
+ */
+export declare type RecognizerWorkerResponse =
+	| { type: "ready" }
+	| { type: "results"; results: GestureRecognizerResult; timestamp: number }
+	| { type: "error"; message: string };
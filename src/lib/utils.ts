@@ -1,6 +1,48 @@
-import { type ClassValue, clsx } from "clsx"
-import { twMerge } from "tailwind-merge"
+import { type ClassValue, clsx } from "clsx";
+import { twMerge } from "tailwind-merge";
 
 export function cn(...inputs: ClassValue[]) {
-  return twMerge(clsx(inputs))
+	return twMerge(clsx(inputs));
+}
+
+/**
+ * Fetches and parses a JSON file, bypassing the HTTP cache so edited files apply without rebuilding.
+ * @throws If the response is not OK.
+ */
+export async function fetchJson(url: string): Promise<unknown> {
+	const response = await fetch(url, { cache: "no-cache" });
+	if (!response.ok) {
+		throw new Error(`Failed to fetch ${url}: ${response.status}`);
+	}
+	return response.json();
+}
+
+/**
+ * Offers the contents as a file download.
+ * @param contents The file contents.
+ * @param type The MIME type of the file.
+ * @param filename The name the file is saved as.
+ */
+export function downloadFile(contents: string, type: string, filename: string): void {
+	const url = URL.createObjectURL(new Blob([contents], { type }));
+	const link = document.createElement("a");
+	link.href = url;
+	link.download = filename;
+	link.click();
+	// The download starts after the click returns, revoking the URL right away can cancel it.
+	setTimeout(() => URL.revokeObjectURL(url));
+}
+
+/**
+ * Resolves a file URL against a base URL, unless it is absolute or root-relative.
+ */
+export function resolveUrl(src: string, baseUrl: string): string {
+	return /^([a-z][a-z\d+.-]*:|\/)/i.test(src) ? src : `${baseUrl}${src}`;
+}
+
+/**
+ * Whether a parsed JSON value is an object, rather than null or an array.
+ */
+export function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
 }
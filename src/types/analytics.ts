@@ -0,0 +1,125 @@
+/**
+ * Interaction analytics types
+ */
+
+import type { AvatarMood, AvatarPhase, AvatarState, GestureType } from "./avatar";
+import type { EngagementLevel } from "./session";
+
+interface AnalyticsEventBase {
+	/**
+	 * Assigned by the store.
+	 */
+	id?: number;
+	/**
+	 * When the event happened, in milliseconds since the epoch.
+	 */
+	timestamp: number;
+	/**
+	 * The visitor session the event belongs to, null outside of sessions.
+	 */
+	sessionId: string | null;
+}
+
+export interface PersonArrivedEvent extends AnalyticsEventBase {
+	type: "person_arrived";
+	people: number;
+}
+
+export interface PersonLeftEvent extends AnalyticsEventBase {
+	type: "person_left";
+	/**
+	 * How long the visitor stayed, in milliseconds.
+	 */
+	dwellMs: number;
+	/**
+	 * How engaged the visitor got and how many gestures they made, when known.
+	 */
+	engagement?: EngagementLevel;
+	gestureCount?: number;
+}
+
+export interface GestureAnalyticsEvent extends AnalyticsEventBase {
+	type: "gesture";
+	gesture: GestureType;
+	/**
+	 * Highest classifier score while the gesture was held.
+	 */
+	confidence: number;
+	/**
+	 * How long the gesture was held, in milliseconds.
+	 */
+	dwellMs: number;
+}
+
+export interface ReactionEvent extends AnalyticsEventBase {
+	type: "reaction";
+	phase: AvatarPhase;
+	animation: string;
+	state: AvatarState;
+	mood: AvatarMood;
+}
+
+/**
+ * A recorded interaction. Only these facts are stored, never camera frames or landmarks.
+ */
+export type AnalyticsEvent = PersonArrivedEvent | PersonLeftEvent | GestureAnalyticsEvent | ReactionEvent;
+
+export type AnalyticsEventType = AnalyticsEvent["type"];
+
+export interface AnalyticsOptions {
+	/**
+	 * How long events are kept, in milliseconds.
+	 */
+	retentionMs: number;
+	/**
+	 * Most events kept, the oldest are dropped first.
+	 */
+	maxEvents: number;
+	/**
+	 * Interval at which expired events are deleted, in milliseconds.
+	 */
+	pruneIntervalMs: number;
+	/**
+	 * Shortest interval between change notifications, in milliseconds. Events recorded in between are notified together.
+	 */
+	notifyIntervalMs: number;
+}
+
+/**
+ * Aggregates of the kept events.
+ */
+export interface AnalyticsSummary {
+	sessions: number;
+	/**
+	 * Average time visitors stayed, in milliseconds, null without finished sessions.
+	 */
+	averageSessionMs: number | null;
+	/**
+	 * Sessions started in each hour of the day, local time, index 0 being midnight.
+	 */
+	engagementsByHour: number[];
+	/**
+	 * Gestures by count, most common first.
+	 */
+	topGestures: { gesture: GestureType; count: number }[];
+	gestures: number;
+	/**
+	 * Finished sessions by how engaged the visitor got.
+	 */
+	engagement: Record<EngagementLevel, number>;
+	/**
+	 * When the oldest kept event happened, in milliseconds since the epoch, null without events.
+	 */
+	since: number | null;
+}
+
+export type AnalyticsExportFormat = "csv" | "json";
+
+export interface AnalyticsExport {
+	version: 1;
+	/**
+	 * ISO 8601 date of the export.
+	 */
+	exportedAt: string;
+	events: AnalyticsEvent[];
+}
@@ -0,0 +1,93 @@
+/**
+ * Animation clip types
+ */
+
+import type { TargetAndTransition } from "framer-motion";
+
+/**
+ * Separately animated parts of the avatar: the whole body, each arm, and the pupils within the eyes.
+ */
+export type AnimationPart = "body" | "leftArm" | "rightArm" | "pupils";
+
+/**
+ * Framer Motion targets per part. Parts left out rest while the clip plays.
+ */
+export type AnimationParts = Partial<Record<AnimationPart, TargetAndTransition>>;
+
+interface AnimationClipBase {
+	/**
+	 * The name responses refer to the clip by, e.g. `wave`.
+	 */
+	name: string;
+	description?: string;
+}
+
+/**
+ * A clip of Framer Motion keyframes played on the avatar's parts.
+ */
+export interface VariantClip extends AnimationClipBase {
+	type: "variant";
+	parts: AnimationParts;
+}
+
+/**
+ * A clip played from a sprite sheet instead of the avatar character. Frames are laid out left to right, then top
+ * to bottom.
+ */
+export interface SpriteClip extends AnimationClipBase {
+	type: "sprite";
+	/**
+	 * URL of the sprite sheet, relative to the animation index.
+	 */
+	src: string;
+	frameWidth: number;
+	frameHeight: number;
+	frameCount: number;
+	/**
+	 * Frames per row, defaults to all frames in a single row.
+	 */
+	columns?: number;
+	fps: number;
+	/**
+	 * Whether the clip loops, otherwise it holds its last frame.
+	 */
+	loop?: boolean;
+}
+
+/**
+ * A clip loaded from a JSON vector animation file, played on the avatar's parts like a variant clip.
+ */
+export interface VectorClip extends AnimationClipBase {
+	type: "vector";
+	/**
+	 * URL of the vector animation file, relative to the animation index.
+	 */
+	src: string;
+	/**
+	 * The parts' keyframes, once the file is loaded.
+	 */
+	parts?: AnimationParts;
+}
+
+export type AnimationClip = VariantClip | SpriteClip | VectorClip;
+
+/**
+ * Keyframe tracks of a part, by animated property, e.g. `{ "rotate": [0, 10, 0] }`.
+ */
+export type VectorTracks = Record<string, number | number[]>;
+
+/**
+ * A JSON vector animation file: keyframe tracks per part, sharing the duration and keyframe times.
+ */
+export interface VectorAnimation {
+	/**
+	 * Duration of one run, in seconds.
+	 */
+	duration: number;
+	/**
+	 * Progress of every keyframe, from 0 to 1, evenly spaced when left out.
+	 */
+	times?: number[];
+	loop?: boolean;
+	parts: Partial<Record<AnimationPart, VectorTracks>>;
+}
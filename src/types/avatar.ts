@@ -2,6 +2,12 @@
  * Avatar system types and interfaces
  */
 
+import type AnimationRegistry from '../lib/AnimationRegistry';
+import type { CustomPoseType, Handedness, MotionGestureType, TwoHandGestureType } from './gesture';
+import type { TranslationParams } from './i18n';
+import type { ProximityOptions, ProximityZone } from './proximity';
+import type { LipSyncSource, VoiceOptions } from './speech';
+
 export type AvatarState = 'idle' | 'active' | 'defensive' | 'thinking';
 
 export type GestureType = 
@@ -13,9 +19,59 @@ export type GestureType =
 	| 'Victory'
 	| 'OK'
 	| 'ILoveYou'
+	| MotionGestureType
+	| CustomPoseType
+	| TwoHandGestureType
 	| 'None';
 
-export type AvatarMood = 'happy' | 'neutral' | 'sad' | 'excited' | 'defensive' | 'bored';
+export type AvatarMood = 'happy' | 'neutral' | 'sad' | 'wary' | 'excited' | 'defensive' | 'bored';
+
+export type GestureSentiment = 'positive' | 'negative' | 'neutral';
+
+/**
+ * Emotional state accumulated from gestures, decaying toward neutral over time
+ */
+export interface Emotion {
+	/**
+	 * How pleasant the interaction has been, from -1 (hostile) to 1 (delightful).
+	 */
+	valence: number;
+	/**
+	 * How intense the interaction has been, from 0 (calm) to 1 (agitated).
+	 */
+	arousal: number;
+}
+
+export interface EmotionOptions {
+	/**
+	 * Time for valence and arousal to decay halfway back to neutral, in milliseconds.
+	 */
+	halfLifeMs: number;
+	/**
+	 * Valence added by a positive gesture and removed by a negative one.
+	 */
+	positiveImpulse: number;
+	negativeImpulse: number;
+	/**
+	 * Arousal added by a positive or negative gesture, and by any other gesture.
+	 */
+	arousalImpulse: number;
+	neutralArousalImpulse: number;
+	/**
+	 * Valence at or below which the avatar is wary, and defensive.
+	 */
+	waryValence: number;
+	defensiveValence: number;
+	/**
+	 * Valence at or above which the avatar is happy, and excited when aroused above `excitedArousal`.
+	 */
+	happyValence: number;
+	excitedArousal: number;
+	/**
+	 * Arousal below which a neutral avatar is bored.
+	 */
+	boredArousal: number;
+}
 
 export interface AvatarConfig {
 	state: AvatarState;
@@ -31,11 +87,206 @@ export interface GestureResponse {
 	animation: string;
 	duration: number;
 	message: string;
+	/**
+	 * Key of the localized message and its parameters. `message` is shown when the locale has no such key.
+	 */
+	messageKey?: string;
+	messageParams?: TranslationParams;
+}
+
+/**
+ * Phase of an interaction with a visitor, driven by the avatar state machine
+ */
+export type AvatarPhase =
+	| 'idle'
+	| 'sleeping'
+	| 'attracting'
+	| 'waking'
+	| 'greeting'
+	| 'engaged'
+	| 'reacting'
+	| 'farewell';
+
+/**
+ * Behaviors shown while nobody is around, escalating with the time since the last interaction
+ */
+export type IdleBehavior = 'blink' | 'lookAround' | 'yawn' | 'stretch' | 'sleep';
+
+export interface IdleStage {
+	/**
+	 * Time since the last interaction from which the stage applies, in milliseconds.
+	 */
+	afterMs: number;
+	/**
+	 * Relative weights of the behaviors picked during the stage.
+	 */
+	weights: Partial<Record<IdleBehavior, number>>;
+}
+
+export interface IdleSchedulerOptions {
+	/**
+	 * The escalation stages, ordered by `afterMs`.
+	 */
+	stages: IdleStage[];
+	/**
+	 * Random delay between two behaviors, in milliseconds.
+	 */
+	minIntervalMs: number;
+	maxIntervalMs: number;
+}
+
+export type AvatarEvent =
+	| { type: 'PERSON_ARRIVED'; people: number }
+	| { type: 'PERSON_LEFT' }
+	| { type: 'IDLE_BEHAVIOR'; behavior: IdleBehavior }
+	| { type: 'ZONE_CHANGED'; zone: ProximityZone | null }
+	| { type: 'PROMOTION' }
+	| { type: 'GESTURE'; gesture: GestureType; response: GestureResponse; priority: number };
+
+export interface AvatarContext {
+	/**
+	 * The response currently shown, and its interrupt priority while reacting.
+	 */
+	response: GestureResponse;
+	gesture: GestureType;
+	priority: number;
+	/**
+	 * How many people were in view when the visitors arrived.
+	 */
+	people: number;
+}
+
+/**
+ * A response as defined by a personality, with a pool of messages one is picked from at random
+ */
+export interface ResponseTemplate extends Omit<GestureResponse, 'message'> {
+	message?: string;
+	messages?: string[];
+}
+
+/**
+ * Responses outside of gesture reactions
+ */
+export type SpecialResponse = 'noPerson' | 'greeting' | 'farewell' | 'group' | 'wake' | 'beckon' | 'comeCloser' | 'promotion';
+
+/**
+ * Colors of the avatar character, as CSS colors
+ */
+export interface AvatarAppearance {
+	skin?: string;
+	body?: string;
+}
+
+/**
+ * Direction the avatar looks in, from -1 to 1 on both axes: left to right and up to down, 0 being straight ahead
+ */
+export interface Gaze {
+	x: number;
+	y: number;
+}
+
+/**
+ * Where the avatar looks at a point in time, read on every animation frame
+ */
+export interface GazeSource {
+	getGaze(timestamp: number): Gaze;
+}
+
+export interface GazeOptions {
+	/**
+	 * Whether the frames fed to the recognizer are mirrored (selfie view). Unmirrored webcam frames are flipped,
+	 * so the avatar looks toward the person rather than away.
+	 */
+	mirroredInput: boolean;
+	/**
+	 * Time constant of the smoothing toward the target, in milliseconds. Higher is slower and steadier.
+	 */
+	smoothingMs: number;
+	/**
+	 * How far the avatar looks to the sides and up or down, from 0 to 1.
+	 */
+	maxX: number;
+	maxY: number;
+	/**
+	 * How far the hand moves the gaze: 1 maps the edges of the image to the limits.
+	 */
+	gain: number;
+	/**
+	 * How long the avatar keeps looking where a hand was lost before wandering, in milliseconds.
+	 */
+	lostAfterMs: number;
+	/**
+	 * Random delay between two wandering glances, in milliseconds, and how far they reach, from 0 to 1.
+	 */
+	wanderMinMs: number;
+	wanderMaxMs: number;
+	wanderAmount: number;
+}
+
+/**
+ * A personality profile, loaded from JSON. Everything left out falls back to the built-in defaults.
+ */
+export interface PersonalityProfile {
+	id: string;
+	name: string;
+	description?: string;
+	responses?: Partial<Record<GestureType, ResponseTemplate>>;
+	/**
+	 * Messages replacing a gesture's messages when it is made with a specific hand.
+	 */
+	handedMessages?: Partial<Record<GestureType, Partial<Record<Handedness, string[]>>>>;
+	special?: Partial<Record<SpecialResponse, ResponseTemplate>>;
+	idle?: {
+		responses?: Partial<Record<IdleBehavior, ResponseTemplate>>;
+		scheduler?: Partial<IdleSchedulerOptions>;
+	};
+	appearance?: AvatarAppearance;
+	/**
+	 * The voice the avatar's messages are spoken with.
+	 */
+	voice?: Partial<VoiceOptions>;
+	thresholds?: {
+		emotion?: Partial<EmotionOptions>;
+		proximity?: Partial<ProximityOptions>;
+	};
+}
+
+/**
+ * An entry of the personality index, listing the profiles available at runtime
+ */
+export interface PersonalityIndexEntry {
+	id: string;
+	name: string;
+	/**
+	 * Path of the profile, relative to the index.
+	 */
+	file: string;
 }
 
 export interface AvatarProps {
-	gestureType: GestureType;
+	response: GestureResponse;
 	isPersonDetected: boolean;
+	/**
+	 * How many people's hands are visible.
+	 */
+	people?: number;
+	/**
+	 * Colors of the avatar character.
+	 */
+	appearance?: AvatarAppearance;
+	/**
+	 * The mouth movements of the message being spoken, and whether one is.
+	 */
+	lipSync?: LipSyncSource;
+	isSpeaking?: boolean;
+	/**
+	 * Where the avatar looks, straight ahead when left out.
+	 */
+	gaze?: GazeSource;
+	/**
+	 * The clips the response's animation is looked up in, the built-in ones when left out.
+	 */
+	animations?: AnimationRegistry;
 	className?: string;
 }
 
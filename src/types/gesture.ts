@@ -0,0 +1,216 @@
+/**
+ * Gesture stabilization types and interfaces
+ */
+
+import type { GestureType } from "./avatar";
+
+export interface GestureThresholds {
+	/**
+	 * Minimum classifier score for a frame to count as the gesture.
+	 */
+	minScore: number;
+	/**
+	 * Number of recent frames (M) voting on the gesture.
+	 */
+	windowSize: number;
+	/**
+	 * Number of votes (N of M) needed for the gesture to win.
+	 */
+	minVotes: number;
+	/**
+	 * How long the gesture must keep winning before it starts, in milliseconds.
+	 */
+	holdMs: number;
+	/**
+	 * How long the gesture may be missing before it ends, in milliseconds.
+	 */
+	releaseMs: number;
+}
+
+export interface GestureStabilizerOptions extends GestureThresholds {
+	/**
+	 * Overrides of the thresholds for individual gestures.
+	 */
+	perGesture?: Partial<Record<GestureType, Partial<GestureThresholds>>>;
+	/**
+	 * Interval between "held" events while a gesture stays active, in milliseconds.
+	 */
+	heldIntervalMs: number;
+}
+
+export type GestureEventType = "started" | "held" | "ended";
+
+export interface GestureEvent {
+	type: GestureEventType;
+	gesture: GestureType;
+	/**
+	 * Highest score seen for the gesture while it was active.
+	 */
+	score: number;
+	timestamp: number;
+	/**
+	 * Time since the gesture started, in milliseconds.
+	 */
+	durationMs: number;
+}
+
+/**
+ * The gesture classified in a single frame.
+ */
+export interface GestureClassification {
+	gesture: GestureType;
+	score: number;
+}
+
+/**
+ * Which hand of the person, as opposed to MediaPipe's label, which assumes a mirrored image.
+ */
+export type Handedness = "Left" | "Right";
+
+/**
+ * The gesture classified for a single hand in a frame.
+ */
+export interface HandClassification extends GestureClassification {
+	handedness: Handedness;
+	/**
+	 * Index of the hand in the recognition results.
+	 */
+	index: number;
+}
+
+/**
+ * The classifications of every hand in a frame, combined into a single gesture.
+ */
+export interface FrameClassification {
+	/**
+	 * The combined gesture of the frame: a two-hand gesture, else the best gesture of a single hand.
+	 */
+	classification: GestureClassification | null;
+	/**
+	 * The gesture of every visible hand.
+	 */
+	hands: HandClassification[];
+	/**
+	 * Estimated number of people the visible hands belong to.
+	 */
+	people: number;
+}
+
+export type MotionGestureType = "Wave" | "Swipe_Left" | "Swipe_Right" | "Push" | "Pull" | "Circle";
+
+export interface MotionGestureOptions {
+	/**
+	 * How much hand history is kept, in milliseconds.
+	 */
+	historyMs: number;
+	/**
+	 * Whether the frames fed to the recognizer are mirrored (selfie view). Swipes are reported from the person's point
+	 * of view, in unmirrored webcam frames their right is the image's left.
+	 */
+	mirroredInput: boolean;
+	/**
+	 * How long a detected motion gesture is reported after detection, in milliseconds.
+	 */
+	reportMs: number;
+	/**
+	 * Minimum time between two detections, in milliseconds.
+	 */
+	cooldownMs: number;
+	/**
+	 * Minimum number of direction reversals, and horizontal amplitude in normalized units, for a wave.
+	 */
+	waveReversals: number;
+	waveAmplitude: number;
+	/**
+	 * Minimum horizontal distance, in normalized units, and maximum duration of a swipe.
+	 */
+	swipeDistance: number;
+	swipeMaxMs: number;
+	/**
+	 * Hand size ratio over `pushPullMaxMs` above which the hand is pushed (or below the inverse, pulled).
+	 */
+	pushPullRatio: number;
+	pushPullMaxMs: number;
+	/**
+	 * Minimum fraction of a full turn, and radius in normalized units, for a circle.
+	 */
+	circleTurns: number;
+	circleRadius: number;
+}
+
+export type CustomPoseType = "Middle_Finger" | "Pinch" | "Call_Me" | "Rock";
+
+export type FingerName = "thumb" | "index" | "middle" | "ring" | "pinky";
+
+export type FingerState = "extended" | "curled";
+
+/**
+ * Geometric features of a hand, computed from its 21 landmarks.
+ */
+export interface HandFeatures {
+	/**
+	 * How extended each finger is, from 0 (fully curled) to 1 (straight).
+	 */
+	extension: Record<FingerName, number>;
+	/**
+	 * Distance between the thumb and index finger tips, relative to the palm size.
+	 */
+	pinchDistance: number;
+}
+
+/**
+ * A named static pose, defined by finger states and/or a custom scoring function.
+ * The pose score is the lowest of the finger state confidences and the custom score.
+ */
+export interface PoseDefinition {
+	name: GestureType;
+	/**
+	 * Required state of each finger, unlisted fingers are ignored.
+	 */
+	fingers?: Partial<Record<FingerName, FingerState>>;
+	/**
+	 * Additional score from 0 to 1.
+	 */
+	score?: (features: HandFeatures) => number;
+	/**
+	 * Minimum score for the pose to match.
+	 */
+	minScore?: number;
+}
+
+export type TwoHandGestureType = "Double_Thumbs_Up" | "Heart" | "Clap";
+
+export interface TwoHandGestureOptions {
+	/**
+	 * How long a detected clap is reported after detection, and the minimum time between two claps, in milliseconds.
+	 */
+	reportMs: number;
+	cooldownMs: number;
+	/**
+	 * Minimum score of both hands' Thumb_Up for a double thumbs up.
+	 */
+	thumbsUpScore: number;
+	/**
+	 * Maximum distance between the index tips and between the thumb tips for a heart, relative to the hand size.
+	 */
+	heartDistance: number;
+	/**
+	 * Distance between the palms, relative to the hand size, the hands must close from and to within `clapMaxMs`.
+	 */
+	clapOpenDistance: number;
+	clapClosedDistance: number;
+	clapMaxMs: number;
+	/**
+	 * Hand size ratio above which two hands are assumed to belong to different people, at different distances.
+	 */
+	peopleSizeRatio: number;
+	/**
+	 * Horizontal wrist distance, in normalized units, above which two hands are assumed to belong to different people.
+	 */
+	peopleSpread: number;
+	/**
+	 * Whether the frames fed to the recognizer are mirrored (selfie view). MediaPipe assumes they are,
+	 * so its handedness labels are swapped for unmirrored webcam frames.
+	 */
+	mirroredInput: boolean;
+}
@@ -0,0 +1,47 @@
+/**
+ * Localization types
+ */
+
+export type TextDirection = "ltr" | "rtl";
+
+/**
+ * A message with a form per plural category of the `count` parameter, `other` being required as the fallback.
+ */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+/**
+ * Messages by key. `{name}` placeholders are replaced by the parameter of the same name.
+ */
+export type LocaleMessages = Record<string, string | PluralMessage>;
+
+export type TranslationParams = Record<string, string | number>;
+
+export type TimeOfDay = "morning" | "afternoon" | "evening" | "night";
+
+/**
+ * An entry of the locale index, listing the locales available at runtime.
+ */
+export interface LocaleIndexEntry {
+	/**
+	 * BCP 47 language tag, e.g. `de` or `ar-EG`.
+	 */
+	code: string;
+	name: string;
+	dir?: TextDirection;
+	/**
+	 * Path of the messages, relative to the index.
+	 */
+	file: string;
+}
+
+export interface TranslatorOptions {
+	dir: TextDirection;
+	/**
+	 * Messages used for keys missing from the locale's messages.
+	 */
+	fallback: LocaleMessages;
+	/**
+	 * Replaces the `{storeName}` placeholder, defaults to the `store.defaultName` message.
+	 */
+	storeName?: string;
+}
@@ -0,0 +1,51 @@
+/**
+ * Notice board types
+ */
+
+/**
+ * Announcements inform visitors, e.g. of opening hours. The avatar also calls out promotions while nobody interacts.
+ */
+export type NoticeKind = "announcement" | "promotion";
+
+/**
+ * An entry of the notice feed in `public/notices/feed.json`.
+ */
+export interface Notice {
+	id: string;
+	kind: NoticeKind;
+	title: string;
+	body?: string;
+	/**
+	 * URL of an image shown with the notice, relative to the feed.
+	 */
+	image?: string;
+	/**
+	 * ISO 8601 date and time from which, and until which, the notice is shown. Shown from the start, and without end,
+	 * when left out.
+	 */
+	startsAt?: string;
+	endsAt?: string;
+	/**
+	 * Notices with a higher priority are shown first, and the highest priority promotion is called out. Defaults to 0.
+	 */
+	priority?: number;
+	/**
+	 * What the avatar says when calling out the promotion, instead of the built-in message naming its title.
+	 */
+	callout?: string;
+}
+
+export interface NoticeOptions {
+	/**
+	 * How long each notice is shown before the next one, in milliseconds.
+	 */
+	rotateMs: number;
+	/**
+	 * How often the feed is fetched again, in milliseconds, so edits apply without restarting the kiosk.
+	 */
+	reloadMs: number;
+	/**
+	 * How often the avatar calls out the current promotion while idle, in milliseconds.
+	 */
+	calloutMs: number;
+}
@@ -0,0 +1,61 @@
+/**
+ * Face presence types
+ */
+
+/**
+ * A face seen by the presence detector.
+ */
+export interface FacePresence {
+	/**
+	 * Bounding box in normalized image coordinates.
+	 */
+	box: { x: number; y: number; width: number; height: number };
+	score: number;
+	/**
+	 * Face width relative to the frame width.
+	 */
+	size: number;
+	/**
+	 * Approximate distance from the camera, in meters.
+	 */
+	distance: number;
+	/**
+	 * Nose offset from between the eyes, relative to the eye distance: 0 looking straight at the camera, around 0.5
+	 * and beyond in profile, positive when turned towards the right of the image.
+	 */
+	yaw: number;
+	facing: boolean;
+}
+
+export interface PresenceResult {
+	faces: FacePresence[];
+	/**
+	 * People in view, and those of them facing the screen.
+	 */
+	people: number;
+	facing: number;
+	/**
+	 * Distance of the nearest face in meters, null without faces.
+	 */
+	nearestDistance: number | null;
+	/**
+	 * The frame timestamp from performance.now().
+	 */
+	timestamp: number;
+}
+
+export interface PresenceOptions {
+	/**
+	 * Smallest face width relative to the frame width, so people far behind the display don't count.
+	 */
+	minFaceSize: number;
+	/**
+	 * Average face width in meters and the camera's horizontal field of view in degrees, to estimate the distance.
+	 */
+	faceWidthMeters: number;
+	fieldOfViewDegrees: number;
+	/**
+	 * Largest yaw at which a face still counts as facing the screen.
+	 */
+	maxFacingYaw: number;
+}
@@ -0,0 +1,32 @@
+/**
+ * Proximity zone types
+ */
+
+/**
+ * How close the nearest visitor is: passing by in the distance, approaching the display, or close enough to interact.
+ */
+export type ProximityZone = "far" | "approach" | "interact";
+
+export interface ProximityOptions {
+	/**
+	 * Distances in meters below which a visitor is approaching, and close enough to interact.
+	 */
+	approachDistance: number;
+	interactDistance: number;
+	/**
+	 * How far past a zone boundary the distance has to be to cross it, in meters, so a visitor standing on it doesn't
+	 * flip between the zones.
+	 */
+	hysteresis: number;
+	/**
+	 * How long the nearest visitor may be out of view before the zone is lost, in milliseconds, so a passer-by
+	 * detected on and off isn't approached over and over again.
+	 */
+	leaveGraceMs: number;
+	/**
+	 * Average length of the palm, from the wrist to the base of the middle finger, in meters, and the camera's
+	 * horizontal field of view in degrees, to estimate the distance of a hand.
+	 */
+	palmLengthMeters: number;
+	fieldOfViewDegrees: number;
+}
@@ -0,0 +1,64 @@
+/**
+ * Gesture recording and dataset types
+ */
+
+import type { Category, Landmark, NormalizedLandmark } from "@mediapipe/tasks-vision";
+
+/**
+ * A single frame of recognition results.
+ */
+export interface RecordedFrame {
+	/**
+	 * Time since the start of the recording, in milliseconds.
+	 */
+	timestamp: number;
+	landmarks: NormalizedLandmark[][];
+	worldLandmarks: Landmark[][];
+	handedness: Category[][];
+	gestures: Category[][];
+}
+
+/**
+ * A labeled sequence of frames.
+ */
+export interface Recording {
+	id: string;
+	label: string;
+	/**
+	 * ISO 8601 date the recording started.
+	 */
+	startedAt: string;
+	frames: RecordedFrame[];
+}
+
+export interface GestureDataset {
+	version: 1;
+	recordings: Recording[];
+}
+
+export type DatasetFormat = "json" | "ndjson";
+
+/**
+ * One line of an NDJSON dataset: a frame with the recording it belongs to.
+ */
+export interface DatasetLine extends RecordedFrame {
+	recordingId: string;
+	label: string;
+	startedAt: string;
+}
+
+/**
+ * Playback state of a replayed recording or video file.
+ */
+export interface ReplayState {
+	isPlaying: boolean;
+	/**
+	 * Playback position and duration, in milliseconds.
+	 */
+	position: number;
+	duration: number;
+	/**
+	 * Playback rate, 1 is real time.
+	 */
+	speed: number;
+}
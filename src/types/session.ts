@@ -0,0 +1,64 @@
+/**
+ * Visitor session types
+ */
+
+import type { GestureType } from "./avatar";
+
+/**
+ * How engaged a visitor is: just standing there, making gestures, or making many of them or for a long time.
+ */
+export type EngagementLevel = "passive" | "interacting" | "highlyEngaged";
+
+/**
+ * A visit, from the moment someone stays in view until they are gone for longer than the grace period.
+ */
+export interface VisitorSession {
+	id: string;
+	/**
+	 * When the visitor arrived, was last seen, and left, in milliseconds since the epoch. `endedAt` is null while
+	 * the session lasts.
+	 */
+	startedAt: number;
+	lastSeenAt: number;
+	endedAt: number | null;
+	/**
+	 * Most people in view at once.
+	 */
+	people: number;
+	engagement: EngagementLevel;
+	/**
+	 * Gestures made during the session, and how often each.
+	 */
+	gestureCount: number;
+	gestureCounts: Partial<Record<GestureType, number>>;
+}
+
+export type SessionEventType = "started" | "engagement" | "ended";
+
+export interface SessionEvent {
+	type: SessionEventType;
+	/**
+	 * The session, as of the event.
+	 */
+	session: VisitorSession;
+	timestamp: number;
+}
+
+export interface SessionOptions {
+	/**
+	 * How long someone has to stay in view before a session starts, in milliseconds, so passers-by and single
+	 * frames don't count.
+	 */
+	arriveMs: number;
+	/**
+	 * How long the visitor may be out of view before the session ends, in milliseconds, e.g. while their hands are
+	 * down.
+	 */
+	leaveGraceMs: number;
+	/**
+	 * Gestures after which a visitor is highly engaged, or time from their first gesture to their latest, in
+	 * milliseconds.
+	 */
+	highlyEngagedGestures: number;
+	highlyEngagedMs: number;
+}
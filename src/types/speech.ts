@@ -0,0 +1,143 @@
+/**
+ * Speech output types
+ */
+
+export interface VoiceOptions {
+	/**
+	 * Part of the name of the voice to use, e.g. `Samantha` or `Google UK English Female`. Without a match, the
+	 * first voice for the language is used.
+	 */
+	voice?: string;
+	/**
+	 * Speaking rate, 1 is normal speed.
+	 */
+	rate: number;
+	/**
+	 * Pitch, 1 is the voice's normal pitch.
+	 */
+	pitch: number;
+	/**
+	 * Volume, from 0 to 1.
+	 */
+	volume: number;
+}
+
+export interface SpeechRequest extends VoiceOptions {
+	text: string;
+	/**
+	 * BCP 47 language tag of the text.
+	 */
+	lang: string;
+}
+
+export interface SpeechCallbacks {
+	onStart?: () => void;
+	/**
+	 * Called when the engine reaches a word, with the position of the word in the text.
+	 */
+	onBoundary?: (charIndex: number, charLength: number) => void;
+}
+
+/**
+ * A text-to-speech engine, e.g. the browser's speech synthesis or a local TTS server.
+ */
+export interface SpeechEngine {
+	/**
+	 * Check if the engine can speak in this environment.
+	 */
+	isSupported(): boolean;
+	/**
+	 * Speak a text.
+	 * @returns A promise resolving once the text has been spoken or the speech was cancelled.
+	 */
+	speak(request: SpeechRequest, callbacks?: SpeechCallbacks): Promise<void>;
+	/**
+	 * Stop speaking.
+	 */
+	cancel(): void;
+}
+
+export interface SpeechOptions {
+	/**
+	 * Time before the same message is spoken again to the same visitor, in milliseconds.
+	 */
+	cooldownMs: number;
+	/**
+	 * Number of messages waiting for the current one to finish, the oldest ones are dropped beyond it.
+	 */
+	maxQueue: number;
+	/**
+	 * Voice used when the personality does not set one.
+	 */
+	voice: VoiceOptions;
+}
+
+export interface SpeechState {
+	muted: boolean;
+	/**
+	 * The text being spoken.
+	 */
+	speaking: string | null;
+	queued: string[];
+}
+
+/**
+ * Event of the message being spoken, for animations synchronized to the speech.
+ */
+export type SpeechEvent =
+	| { type: "start"; text: string; rate: number }
+	| { type: "boundary"; charIndex: number; charLength: number }
+	| { type: "end" };
+
+/**
+ * Mouth shape, a coarse viseme: closed between words, and open, wide or round by the vowel being spoken.
+ */
+export type MouthShape = "closed" | "open" | "wide" | "round";
+
+export interface LipSyncFrame {
+	shape: MouthShape;
+	/**
+	 * How far the mouth is open, from 0 to 1.
+	 */
+	openness: number;
+}
+
+/**
+ * Anything the avatar can read its mouth from on every animation frame.
+ */
+export interface LipSyncSource {
+	getFrame(timestamp: number): LipSyncFrame;
+}
+
+/**
+ * When a word is spoken, relative to the start of the speech.
+ */
+export interface WordTiming {
+	/**
+	 * Position of the word in the text.
+	 */
+	charIndex: number;
+	length: number;
+	start: number;
+	end: number;
+	/**
+	 * Mouth shape of every syllable of the word.
+	 */
+	shapes: MouthShape[];
+}
+
+export interface LipSyncOptions {
+	/**
+	 * Estimated speaking time per character at rate 1, in milliseconds.
+	 */
+	msPerChar: number;
+	/**
+	 * Estimated pause between words, and after punctuation, at rate 1, in milliseconds.
+	 */
+	wordGapMs: number;
+	punctuationPauseMs: number;
+	/**
+	 * Length of a syllable once the estimate has run out but the speech has not ended, in milliseconds.
+	 */
+	syllableMs: number;
+}
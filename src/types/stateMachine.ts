@@ -0,0 +1,62 @@
+/**
+ * State machine types and interfaces
+ */
+
+export interface MachineEvent {
+	type: string;
+}
+
+export interface TransitionDefinition<S extends string, C, E extends MachineEvent> {
+	target: S;
+	/**
+	 * The transition is only taken if the guard passes, the first passing transition of an event wins.
+	 */
+	guard?: (context: C, event: E) => boolean;
+	action?: (context: C, event: E) => void;
+	/**
+	 * Interrupt priority of the event, compared with the priority of the current state. Defaults to 0.
+	 */
+	priority?: number | ((context: C, event: E) => number);
+}
+
+export interface StateDefinition<S extends string, C, E extends MachineEvent> {
+	on?: Partial<Record<E["type"], TransitionDefinition<S, C, E> | TransitionDefinition<S, C, E>[]>>;
+	/**
+	 * Called when the state is entered and exited, with the event causing the transition, null for timeouts.
+	 */
+	entry?: (context: C, event: E | null) => void;
+	exit?: (context: C, event: E | null) => void;
+	/**
+	 * Minimum priority an event needs to interrupt the state, lower priority events are queued until it is left.
+	 * Defaults to 0.
+	 */
+	priority?: number | ((context: C) => number);
+	/**
+	 * Leaves the state for the target once it has been active for the given time, in milliseconds.
+	 */
+	timeout?: { after: number | ((context: C) => number); target: S };
+}
+
+export interface MachineDefinition<S extends string, C, E extends MachineEvent> {
+	initial: S;
+	context: C;
+	states: Record<S, StateDefinition<S, C, E>>;
+	/**
+	 * Maximum number of queued events, the oldest are dropped first. Defaults to 5.
+	 */
+	maxQueue?: number;
+	/**
+	 * Maximum number of transitions kept in the history. Defaults to 20.
+	 */
+	maxHistory?: number;
+}
+
+export interface TransitionRecord<S extends string, E extends MachineEvent> {
+	from: S;
+	to: S;
+	/**
+	 * The type of the event causing the transition, "timeout" for timeouts.
+	 */
+	event: E["type"] | "timeout";
+	timestamp: number;
+}
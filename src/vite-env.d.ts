@@ -1 +1,44 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+	/**
+	 * Base URL of self-hosted MediaPipe assets, or `public` for the copies bundled into the app.
+	 */
+	readonly VITE_MEDIAPIPE_ASSET_BASE_URL?: string;
+	/**
+	 * Set to `true` to run gesture recognition in a Web Worker.
+	 */
+	readonly VITE_RECOGNIZER_WORKER?: string;
+	/**
+	 * Maximum number of hands to track, defaults to 2.
+	 */
+	readonly VITE_NUM_HANDS?: string;
+	/**
+	 * Set to `false` to notice visitors by their hands only, without loading the face detector.
+	 */
+	readonly VITE_FACE_PRESENCE?: string;
+	/**
+	 * Id of the personality to start with, one of `public/personalities/index.json` or `default` for the built-in one.
+	 */
+	readonly VITE_PERSONALITY?: string;
+	/**
+	 * Code of the locale to start with, one of `public/locales/index.json` or `en` for the built-in one.
+	 */
+	readonly VITE_LOCALE?: string;
+	/**
+	 * Name of the store, filled into messages with a `{storeName}` placeholder.
+	 */
+	readonly VITE_STORE_NAME?: string;
+	/**
+	 * URL of a local TTS server to speak with instead of the browser's speech synthesis.
+	 */
+	readonly VITE_TTS_URL?: string;
+	/**
+	 * Set to `false` to start with speech unmuted.
+	 */
+	readonly VITE_SPEECH_MUTED?: string;
+}
+
+interface ImportMeta {
+	readonly env: ImportMetaEnv;
+}
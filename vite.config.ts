@@ -14,4 +14,8 @@ export default defineConfig({
 	build: {
 		target: "ESNext",
 	},
+	// Workers are created as module workers, bundle them the same way as in development.
+	worker: {
+		format: "es",
+	},
 });